@@ -4,15 +4,58 @@ import type {
 	INodeExecutionData,
 	INodeType,
 	INodeTypeDescription,
+	ILoadOptionsFunctions,
+	INodeListSearchResult,
+	INodePropertyOptions,
 } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
 
 import {
 	ontapApiRequest,
 	ontapApiRequestAllItems,
 	handleAsyncResponse,
+	getJobOptions,
 	cleanObject,
-	parseApiFilters,
+	getFilterQuery,
+	ontapListSearch,
+	executeCustomApiCall,
+	getErrorOutput,
+	formatSizeFields,
+	resolveOntapId,
+	invalidateOntapIds,
+	getDryRunOutput,
+	processItems,
+	ontapCliRequest,
+	buildFieldsQuery,
+	getCatalogFieldOptions,
+	getJsonParameter,
+	assertToolOperationAllowed,
 } from '../shared/GenericFunctions';
+import { customApiCallProperties } from '../shared/CustomApiCallDescription';
+import { fieldsOption } from '../shared/FieldsDescription';
+import { filterConditionsOption, listControlOptions } from '../shared/FilterDescription';
+import { jobOptionsProperties } from '../shared/JobOptionsDescription';
+import type { OntapToolOperations } from '../shared/types';
+
+/**
+ * Operations that remove or overwrite data or cut access, which an AI agent
+ * may only run when the node allows destructive operations
+ */
+const DESTRUCTIVE_TOOL_OPERATIONS: OntapToolOperations = {
+	license: ['delete'],
+	schedule: ['delete'],
+};
+
+/**
+ * Field catalog collection of each resource, for the "Fields" option
+ */
+const FIELD_CATALOG_COLLECTIONS: Record<string, string> = {
+	cluster: '/cluster',
+	job: '/cluster/jobs',
+	license: '/cluster/licensing/licenses',
+	node: '/cluster/nodes',
+	schedule: '/cluster/schedules',
+};
 
 export class NetAppOntapCluster implements INodeType {
 	description: INodeTypeDescription = {
@@ -28,6 +71,7 @@ export class NetAppOntapCluster implements INodeType {
 		},
 		inputs: ['main'],
 		outputs: ['main'],
+		usableAsTool: true,
 		credentials: [
 			{
 				name: 'netAppOntapApi',
@@ -42,15 +86,39 @@ export class NetAppOntapCluster implements INodeType {
 				type: 'string',
 				default: '',
 				placeholder: 'cluster.example.com',
-				description: 'The hostname or IP address of the ONTAP cluster management LIF',
-				required: true,
+				description: 'The hostname or IP address of the ONTAP cluster management LIF. Leave empty to use the cluster host from the credential.',
 			},
 			{
 				displayName: 'Port',
 				name: 'clusterPort',
 				type: 'number',
 				default: 443,
-				description: 'HTTPS port for the ONTAP REST API',
+				description: 'HTTPS port for the ONTAP REST API. Only used when Cluster Host is set on the node.',
+			},
+			{
+				displayName: 'Dry Run',
+				name: 'dryRun',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to return the POST, PATCH and DELETE requests the node would send instead of sending them. GET requests, e.g. to resolve names to UUIDs, are still sent.',
+			},
+			{
+				displayName: 'Concurrency',
+				name: 'concurrency',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+					maxValue: 32,
+				},
+				default: 1,
+				description: 'How many input items to process at the same time, e.g. for bulk provisioning or operations that wait on jobs. Output order and item pairing are kept.',
+			},
+			{
+				displayName: 'Allow Destructive Operations for AI Agents',
+				name: 'allowDestructiveToolOperations',
+				type: 'boolean',
+				default: false,
+				description: 'Whether an AI agent using this node as a tool may run operations that remove or overwrite data or cut access, such as delete. Has no effect in regular workflows.',
 			},
 			// Resource Selection
 			{
@@ -59,11 +127,21 @@ export class NetAppOntapCluster implements INodeType {
 				type: 'options',
 				noDataExpression: true,
 				options: [
+					{
+						name: 'CLI',
+						value: 'cli',
+						description: 'Run ONTAP CLI commands through the REST API',
+					},
 					{
 						name: 'Cluster',
 						value: 'cluster',
 						description: 'Manage cluster-level settings',
 					},
+					{
+						name: 'Custom API Call',
+						value: 'customApiCall',
+						description: 'Call any ONTAP REST API endpoint',
+					},
 					{
 						name: 'Job',
 						value: 'job',
@@ -88,6 +166,102 @@ export class NetAppOntapCluster implements INodeType {
 				default: 'cluster',
 			},
 
+			// ===================
+			// CLI OPERATIONS
+			// ===================
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['cli'],
+					},
+				},
+				options: [
+					{
+						name: 'Run Command',
+						value: 'runCommand',
+						description: 'Run a CLI command via the private CLI passthrough (/api/private/cli)',
+						action: 'Run CLI command',
+					},
+				],
+				default: 'runCommand',
+			},
+			{
+				displayName: 'Command',
+				name: 'cliCommand',
+				type: 'string',
+				default: '',
+				required: true,
+				placeholder: 'volume show -vserver svm1 -fields size,state',
+				displayOptions: {
+					show: {
+						resource: ['cli'],
+						operation: ['runCommand'],
+					},
+				},
+				description: 'ONTAP CLI command. With Parsed Records, parameters must be given as -name value pairs.',
+			},
+			{
+				displayName: 'Output',
+				name: 'cliOutput',
+				type: 'options',
+				options: [
+					{
+						name: 'Parsed Records',
+						value: 'records',
+						description: 'Map the command to its /api/private/cli REST call (show → GET, create → POST, modify → PATCH, delete → DELETE, other verbs → POST) and return the records',
+					},
+					{
+						name: 'Raw Output',
+						value: 'raw',
+						description: 'Send the command text as-is and return the CLI output (ONTAP 9.11.1 or later)',
+					},
+				],
+				default: 'records',
+				displayOptions: {
+					show: {
+						resource: ['cli'],
+						operation: ['runCommand'],
+					},
+				},
+				description: 'Whether to return the records of the command as items, or the raw response as returned by ONTAP',
+			},
+			{
+				displayName: 'Privilege Level',
+				name: 'cliPrivilegeLevel',
+				type: 'options',
+				options: [
+					{ name: 'Admin', value: 'admin' },
+					{ name: 'Advanced', value: 'advanced' },
+					{ name: 'Diagnostic', value: 'diagnostic' },
+				],
+				default: 'admin',
+				displayOptions: {
+					show: {
+						resource: ['cli'],
+						operation: ['runCommand'],
+					},
+				},
+				description: 'Privilege level to run the command at',
+			},
+			{
+				displayName: 'Values to Set (JSON)',
+				name: 'cliBody',
+				type: 'json',
+				default: '{}',
+				displayOptions: {
+					show: {
+						resource: ['cli'],
+						operation: ['runCommand'],
+						cliOutput: ['records'],
+					},
+				},
+				description: 'Request body for "modify" commands (the -name value pairs select the records) or extra fields for "create" and action commands',
+			},
+
 			// ===================
 			// CLUSTER OPERATIONS
 			// ===================
@@ -261,7 +435,7 @@ export class NetAppOntapCluster implements INodeType {
 				displayName: 'Node',
 				name: 'nodeId',
 				type: 'resourceLocator',
-				default: { mode: 'uuid', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -269,7 +443,17 @@ export class NetAppOntapCluster implements INodeType {
 						operation: ['get', 'update'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchNodes',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By UUID',
 						name: 'uuid',
 						type: 'string',
@@ -282,6 +466,7 @@ export class NetAppOntapCluster implements INodeType {
 						placeholder: 'node-01',
 					},
 				],
+				description: 'Cluster node to use, by UUID or by node name such as cluster1-01',
 			},
 
 			// Node Update Fields
@@ -374,7 +559,7 @@ export class NetAppOntapCluster implements INodeType {
 				displayName: 'License Feature',
 				name: 'licenseName',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -382,13 +567,24 @@ export class NetAppOntapCluster implements INodeType {
 						operation: ['get', 'delete'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchLicenses',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 						placeholder: 'nfs',
 					},
 				],
+				description: 'Licensed feature, by package name such as nfs or snapmirror',
 			},
 
 			// License Serial Number for Delete
@@ -472,6 +668,35 @@ export class NetAppOntapCluster implements INodeType {
 				},
 				description: 'Maximum time to wait for job completion',
 			},
+			{
+				displayName: 'Poll Interval (Seconds)',
+				name: 'waitPollInterval',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 2,
+				displayOptions: {
+					show: {
+						resource: ['job'],
+						operation: ['wait'],
+					},
+				},
+				description: 'How often to check the state of the job',
+			},
+			{
+				displayName: 'Include Job History',
+				name: 'waitIncludeHistory',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						resource: ['job'],
+						operation: ['wait'],
+					},
+				},
+				description: 'Whether to return each state and message seen while waiting as _jobHistory, along with the elapsed time',
+			},
 
 			// Job Filters
 			{
@@ -493,8 +718,9 @@ export class NetAppOntapCluster implements INodeType {
 						type: 'string',
 						default: '',
 						placeholder: 'type=rw,state=!offline',
-						description: 'ONTAP API filter expression. Format: field=value,field2=value2. Supports operators: =, !=, <, >, <=, >=, *, |',
+						description: 'ONTAP API filter expression. Format: field=value,field2=value2. Supports operators: =, !=, <, >, <=, >=, *, |. Quote a value to keep a comma followed by field= in it.',
 					},
+					filterConditionsOption,
 					{
 						displayName: 'Return All',
 						name: 'returnAll',
@@ -517,6 +743,34 @@ export class NetAppOntapCluster implements INodeType {
 							},
 						},
 					},
+					...listControlOptions,
+				],
+			},
+
+			// Node, License and Schedule Filters
+			{
+				displayName: 'Filters',
+				name: 'filters',
+				type: 'collection',
+				placeholder: 'Add Filter',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['node', 'license', 'schedule'],
+						operation: ['getMany'],
+					},
+				},
+				options: [
+					{
+						displayName: 'API Filters',
+						name: 'apiFilters',
+						type: 'string',
+						default: '',
+						placeholder: 'state=up,model=AFF*',
+						description: 'ONTAP API filter expression. Format: field=value,field2=value2. Supports operators: =, !=, <, >, <=, >=, *, |. Quote a value to keep a comma followed by field= in it.',
+					},
+					filterConditionsOption,
+					...listControlOptions,
 				],
 			},
 
@@ -573,7 +827,7 @@ export class NetAppOntapCluster implements INodeType {
 				displayName: 'Schedule',
 				name: 'scheduleId',
 				type: 'resourceLocator',
-				default: { mode: 'uuid', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -581,13 +835,24 @@ export class NetAppOntapCluster implements INodeType {
 						operation: ['get', 'delete', 'update'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchSchedules',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By UUID',
 						name: 'uuid',
 						type: 'string',
 						placeholder: 'xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx',
 					},
 				],
+				description: 'Job schedule to use, by UUID',
 			},
 
 			// Schedule Create Fields
@@ -621,6 +886,7 @@ export class NetAppOntapCluster implements INodeType {
 						operation: ['create'],
 					},
 				},
+				description: 'Whether the schedule runs at fixed cron times or repeats after a fixed interval',
 			},
 			{
 				displayName: 'Cron Schedule',
@@ -688,6 +954,21 @@ export class NetAppOntapCluster implements INodeType {
 				description: 'Interval in seconds between executions',
 			},
 
+			// ===================
+			// JOB OPTIONS
+			// ===================
+			...jobOptionsProperties({
+				cluster: ['update'],
+				node: ['update'],
+				license: ['add'],
+				schedule: ['create', 'update'],
+			}),
+
+			// ===================
+			// CUSTOM API CALL
+			// ===================
+			...customApiCallProperties,
+
 			// Additional Options for all operations
 			{
 				displayName: 'Options',
@@ -696,37 +977,90 @@ export class NetAppOntapCluster implements INodeType {
 				placeholder: 'Add Option',
 				default: {},
 				options: [
+					fieldsOption,
 					{
-						displayName: 'Fields',
-						name: 'fields',
-						type: 'string',
-						default: '',
-						description: 'Comma-separated list of fields to include in the response (use * for all)',
+						displayName: 'Format Sizes',
+						name: 'formatSizes',
+						type: 'boolean',
+						default: false,
+						displayOptions: {
+							show: {
+								'/operation': ['get', 'getMany'],
+							},
+						},
+						description: 'Whether to add a human-readable companion such as size_formatted ("1.5 TB") next to each size field, and the percent used of space objects. The raw byte counts are kept.',
 					},
 				],
 			},
 		],
 	};
 
-	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
-		const items = this.getInputData();
-		const returnData: INodeExecutionData[] = [];
+	methods = {
+		loadOptions: {
+			async getFields(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				return getCatalogFieldOptions.call(this, FIELD_CATALOG_COLLECTIONS);
+			},
+		},
+		listSearch: {
+			async searchLicenses(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/cluster/licensing/licenses', filter, paginationToken, { valueField: 'name' });
+			},
+			async searchNodes(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/cluster/nodes', filter, paginationToken);
+			},
+			async searchSchedules(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/cluster/schedules', filter, paginationToken);
+			},
+		},
+	};
 
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const resource = this.getNodeParameter('resource', 0) as string;
 		const operation = this.getNodeParameter('operation', 0) as string;
-
-		for (let i = 0; i < items.length; i++) {
+		const returnData = await processItems.call(this, async (i) => {
 			try {
+				assertToolOperationAllowed.call(this, DESTRUCTIVE_TOOL_OPERATIONS, i);
 				let responseData: IDataObject | IDataObject[] = {};
 				const options = this.getNodeParameter('options', i, {}) as IDataObject;
 				const qs: IDataObject = {};
+				const jobOptions = getJobOptions.call(this, i);
+
+				Object.assign(qs, buildFieldsQuery(options.fields as string | string[] | undefined));
+
+				// ========== CLI ==========
+				if (resource === 'cli') {
+					if (operation === 'runCommand') {
+						const command = this.getNodeParameter('cliCommand', i) as string;
+						const outputMode = this.getNodeParameter('cliOutput', i) as 'records' | 'raw';
+						const privilegeLevel = this.getNodeParameter('cliPrivilegeLevel', i) as string;
+
+						let body: IDataObject = {};
+						if (outputMode === 'records') {
+							try {
+								body = getJsonParameter.call(this, 'cliBody', i);
+							} catch {
+								throw new NodeOperationError(this.getNode(), 'Values to Set (JSON) is not valid JSON', { itemIndex: i });
+							}
+						}
 
-				if (options.fields) {
-					qs.fields = options.fields;
+						responseData = await ontapCliRequest.call(this, command, outputMode, privilegeLevel, body);
+					}
 				}
 
 				// ========== CLUSTER ==========
-				if (resource === 'cluster') {
+				else if (resource === 'cluster') {
 					if (operation === 'get') {
 						responseData = await ontapApiRequest.call(this, 'GET', '/cluster', {}, qs);
 					} else if (operation === 'getMetrics') {
@@ -756,13 +1090,15 @@ export class NetAppOntapCluster implements INodeType {
 						}
 
 						const response = await ontapApiRequest.call(this, 'PATCH', '/cluster', cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					}
 				}
 
 				// ========== NODE ==========
 				else if (resource === 'node') {
 					if (operation === 'getMany') {
+						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
+						Object.assign(qs, getFilterQuery(filters));
 						responseData = await ontapApiRequestAllItems.call(this, 'GET', '/cluster/nodes', {}, qs);
 					} else if (operation === 'get') {
 						const nodeLocator = this.getNodeParameter('nodeId', i) as { mode: string; value: string };
@@ -770,11 +1106,7 @@ export class NetAppOntapCluster implements INodeType {
 						
 						// If by name, look up the UUID first
 						if (nodeLocator.mode === 'name') {
-							const nodes = await ontapApiRequestAllItems.call(this, 'GET', '/cluster/nodes', {}, { name: nodeId });
-							if (nodes.length === 0) {
-								throw new Error(`Node "${nodeId}" not found`);
-							}
-							nodeId = nodes[0].uuid as string;
+							nodeId = await resolveOntapId.call(this, '/cluster/nodes', nodeId, 'Node', i);
 						}
 						
 						responseData = await ontapApiRequest.call(this, 'GET', `/cluster/nodes/${nodeId}`, {}, qs);
@@ -783,24 +1115,23 @@ export class NetAppOntapCluster implements INodeType {
 						let nodeId = nodeLocator.value;
 						
 						if (nodeLocator.mode === 'name') {
-							const nodes = await ontapApiRequestAllItems.call(this, 'GET', '/cluster/nodes', {}, { name: nodeId });
-							if (nodes.length === 0) {
-								throw new Error(`Node "${nodeId}" not found`);
-							}
-							nodeId = nodes[0].uuid as string;
+							nodeId = await resolveOntapId.call(this, '/cluster/nodes', nodeId, 'Node', i);
 						}
 						
 						const updateFields = this.getNodeParameter('nodeUpdateFields', i) as IDataObject;
 						const body = cleanObject(updateFields);
 						
 						const response = await ontapApiRequest.call(this, 'PATCH', `/cluster/nodes/${nodeId}`, body);
-						responseData = await handleAsyncResponse.call(this, response);
+						if (body.name) invalidateOntapIds.call(this, '/cluster/nodes');
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					}
 				}
 
 				// ========== LICENSE ==========
 				else if (resource === 'license') {
 					if (operation === 'getMany') {
+						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
+						Object.assign(qs, getFilterQuery(filters));
 						responseData = await ontapApiRequestAllItems.call(this, 'GET', '/cluster/licensing/licenses', {}, qs);
 					} else if (operation === 'get') {
 						const licenseLocator = this.getNodeParameter('licenseName', i) as { mode: string; value: string };
@@ -812,7 +1143,7 @@ export class NetAppOntapCluster implements INodeType {
 						
 						const body = { keys };
 						const response = await ontapApiRequest.call(this, 'POST', '/cluster/licensing/licenses', body);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'delete') {
 						const licenseLocator = this.getNodeParameter('licenseName', i) as { mode: string; value: string };
 						const licenseName = licenseLocator.value;
@@ -834,9 +1165,7 @@ export class NetAppOntapCluster implements INodeType {
 						const filters = this.getNodeParameter('jobFilters', i, {}) as IDataObject;
 						
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 						
 						if (filters.returnAll) {
 							responseData = await ontapApiRequestAllItems.call(this, 'GET', '/cluster/jobs', {}, qs);
@@ -851,15 +1180,19 @@ export class NetAppOntapCluster implements INodeType {
 					} else if (operation === 'wait') {
 						const jobUuid = this.getNodeParameter('jobUuid', i) as string;
 						const timeout = this.getNodeParameter('waitTimeout', i) as number;
+						const pollInterval = this.getNodeParameter('waitPollInterval', i, 2) as number;
+						const includeHistory = this.getNodeParameter('waitIncludeHistory', i, false) as boolean;
 						
 						const { pollJobUntilComplete } = await import('../shared/GenericFunctions');
-						responseData = await pollJobUntilComplete.call(this, jobUuid, timeout * 1000);
+						responseData = await pollJobUntilComplete.call(this, jobUuid, timeout * 1000, pollInterval * 1000, includeHistory);
 					}
 				}
 
 				// ========== SCHEDULE ==========
 				else if (resource === 'schedule') {
 					if (operation === 'getMany') {
+						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
+						Object.assign(qs, getFilterQuery(filters));
 						responseData = await ontapApiRequestAllItems.call(this, 'GET', '/cluster/schedules', {}, qs);
 					} else if (operation === 'get') {
 						const scheduleLocator = this.getNodeParameter('scheduleId', i) as { mode: string; value: string };
@@ -888,7 +1221,7 @@ export class NetAppOntapCluster implements INodeType {
 						}
 						
 						const response = await ontapApiRequest.call(this, 'POST', '/cluster/schedules', cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'update') {
 						const scheduleLocator = this.getNodeParameter('scheduleId', i) as { mode: string; value: string };
 						// For update, use the same structure as create but don't require name
@@ -896,24 +1229,35 @@ export class NetAppOntapCluster implements INodeType {
 						
 						// Get update fields - similar to create fields
 						const response = await ontapApiRequest.call(this, 'PATCH', `/cluster/schedules/${scheduleLocator.value}`, body);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					}
 				}
 
+				// ========== CUSTOM API CALL ==========
+				else if (resource === 'customApiCall') {
+					responseData = await executeCustomApiCall.call(this, i, qs);
+				}
+
 				// Return results
+				if (options.formatSizes) {
+					responseData = Array.isArray(responseData)
+						? responseData.map((record) => formatSizeFields(record))
+						: formatSizeFields(responseData);
+				}
+				responseData = getDryRunOutput.call(this, responseData);
+
 				const executionData = this.helpers.constructExecutionMetaData(
 					this.helpers.returnJsonArray(responseData as IDataObject[]),
 					{ itemData: { item: i } },
 				);
-				returnData.push(...executionData);
+				return executionData;
 			} catch (error) {
 				if (this.continueOnFail()) {
-					returnData.push({ json: { error: (error as Error).message }, pairedItem: { item: i } });
-					continue;
+					return [{ json: getErrorOutput(error as Error), pairedItem: { item: i } }];
 				}
 				throw error;
 			}
-		}
+		});
 
 		return [returnData];
 	}
@@ -0,0 +1,200 @@
+import type {
+	IDataObject,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	IPollFunctions,
+} from 'n8n-workflow';
+
+import { ontapApiRequest, resolveOntapBaseUrl } from '../shared/GenericFunctions';
+import type { OntapCredentials, OntapEmsEvent } from '../shared/types';
+
+/**
+ * Fields requested for each EMS event
+ */
+const EMS_EVENT_FIELDS = 'index,time,node.name,node.uuid,message.severity,message.name,log_message,parameters';
+
+export class NetAppOntapEmsTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'NetApp ONTAP EMS Trigger',
+		name: 'netAppOntapEmsTrigger',
+		icon: 'file:netapp.svg',
+		group: ['trigger'],
+		version: 1,
+		subtitle: '={{"EMS events: " + ($parameter["filters"]["severities"] || ["all"]).join(", ")}}',
+		description: 'Starts the workflow when new ONTAP EMS events are logged',
+		defaults: {
+			name: 'ONTAP EMS Trigger',
+		},
+		polling: true,
+		inputs: [],
+		outputs: ['main'],
+		credentials: [
+			{
+				name: 'netAppOntapApi',
+				required: true,
+			},
+		],
+		properties: [
+			// Cluster Connection
+			{
+				displayName: 'Cluster Host',
+				name: 'clusterHost',
+				type: 'string',
+				default: '',
+				placeholder: 'cluster.example.com',
+				description: 'The hostname or IP address of the ONTAP cluster management LIF. Leave empty to use the cluster host from the credential.',
+			},
+			{
+				displayName: 'Port',
+				name: 'clusterPort',
+				type: 'number',
+				default: 443,
+				description: 'HTTPS port for the ONTAP REST API. Only used when Cluster Host is set on the node.',
+			},
+			{
+				displayName: 'Filters',
+				name: 'filters',
+				type: 'collection',
+				placeholder: 'Add Filter',
+				default: {},
+				options: [
+					{
+						displayName: 'Message Name',
+						name: 'messageName',
+						type: 'string',
+						default: '',
+						placeholder: 'wafl.vol.*',
+						description: 'Only emit events whose message name matches this pattern. Supports * wildcards and | for alternatives.',
+					},
+					{
+						displayName: 'Node Name',
+						name: 'nodeName',
+						type: 'string',
+						default: '',
+						placeholder: 'cluster1-01',
+						description: 'Only emit events logged by this cluster node',
+					},
+					{
+						displayName: 'Severities',
+						name: 'severities',
+						type: 'multiOptions',
+						options: [
+							{ name: 'Alert', value: 'alert' },
+							{ name: 'Debug', value: 'debug' },
+							{ name: 'Emergency', value: 'emergency' },
+							{ name: 'Error', value: 'error' },
+							{ name: 'Informational', value: 'informational' },
+							{ name: 'Notice', value: 'notice' },
+						],
+						default: [],
+						description: 'Only emit events with one of these severities. Leave empty for all.',
+					},
+				],
+			},
+			{
+				displayName: 'Options',
+				name: 'options',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				options: [
+					{
+						displayName: 'Max Events per Poll',
+						name: 'maxEvents',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 500,
+						description: 'Max number of events to emit per poll. Remaining events are picked up by the next poll.',
+					},
+					{
+						displayName: 'Return Timeout',
+						name: 'returnTimeout',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+							maxValue: 120,
+						},
+						default: 15,
+						description: 'Seconds ONTAP may spend searching the event log on each poll before returning what it has. Raise it for a large event log. Events it did not reach are picked up by the next poll.',
+					},
+				],
+			},
+		],
+	};
+
+	async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
+		const filters = this.getNodeParameter('filters', {}) as IDataObject;
+		const options = this.getNodeParameter('options', {}) as IDataObject;
+		const maxEvents = (options.maxEvents as number) || 500;
+
+		// Remember the last seen index per cluster, so changing the cluster host
+		// (or the credential's cluster) starts a fresh cursor
+		const credentials = await this.getCredentials('netAppOntapApi') as OntapCredentials;
+		const clusterKey = resolveOntapBaseUrl.call(this, credentials);
+		const staticData = this.getWorkflowStaticData('node');
+		const lastIndexByCluster = (staticData.lastIndexByCluster || {}) as Record<string, number>;
+		const lastIndex = lastIndexByCluster[clusterKey];
+
+		const qs: IDataObject = {
+			fields: EMS_EVENT_FIELDS,
+		};
+		const severities = filters.severities as string[] | undefined;
+		if (severities && severities.length > 0) {
+			qs['message.severity'] = severities.join('|');
+		}
+		if (filters.messageName) {
+			qs['message.name'] = filters.messageName;
+		}
+		if (filters.nodeName) {
+			qs['node.name'] = filters.nodeName;
+		}
+		if (options.returnTimeout) {
+			qs.return_timeout = options.returnTimeout;
+		}
+
+		let events: OntapEmsEvent[];
+		if (lastIndex === undefined && this.getMode() !== 'manual') {
+			// First activation: start from the newest event instead of replaying the whole log
+			const latest = await ontapApiRequest.call(this, 'GET', '/support/ems/events', {}, {
+				fields: 'index',
+				order_by: 'index desc',
+				max_records: 1,
+			});
+			const newest = (latest.records?.[0] as IDataObject | undefined)?.index as number | undefined;
+			lastIndexByCluster[clusterKey] = newest ?? 0;
+			staticData.lastIndexByCluster = lastIndexByCluster;
+			return null;
+		} else if (lastIndex === undefined) {
+			// Manual test run without a cursor: show the most recent matching events
+			const response = await ontapApiRequest.call(this, 'GET', '/support/ems/events', {}, {
+				...qs,
+				order_by: 'index desc',
+				max_records: Math.min(maxEvents, 10),
+			});
+			events = ((response.records || []) as unknown as OntapEmsEvent[]).reverse();
+		} else {
+			// Only read one page, anything beyond it is picked up by the next poll
+			const response = await ontapApiRequest.call(this, 'GET', '/support/ems/events', {}, {
+				...qs,
+				index: `>${lastIndex}`,
+				order_by: 'index asc',
+				max_records: maxEvents,
+			});
+			events = (response.records || []) as unknown as OntapEmsEvent[];
+		}
+
+		if (this.getMode() !== 'manual' && events.length > 0) {
+			lastIndexByCluster[clusterKey] = Math.max(lastIndex ?? 0, ...events.map((event) => event.index));
+			staticData.lastIndexByCluster = lastIndexByCluster;
+		}
+
+		if (events.length === 0) {
+			return null;
+		}
+
+		return [this.helpers.returnJsonArray(events as unknown as IDataObject[])];
+	}
+}
@@ -0,0 +1,365 @@
+import type {
+	IDataObject,
+	IHookFunctions,
+	INodeType,
+	INodeTypeDescription,
+	IWebhookFunctions,
+	IWebhookResponseData,
+} from 'n8n-workflow';
+import { NodeApiError } from 'n8n-workflow';
+import { randomBytes, timingSafeEqual } from 'crypto';
+
+import { ontapApiRequest } from '../shared/GenericFunctions';
+import type { OntapEmsEvent } from '../shared/types';
+
+/**
+ * Build the names of the EMS filter and destination owned by this trigger.
+ * ONTAP only allows letters, digits, "-" and "_" in these names.
+ */
+function getEmsObjectName(this: IHookFunctions): string {
+	const node = this.getNode();
+	const suffix = (node.webhookId || node.id).replace(/[^a-zA-Z0-9]/g, '').slice(0, 32);
+	return `n8n_${suffix}`;
+}
+
+/**
+ * Build the message criteria of the filter's include rule from the node parameters
+ */
+function getMessageCriteria(this: IHookFunctions): IDataObject {
+	const severities = this.getNodeParameter('severities', []) as string[];
+	const messageName = (this.getNodeParameter('messageName', '*') as string).trim() || '*';
+
+	const messageCriteria: IDataObject = {
+		name_pattern: messageName,
+	};
+	if (severities.length > 0) {
+		messageCriteria.severities = severities.join(',');
+	}
+	return messageCriteria;
+}
+
+/**
+ * Normalize message criteria for comparison. ONTAP reports "all severities"
+ * as `*` and may list the severities in another order.
+ */
+function normalizeMessageCriteria(criteria: IDataObject | undefined): string {
+	const severities = String(criteria?.severities ?? '*')
+		.split(',')
+		.map((severity) => severity.trim().toLowerCase())
+		.filter((severity) => severity !== '')
+		.sort();
+	return JSON.stringify([criteria?.name_pattern ?? '*', severities.includes('*') ? ['*'] : severities]);
+}
+
+/**
+ * Build the URL the destination posts to. The secret token lets the webhook
+ * tell events of the cluster apart from other requests, as ONTAP cannot send
+ * custom headers to a `rest_api` destination.
+ */
+function getDestinationUrl(webhookUrl: string, secret: string): string {
+	const url = new URL(webhookUrl);
+	url.searchParams.set('token', secret);
+	return url.toString();
+}
+
+/**
+ * Compare a token with the secret in constant time
+ */
+function isSameSecret(token: string, secret: string): boolean {
+	const tokenBuffer = Buffer.from(token);
+	const secretBuffer = Buffer.from(secret);
+	return tokenBuffer.length === secretBuffer.length && timingSafeEqual(tokenBuffer, secretBuffer);
+}
+
+/**
+ * Whether an ONTAP request failed because the object does not exist
+ */
+function isNotFoundError(error: unknown): boolean {
+	return error instanceof NodeApiError && error.httpCode === '404';
+}
+
+/**
+ * Delete the EMS destination and filter owned by the trigger, ignoring objects that no longer exist.
+ * The destination goes first because ONTAP refuses to delete a filter that is still in use.
+ */
+async function deleteEmsObjects(
+	this: IHookFunctions,
+	destinationName: string | undefined,
+	filterName: string | undefined,
+): Promise<void> {
+	if (destinationName) {
+		try {
+			await ontapApiRequest.call(this, 'DELETE', `/support/ems/destinations/${destinationName}`);
+		} catch (error) {
+			if (!isNotFoundError(error)) {
+				throw error;
+			}
+		}
+	}
+	if (filterName) {
+		try {
+			await ontapApiRequest.call(this, 'DELETE', `/support/ems/filters/${filterName}`);
+		} catch (error) {
+			if (!isNotFoundError(error)) {
+				throw error;
+			}
+		}
+	}
+}
+
+/**
+ * Normalize an incoming ONTAP payload into EMS event items.
+ * ONTAP sends a single event per request, but batches and record collections are accepted too.
+ */
+function parseEmsPayload(payload: unknown): OntapEmsEvent[] {
+	if (Array.isArray(payload)) {
+		return payload.flatMap((entry) => parseEmsPayload(entry));
+	}
+	if (!payload || typeof payload !== 'object') {
+		return [];
+	}
+
+	const data = payload as IDataObject;
+	if (Array.isArray(data.records)) {
+		return parseEmsPayload(data.records);
+	}
+	if (data.event && typeof data.event === 'object') {
+		return parseEmsPayload(data.event);
+	}
+
+	const message = (data.message || {}) as IDataObject;
+	const node = data.node as IDataObject | undefined;
+	const event: OntapEmsEvent = {
+		index: Number(data.index),
+		time: data.time as string,
+		message: {
+			name: (message.name ?? data.message_name ?? data.messageName) as string,
+			severity: (message.severity ?? data.severity) as string,
+		},
+		log_message: (data.log_message ?? data.logMessage) as string | undefined,
+	};
+	if (node) {
+		event.node = {
+			name: node.name as string,
+			uuid: node.uuid as string,
+		};
+	}
+	if (Array.isArray(data.parameters)) {
+		event.parameters = data.parameters as OntapEmsEvent['parameters'];
+	}
+	return [event];
+}
+
+export class NetAppOntapEmsWebhookTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'NetApp ONTAP EMS Webhook Trigger',
+		name: 'netAppOntapEmsWebhookTrigger',
+		icon: 'file:netapp.svg',
+		group: ['trigger'],
+		version: 1,
+		subtitle: '={{"EMS events: " + ($parameter["severities"].length ? $parameter["severities"].join(", ") : "all")}}',
+		description: 'Starts the workflow when the ONTAP cluster pushes an EMS event',
+		defaults: {
+			name: 'ONTAP EMS Webhook Trigger',
+		},
+		inputs: [],
+		outputs: ['main'],
+		credentials: [
+			{
+				name: 'netAppOntapApi',
+				required: true,
+			},
+		],
+		webhooks: [
+			{
+				name: 'default',
+				httpMethod: 'POST',
+				responseMode: 'onReceived',
+				path: 'webhook',
+			},
+		],
+		properties: [
+			// Cluster Connection
+			{
+				displayName: 'Cluster Host',
+				name: 'clusterHost',
+				type: 'string',
+				default: '',
+				placeholder: 'cluster.example.com',
+				description: 'The hostname or IP address of the ONTAP cluster management LIF. Leave empty to use the cluster host from the credential.',
+			},
+			{
+				displayName: 'Port',
+				name: 'clusterPort',
+				type: 'number',
+				default: 443,
+				description: 'HTTPS port for the ONTAP REST API. Only used when Cluster Host is set on the node.',
+			},
+			{
+				displayName: 'The cluster must be able to reach the n8n webhook URL. Use HTTPS with a certificate the cluster trusts.',
+				name: 'notice',
+				type: 'notice',
+				default: '',
+			},
+			{
+				displayName: 'Severities',
+				name: 'severities',
+				type: 'multiOptions',
+				options: [
+					{ name: 'Alert', value: 'alert' },
+					{ name: 'Debug', value: 'debug' },
+					{ name: 'Emergency', value: 'emergency' },
+					{ name: 'Error', value: 'error' },
+					{ name: 'Informational', value: 'informational' },
+					{ name: 'Notice', value: 'notice' },
+				],
+				default: ['emergency', 'alert', 'error'],
+				description: 'Severities the cluster forwards. Leave empty for all.',
+			},
+			{
+				displayName: 'Message Name Pattern',
+				name: 'messageName',
+				type: 'string',
+				default: '*',
+				placeholder: 'wafl.vol.*',
+				description: 'Only forward events whose message name matches this pattern. Supports * wildcards.',
+			},
+		],
+	};
+
+	webhookMethods = {
+		default: {
+			async checkExists(this: IHookFunctions): Promise<boolean> {
+				const webhookUrl = this.getNodeWebhookUrl('default') as string;
+				const name = getEmsObjectName.call(this);
+				const webhookData = this.getWorkflowStaticData('node');
+
+				// Without the secret, events from the destination could not be accepted
+				if (!webhookData.secret) {
+					return false;
+				}
+
+				let destination: IDataObject;
+				let filter: IDataObject;
+				try {
+					destination = await ontapApiRequest.call(
+						this,
+						'GET',
+						`/support/ems/destinations/${name}`,
+						{},
+						{ fields: 'name,type,destination' },
+					) as IDataObject;
+					filter = await ontapApiRequest.call(
+						this,
+						'GET',
+						`/support/ems/filters/${name}`,
+						{},
+						{ fields: 'name,rules' },
+					) as IDataObject;
+				} catch (error) {
+					if (isNotFoundError(error)) {
+						return false;
+					}
+					throw error;
+				}
+
+				// A destination pointing at an old URL is replaced on create
+				if (destination.destination !== getDestinationUrl(webhookUrl, webhookData.secret as string)) {
+					return false;
+				}
+
+				// So is a filter whose rules no longer match the severities and message name pattern.
+				// ONTAP appends a default exclude rule, so only the include rules are compared.
+				const includeRules = ((filter.rules ?? []) as IDataObject[]).filter((rule) => rule.type === 'include');
+				if (
+					includeRules.length !== 1 ||
+					normalizeMessageCriteria(includeRules[0].message_criteria as IDataObject | undefined) !==
+						normalizeMessageCriteria(getMessageCriteria.call(this))
+				) {
+					return false;
+				}
+
+				webhookData.destinationName = name;
+				webhookData.filterName = name;
+				return true;
+			},
+
+			async create(this: IHookFunctions): Promise<boolean> {
+				const webhookUrl = this.getNodeWebhookUrl('default') as string;
+				const name = getEmsObjectName.call(this);
+				const secret = randomBytes(24).toString('hex');
+
+				// Remove leftovers from a previous activation so the names can be reused
+				await deleteEmsObjects.call(this, name, name);
+
+				await ontapApiRequest.call(this, 'POST', '/support/ems/filters', {
+					name,
+					rules: [
+						{
+							index: 1,
+							type: 'include',
+							message_criteria: getMessageCriteria.call(this),
+						},
+					],
+				});
+
+				try {
+					await ontapApiRequest.call(this, 'POST', '/support/ems/destinations', {
+						name,
+						type: 'rest_api',
+						destination: getDestinationUrl(webhookUrl, secret),
+						filters: [{ name }],
+					});
+				} catch (error) {
+					await deleteEmsObjects.call(this, undefined, name);
+					throw error;
+				}
+
+				const webhookData = this.getWorkflowStaticData('node');
+				webhookData.destinationName = name;
+				webhookData.filterName = name;
+				webhookData.secret = secret;
+				return true;
+			},
+
+			async delete(this: IHookFunctions): Promise<boolean> {
+				const webhookData = this.getWorkflowStaticData('node');
+				const name = getEmsObjectName.call(this);
+				const destinationName = (webhookData.destinationName as string | undefined) ?? name;
+				const filterName = (webhookData.filterName as string | undefined) ?? name;
+
+				try {
+					await deleteEmsObjects.call(this, destinationName, filterName);
+				} catch {
+					return false;
+				}
+
+				delete webhookData.destinationName;
+				delete webhookData.filterName;
+				delete webhookData.secret;
+				return true;
+			},
+		},
+	};
+
+	async webhook(this: IWebhookFunctions): Promise<IWebhookResponseData> {
+		// Only the destination created on activation knows the secret token
+		const secret = this.getWorkflowStaticData('node').secret as string | undefined;
+		const token = (this.getQueryData() as IDataObject).token;
+		if (!secret || typeof token !== 'string' || !isSameSecret(token, secret)) {
+			const response = this.getResponseObject();
+			response.status(401).send('Unauthorized').end();
+			return { noWebhookResponse: true };
+		}
+
+		const events = parseEmsPayload(this.getBodyData());
+
+		if (events.length === 0) {
+			return {};
+		}
+
+		return {
+			workflowData: [this.helpers.returnJsonArray(events as unknown as IDataObject[])],
+		};
+	}
+}
@@ -4,15 +4,69 @@ import type {
 	INodeExecutionData,
 	INodeType,
 	INodeTypeDescription,
+	ILoadOptionsFunctions,
+	INodeListSearchResult,
+	INodePropertyOptions,
 } from 'n8n-workflow';
 
 import {
 	ontapApiRequest,
 	ontapApiRequestAllItems,
 	handleAsyncResponse,
+	ensureOntapObject,
+	getJobOptions,
 	cleanObject,
-	parseApiFilters,
+	getFilterQuery,
+	ontapListSearch,
+	getSvmScopeQuery,
+	executeCustomApiCall,
+	getErrorOutput,
+	resolveOntapId,
+	getDryRunOutput,
+	processItems,
+	assertOntapVersion,
+	buildFieldsQuery,
+	getCatalogFieldOptions,
+	assertToolOperationAllowed,
 } from '../shared/GenericFunctions';
+import { customApiCallProperties } from '../shared/CustomApiCallDescription';
+import { fieldsOption } from '../shared/FieldsDescription';
+import { filterConditionsOption, listControlOptions } from '../shared/FilterDescription';
+import { ifExistsProperty } from '../shared/IfExistsDescription';
+import { jobOptionsProperties } from '../shared/JobOptionsDescription';
+import type { OntapIfExists, OntapMinimumVersions, OntapToolOperations } from '../shared/types';
+
+/**
+ * Operations that need a newer ONTAP release than the rest of the node
+ */
+const MINIMUM_ONTAP_VERSIONS: OntapMinimumVersions = {
+	cifsSession: { getMany: '9.8', delete: '9.8' },
+};
+
+/**
+ * Operations that remove or overwrite data or cut access, which an AI agent
+ * may only run when the node allows destructive operations
+ */
+const DESTRUCTIVE_TOOL_OPERATIONS: OntapToolOperations = {
+	cifsShare: ['delete'],
+	cifsService: ['delete'],
+	cifsSession: ['delete'],
+	nfsService: ['delete'],
+	exportPolicy: ['delete'],
+	exportRule: ['delete'],
+};
+
+/**
+ * Field catalog collection of each resource, for the "Fields" option
+ */
+const FIELD_CATALOG_COLLECTIONS: Record<string, string> = {
+	cifsService: '/protocols/cifs/services',
+	cifsShare: '/protocols/cifs/shares',
+	cifsSession: '/protocols/cifs/sessions',
+	exportPolicy: '/protocols/nfs/export-policies',
+	exportRule: '/protocols/nfs/export-policies/{policy.id}/rules',
+	nfsService: '/protocols/nfs/services',
+};
 
 export class NetAppOntapNas implements INodeType {
 	description: INodeTypeDescription = {
@@ -28,6 +82,7 @@ export class NetAppOntapNas implements INodeType {
 		},
 		inputs: ['main'],
 		outputs: ['main'],
+		usableAsTool: true,
 		credentials: [
 			{
 				name: 'netAppOntapApi',
@@ -42,15 +97,39 @@ export class NetAppOntapNas implements INodeType {
 				type: 'string',
 				default: '',
 				placeholder: 'cluster.example.com',
-				description: 'The hostname or IP address of the ONTAP cluster management LIF',
-				required: true,
+				description: 'The hostname or IP address of the ONTAP cluster management LIF. Leave empty to use the cluster host from the credential.',
 			},
 			{
 				displayName: 'Port',
 				name: 'clusterPort',
 				type: 'number',
 				default: 443,
-				description: 'HTTPS port for the ONTAP REST API',
+				description: 'HTTPS port for the ONTAP REST API. Only used when Cluster Host is set on the node.',
+			},
+			{
+				displayName: 'Dry Run',
+				name: 'dryRun',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to return the POST, PATCH and DELETE requests the node would send instead of sending them. GET requests, e.g. to resolve names to UUIDs, are still sent.',
+			},
+			{
+				displayName: 'Concurrency',
+				name: 'concurrency',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+					maxValue: 32,
+				},
+				default: 1,
+				description: 'How many input items to process at the same time, e.g. for bulk provisioning or operations that wait on jobs. Output order and item pairing are kept.',
+			},
+			{
+				displayName: 'Allow Destructive Operations for AI Agents',
+				name: 'allowDestructiveToolOperations',
+				type: 'boolean',
+				default: false,
+				description: 'Whether an AI agent using this node as a tool may run operations that remove or overwrite data or cut access, such as delete. Has no effect in regular workflows.',
 			},
 			// Resource Selection
 			{
@@ -74,6 +153,11 @@ export class NetAppOntapNas implements INodeType {
 						value: 'cifsSession',
 						description: 'View and manage CIFS sessions',
 					},
+					{
+						name: 'Custom API Call',
+						value: 'customApiCall',
+						description: 'Call any ONTAP REST API endpoint',
+					},
 					{
 						name: 'NFS Service',
 						value: 'nfsService',
@@ -146,7 +230,7 @@ export class NetAppOntapNas implements INodeType {
 				displayName: 'SVM',
 				name: 'shareSvm',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -154,18 +238,29 @@ export class NetAppOntapNas implements INodeType {
 						operation: ['get', 'update', 'delete'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchSvmNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 					},
 				],
+				description: 'SVM the CIFS share belongs to, by name',
 			},
 			{
 				displayName: 'Share Name',
 				name: 'shareName',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -173,12 +268,23 @@ export class NetAppOntapNas implements INodeType {
 						operation: ['get', 'update', 'delete'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchCifsShares',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 					},
 				],
+				description: 'Name of the CIFS share',
 			},
 
 			// CIFS Share Create Fields
@@ -194,12 +300,13 @@ export class NetAppOntapNas implements INodeType {
 						operation: ['create'],
 					},
 				},
+				description: 'Name clients use to connect to the share',
 			},
 			{
 				displayName: 'SVM',
 				name: 'newShareSvm',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -207,12 +314,23 @@ export class NetAppOntapNas implements INodeType {
 						operation: ['create'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchSvmNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 					},
 				],
+				description: 'SVM that will own the new share',
 			},
 			{
 				displayName: 'Path',
@@ -249,6 +367,7 @@ export class NetAppOntapNas implements INodeType {
 						name: 'comment',
 						type: 'string',
 						default: '',
+						description: 'Comment shown to clients that browse the share',
 					},
 					{
 						displayName: 'Continuously Available',
@@ -262,12 +381,14 @@ export class NetAppOntapNas implements INodeType {
 						name: 'encryptionRequired',
 						type: 'boolean',
 						default: false,
+						description: 'Whether clients must use SMB encryption to access the share',
 					},
 					{
 						displayName: 'Namespace Caching',
 						name: 'namespaceCaching',
 						type: 'boolean',
 						default: false,
+						description: 'Whether clients may cache the directory listings of the share',
 					},
 					{
 						displayName: 'Offline Files',
@@ -280,12 +401,14 @@ export class NetAppOntapNas implements INodeType {
 							{ name: 'Programs', value: 'programs' },
 						],
 						default: 'manual',
+						description: 'Which files clients may cache for offline use',
 					},
 					{
 						displayName: 'Oplocks',
 						name: 'oplocks',
 						type: 'boolean',
 						default: true,
+						description: 'Whether clients may use opportunistic locks to cache file data',
 					},
 					{
 						displayName: 'Unix Symlink',
@@ -300,6 +423,7 @@ export class NetAppOntapNas implements INodeType {
 							{ name: 'Symlinks and Widelinks', value: 'symlinks_and_widelinks' },
 						],
 						default: 'local',
+						description: 'How UNIX symbolic links are presented to SMB clients',
 					},
 				],
 			},
@@ -323,24 +447,28 @@ export class NetAppOntapNas implements INodeType {
 						name: 'comment',
 						type: 'string',
 						default: '',
+						description: 'New comment shown to clients that browse the share',
 					},
 					{
 						displayName: 'Continuously Available',
 						name: 'continuouslyAvailable',
 						type: 'boolean',
 						default: false,
+						description: 'Whether clients keep their open files across a failover',
 					},
 					{
 						displayName: 'Encryption Required',
 						name: 'encryptionRequired',
 						type: 'boolean',
 						default: false,
+						description: 'Whether clients must use SMB encryption to access the share',
 					},
 					{
 						displayName: 'Oplocks',
 						name: 'oplocks',
 						type: 'boolean',
 						default: true,
+						description: 'Whether clients may use opportunistic locks to cache file data',
 					},
 				],
 			},
@@ -398,7 +526,7 @@ export class NetAppOntapNas implements INodeType {
 				displayName: 'SVM',
 				name: 'cifsSvm',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -406,12 +534,23 @@ export class NetAppOntapNas implements INodeType {
 						operation: ['create', 'get', 'delete', 'update'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchSvmNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 					},
 				],
+				description: 'SVM whose CIFS server to use, by name',
 			},
 
 			// CIFS Service Create Fields
@@ -471,6 +610,7 @@ export class NetAppOntapNas implements INodeType {
 						operation: ['create'],
 					},
 				},
+				description: 'Password of the Active Directory account used to join the domain',
 			},
 
 			// CIFS Service Create Options
@@ -492,12 +632,14 @@ export class NetAppOntapNas implements INodeType {
 						name: 'comment',
 						type: 'string',
 						default: '',
+						description: 'Comment stored with the CIFS server',
 					},
 					{
 						displayName: 'Default Unix User',
 						name: 'defaultUnixUser',
 						type: 'string',
 						default: '',
+						description: 'UNIX user that Windows users without a mapping are mapped to',
 					},
 					{
 						displayName: 'Organizational Unit',
@@ -505,6 +647,7 @@ export class NetAppOntapNas implements INodeType {
 						type: 'string',
 						default: '',
 						placeholder: 'OU=Servers,DC=example,DC=com',
+						description: 'Organizational unit the computer account of the CIFS server is created in',
 					},
 				],
 			},
@@ -528,18 +671,21 @@ export class NetAppOntapNas implements INodeType {
 						name: 'comment',
 						type: 'string',
 						default: '',
+						description: 'New comment for the CIFS server',
 					},
 					{
 						displayName: 'Default Unix User',
 						name: 'defaultUnixUser',
 						type: 'string',
 						default: '',
+						description: 'UNIX user that Windows users without a mapping are mapped to',
 					},
 					{
 						displayName: 'Enabled',
 						name: 'enabled',
 						type: 'boolean',
 						default: true,
+						description: 'Whether the CIFS server is administratively up',
 					},
 				],
 			},
@@ -579,7 +725,7 @@ export class NetAppOntapNas implements INodeType {
 				displayName: 'SVM',
 				name: 'sessionSvm',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -587,12 +733,23 @@ export class NetAppOntapNas implements INodeType {
 						operation: ['delete'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchSvmNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 					},
 				],
+				description: 'SVM the session is connected to',
 			},
 			{
 				displayName: 'Session ID',
@@ -606,6 +763,7 @@ export class NetAppOntapNas implements INodeType {
 						operation: ['delete'],
 					},
 				},
+				description: 'Identifier of the session, as returned by Get Many',
 			},
 			{
 				displayName: 'Connection ID',
@@ -619,6 +777,7 @@ export class NetAppOntapNas implements INodeType {
 						operation: ['delete'],
 					},
 				},
+				description: 'Identifier of the connection the session belongs to, as returned by Get Many',
 			},
 
 			// ===================
@@ -674,7 +833,7 @@ export class NetAppOntapNas implements INodeType {
 				displayName: 'SVM',
 				name: 'nfsSvm',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -682,12 +841,23 @@ export class NetAppOntapNas implements INodeType {
 						operation: ['create', 'get', 'delete', 'update'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchSvmNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 					},
 				],
+				description: 'SVM whose NFS service to use, by name',
 			},
 
 			// NFS Service Create Options
@@ -709,30 +879,35 @@ export class NetAppOntapNas implements INodeType {
 						name: 'nfsv3Enabled',
 						type: 'boolean',
 						default: true,
+						description: 'Whether clients may use NFSv3',
 					},
 					{
 						displayName: 'NFSv4 Enabled',
 						name: 'nfsv4Enabled',
 						type: 'boolean',
 						default: true,
+						description: 'Whether clients may use NFSv4.0',
 					},
 					{
 						displayName: 'NFSv4.1 Enabled',
 						name: 'nfsv41Enabled',
 						type: 'boolean',
 						default: true,
+						description: 'Whether clients may use NFSv4.1',
 					},
 					{
 						displayName: 'Showmount Enabled',
 						name: 'showmountEnabled',
 						type: 'boolean',
 						default: true,
+						description: 'Whether clients may list the exports with showmount',
 					},
 					{
 						displayName: 'VStorage Enabled',
 						name: 'vstorageEnabled',
 						type: 'boolean',
 						default: false,
+						description: 'Whether VMware vStorage offload is enabled',
 					},
 				],
 			},
@@ -756,30 +931,35 @@ export class NetAppOntapNas implements INodeType {
 						name: 'enabled',
 						type: 'boolean',
 						default: true,
+						description: 'Whether the NFS server is administratively up',
 					},
 					{
 						displayName: 'NFSv3 Enabled',
 						name: 'nfsv3Enabled',
 						type: 'boolean',
 						default: true,
+						description: 'Whether clients may use NFSv3',
 					},
 					{
 						displayName: 'NFSv4 Enabled',
 						name: 'nfsv4Enabled',
 						type: 'boolean',
 						default: true,
+						description: 'Whether clients may use NFSv4.0',
 					},
 					{
 						displayName: 'NFSv4.1 Enabled',
 						name: 'nfsv41Enabled',
 						type: 'boolean',
 						default: true,
+						description: 'Whether clients may use NFSv4.1',
 					},
 					{
 						displayName: 'Showmount Enabled',
 						name: 'showmountEnabled',
 						type: 'boolean',
 						default: true,
+						description: 'Whether clients may list the exports with showmount',
 					},
 				],
 			},
@@ -837,7 +1017,7 @@ export class NetAppOntapNas implements INodeType {
 				displayName: 'Export Policy',
 				name: 'exportPolicyId',
 				type: 'resourceLocator',
-				default: { mode: 'id', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -845,12 +1025,23 @@ export class NetAppOntapNas implements INodeType {
 						operation: ['get', 'update', 'delete'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchExportPolicies',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By ID',
 						name: 'id',
 						type: 'string',
 					},
 				],
+				description: 'Export policy to use, by its numeric ID',
 			},
 
 			// Export Policy Create
@@ -866,12 +1057,13 @@ export class NetAppOntapNas implements INodeType {
 						operation: ['create'],
 					},
 				},
+				description: 'Name of the new export policy',
 			},
 			{
 				displayName: 'SVM',
 				name: 'exportPolicySvm',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -879,12 +1071,23 @@ export class NetAppOntapNas implements INodeType {
 						operation: ['create'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchSvmNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 					},
 				],
+				description: 'SVM that will own the new export policy',
 			},
 
 			// Export Policy Update
@@ -900,6 +1103,7 @@ export class NetAppOntapNas implements INodeType {
 						operation: ['update'],
 					},
 				},
+				description: 'New name for the export policy',
 			},
 
 			// ===================
@@ -955,19 +1159,30 @@ export class NetAppOntapNas implements INodeType {
 				displayName: 'Export Policy',
 				name: 'ruleExportPolicy',
 				type: 'resourceLocator',
-				default: { mode: 'id', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
 						resource: ['exportRule'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchExportPolicies',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By ID',
 						name: 'id',
 						type: 'string',
 					},
 				],
+				description: 'Export policy that holds the rules',
 			},
 
 			// Export Rule Index
@@ -983,6 +1198,7 @@ export class NetAppOntapNas implements INodeType {
 						operation: ['get', 'update', 'delete'],
 					},
 				},
+				description: 'Index of the rule within the export policy, starting at 1',
 			},
 
 			// Export Rule Create Fields
@@ -1084,6 +1300,7 @@ export class NetAppOntapNas implements INodeType {
 							{ name: 'NFS4', value: 'nfs4' },
 						],
 						default: ['any'],
+						description: 'Protocols the rule applies to',
 					},
 					{
 						displayName: 'Rule Index',
@@ -1106,6 +1323,7 @@ export class NetAppOntapNas implements INodeType {
 							{ name: 'Sys', value: 'sys' },
 						],
 						default: ['sys'],
+						description: 'Security flavors that give root access to a matching client',
 					},
 				],
 			},
@@ -1129,12 +1347,14 @@ export class NetAppOntapNas implements INodeType {
 						name: 'anonymousUser',
 						type: 'string',
 						default: '',
+						description: 'UNIX user ID or name that anonymous requests are mapped to',
 					},
 					{
 						displayName: 'Clients',
 						name: 'clients',
 						type: 'string',
 						default: '',
+						description: 'Comma-separated client match specifications (IP, subnet, or hostname)',
 					},
 					{
 						displayName: 'Protocols',
@@ -1149,6 +1369,7 @@ export class NetAppOntapNas implements INodeType {
 							{ name: 'NFS4', value: 'nfs4' },
 						],
 						default: [],
+						description: 'Protocols the rule applies to',
 					},
 					{
 						displayName: 'RO Rule',
@@ -1165,6 +1386,7 @@ export class NetAppOntapNas implements INodeType {
 							{ name: 'Sys', value: 'sys' },
 						],
 						default: [],
+						description: 'Security flavors that give read-only access to a matching client',
 					},
 					{
 						displayName: 'RW Rule',
@@ -1181,6 +1403,7 @@ export class NetAppOntapNas implements INodeType {
 							{ name: 'Sys', value: 'sys' },
 						],
 						default: [],
+						description: 'Security flavors that give read-write access to a matching client',
 					},
 					{
 						displayName: 'Superuser',
@@ -1196,10 +1419,33 @@ export class NetAppOntapNas implements INodeType {
 							{ name: 'Sys', value: 'sys' },
 						],
 						default: [],
+						description: 'Security flavors that give root access to a matching client',
 					},
 				],
 			},
 
+			// ===================
+			// IF EXISTS
+			// ===================
+			ifExistsProperty(['cifsShare', 'exportPolicy']),
+
+			// ===================
+			// JOB OPTIONS
+			// ===================
+			...jobOptionsProperties({
+				cifsShare: ['create', 'update', 'delete'],
+				cifsService: ['create', 'update', 'delete'],
+				cifsSession: ['delete'],
+				nfsService: ['create', 'update', 'delete'],
+				exportPolicy: ['create', 'update', 'delete'],
+				exportRule: ['create', 'update', 'delete'],
+			}),
+
+			// ===================
+			// CUSTOM API CALL
+			// ===================
+			...customApiCallProperties,
+
 			// Common Filters
 			{
 				displayName: 'Filters',
@@ -1219,8 +1465,9 @@ export class NetAppOntapNas implements INodeType {
 						type: 'string',
 						default: '',
 						placeholder: 'type=rw,state=!offline',
-						description: 'ONTAP API filter expression. Format: field=value,field2=value2. Supports operators: =, !=, <, >, <=, >=, *, |',
+						description: 'ONTAP API filter expression. Format: field=value,field2=value2. Supports operators: =, !=, <, >, <=, >=, *, |. Quote a value to keep a comma followed by field= in it.',
 					},
+					filterConditionsOption,
 					{
 						displayName: 'Return All',
 						name: 'returnAll',
@@ -1243,6 +1490,7 @@ export class NetAppOntapNas implements INodeType {
 							},
 						},
 					},
+					...listControlOptions,
 				],
 			},
 
@@ -1254,41 +1502,68 @@ export class NetAppOntapNas implements INodeType {
 				placeholder: 'Add Option',
 				default: {},
 				options: [
-					{
-						displayName: 'Fields',
-						name: 'fields',
-						type: 'string',
-						default: '',
-						description: 'Comma-separated list of fields to include (use * for all)',
-					},
+					fieldsOption,
 				],
 			},
 		],
 	};
 
-	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
-		const items = this.getInputData();
-		const returnData: INodeExecutionData[] = [];
+	methods = {
+		loadOptions: {
+			async getFields(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				return getCatalogFieldOptions.call(this, FIELD_CATALOG_COLLECTIONS);
+			},
+		},
+		listSearch: {
+			async searchCifsShares(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/protocols/cifs/shares', filter, paginationToken, {
+					valueField: 'name',
+					showSvm: true,
+					query: getSvmScopeQuery.call(this, 'shareSvm'),
+				});
+			},
+			async searchExportPolicies(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/protocols/nfs/export-policies', filter, paginationToken, {
+					valueField: 'id',
+					showSvm: true,
+					query: getSvmScopeQuery.call(this, 'exportPolicySvm'),
+				});
+			},
+			async searchSvmNames(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/svm/svms', filter, paginationToken, { valueField: 'name' });
+			},
+		},
+	};
 
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const resource = this.getNodeParameter('resource', 0) as string;
 		const operation = this.getNodeParameter('operation', 0) as string;
-
-		for (let i = 0; i < items.length; i++) {
+		const returnData = await processItems.call(this, async (i) => {
 			try {
+				assertToolOperationAllowed.call(this, DESTRUCTIVE_TOOL_OPERATIONS, i);
+				await assertOntapVersion.call(this, MINIMUM_ONTAP_VERSIONS, resource, operation, i);
 				let responseData: IDataObject | IDataObject[] = {};
 				const options = this.getNodeParameter('options', i, {}) as IDataObject;
 				const qs: IDataObject = {};
+				const jobOptions = getJobOptions.call(this, i);
 
-				if (options.fields) {
-					qs.fields = options.fields;
-				}
+				Object.assign(qs, buildFieldsQuery(options.fields as string | string[] | undefined));
 
 				// Helper to get SVM UUID
-				const getSvmUuid = async (svmName: string): Promise<string> => {
-					const svms = await ontapApiRequestAllItems.call(this, 'GET', '/svm/svms', {}, { name: svmName });
-					if (svms.length === 0) throw new Error(`SVM "${svmName}" not found`);
-					return svms[0].uuid as string;
-				};
+				const getSvmUuid = async (svmName: string): Promise<string> =>
+					await resolveOntapId.call(this, '/svm/svms', svmName, 'SVM', i);
 
 				// ========== CIFS SHARE ==========
 				if (resource === 'cifsShare') {
@@ -1296,9 +1571,7 @@ export class NetAppOntapNas implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 						
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 						
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -1332,8 +1605,13 @@ export class NetAppOntapNas implements INodeType {
 						if (createOptions.oplocks !== undefined) body.oplocks = createOptions.oplocks;
 						if (createOptions.unixSymlink) body.unix_symlink = createOptions.unixSymlink;
 
-						const response = await ontapApiRequest.call(this, 'POST', '/protocols/cifs/shares', body);
-						responseData = await handleAsyncResponse.call(this, response);
+						const ifExists = this.getNodeParameter('ifExists', i, 'error') as OntapIfExists;
+						responseData = await ensureOntapObject.call(this, ifExists, {
+							endpoint: '/protocols/cifs/shares',
+							keyFields: ['name', 'svm.name'],
+							idFields: ['svm.uuid'],
+							getPath: (share) => `${(share.svm as IDataObject).uuid}/${encodeURIComponent(share.name as string)}`,
+						}, body, jobOptions, i);
 					} else if (operation === 'update') {
 						const svmLocator = this.getNodeParameter('shareSvm', i) as { mode: string; value: string };
 						const shareLocator = this.getNodeParameter('shareName', i) as { mode: string; value: string };
@@ -1347,14 +1625,14 @@ export class NetAppOntapNas implements INodeType {
 						if (updateFields.oplocks !== undefined) body.oplocks = updateFields.oplocks;
 
 						const response = await ontapApiRequest.call(this, 'PATCH', `/protocols/cifs/shares/${svmUuid}/${encodeURIComponent(shareLocator.value)}`, cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'delete') {
 						const svmLocator = this.getNodeParameter('shareSvm', i) as { mode: string; value: string };
 						const shareLocator = this.getNodeParameter('shareName', i) as { mode: string; value: string };
 						const svmUuid = await getSvmUuid(svmLocator.value);
 
 						const response = await ontapApiRequest.call(this, 'DELETE', `/protocols/cifs/shares/${svmUuid}/${encodeURIComponent(shareLocator.value)}`);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 						if (!responseData.job) {
 							responseData = { success: true, deleted: shareLocator.value };
 						}
@@ -1367,9 +1645,7 @@ export class NetAppOntapNas implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 						
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 						
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -1405,7 +1681,7 @@ export class NetAppOntapNas implements INodeType {
 						if (createOptions.ou) (body.ad_domain as IDataObject).organizational_unit = createOptions.ou;
 
 						const response = await ontapApiRequest.call(this, 'POST', '/protocols/cifs/services', body);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'update') {
 						const svmLocator = this.getNodeParameter('cifsSvm', i) as { mode: string; value: string };
 						const updateFields = this.getNodeParameter('cifsUpdateFields', i) as IDataObject;
@@ -1417,13 +1693,13 @@ export class NetAppOntapNas implements INodeType {
 						if (updateFields.enabled !== undefined) body.enabled = updateFields.enabled;
 
 						const response = await ontapApiRequest.call(this, 'PATCH', `/protocols/cifs/services/${svmUuid}`, cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'delete') {
 						const svmLocator = this.getNodeParameter('cifsSvm', i) as { mode: string; value: string };
 						const svmUuid = await getSvmUuid(svmLocator.value);
 
 						const response = await ontapApiRequest.call(this, 'DELETE', `/protocols/cifs/services/${svmUuid}`);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 						if (!responseData.job) {
 							responseData = { success: true, deleted: svmLocator.value };
 						}
@@ -1436,9 +1712,7 @@ export class NetAppOntapNas implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 						
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 						
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -1454,7 +1728,7 @@ export class NetAppOntapNas implements INodeType {
 						const svmUuid = await getSvmUuid(svmLocator.value);
 
 						const response = await ontapApiRequest.call(this, 'DELETE', `/protocols/cifs/sessions/${svmUuid}/${sessionId}/${connectionId}`);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 						if (!responseData.job) {
 							responseData = { success: true, deleted: `${sessionId}/${connectionId}` };
 						}
@@ -1467,9 +1741,7 @@ export class NetAppOntapNas implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 						
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 						
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -1501,7 +1773,7 @@ export class NetAppOntapNas implements INodeType {
 						if (createOptions.vstorageEnabled !== undefined) body.vstorage_enabled = createOptions.vstorageEnabled;
 
 						const response = await ontapApiRequest.call(this, 'POST', '/protocols/nfs/services', body);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'update') {
 						const svmLocator = this.getNodeParameter('nfsSvm', i) as { mode: string; value: string };
 						const updateFields = this.getNodeParameter('nfsUpdateFields', i) as IDataObject;
@@ -1518,13 +1790,13 @@ export class NetAppOntapNas implements INodeType {
 						if (Object.keys(protocol).length > 0) body.protocol = protocol;
 
 						const response = await ontapApiRequest.call(this, 'PATCH', `/protocols/nfs/services/${svmUuid}`, cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'delete') {
 						const svmLocator = this.getNodeParameter('nfsSvm', i) as { mode: string; value: string };
 						const svmUuid = await getSvmUuid(svmLocator.value);
 
 						const response = await ontapApiRequest.call(this, 'DELETE', `/protocols/nfs/services/${svmUuid}`);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 						if (!responseData.job) {
 							responseData = { success: true, deleted: svmLocator.value };
 						}
@@ -1537,9 +1809,7 @@ export class NetAppOntapNas implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 						
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 						
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -1560,8 +1830,13 @@ export class NetAppOntapNas implements INodeType {
 							svm: { name: svmLocator.value },
 						};
 
-						const response = await ontapApiRequest.call(this, 'POST', '/protocols/nfs/export-policies', body);
-						responseData = await handleAsyncResponse.call(this, response);
+						const ifExists = this.getNodeParameter('ifExists', i, 'error') as OntapIfExists;
+						responseData = await ensureOntapObject.call(this, ifExists, {
+							endpoint: '/protocols/nfs/export-policies',
+							keyFields: ['name', 'svm.name'],
+							idFields: ['id'],
+							getPath: (policy) => String(policy.id),
+						}, body, jobOptions, i);
 					} else if (operation === 'update') {
 						const policyLocator = this.getNodeParameter('exportPolicyId', i) as { mode: string; value: string };
 						const newName = this.getNodeParameter('exportPolicyNewName', i) as string;
@@ -1569,12 +1844,12 @@ export class NetAppOntapNas implements INodeType {
 						const response = await ontapApiRequest.call(this, 'PATCH', `/protocols/nfs/export-policies/${policyLocator.value}`, {
 							name: newName,
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'delete') {
 						const policyLocator = this.getNodeParameter('exportPolicyId', i) as { mode: string; value: string };
 
 						const response = await ontapApiRequest.call(this, 'DELETE', `/protocols/nfs/export-policies/${policyLocator.value}`);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 						if (!responseData.job) {
 							responseData = { success: true, deleted: policyLocator.value };
 						}
@@ -1589,9 +1864,7 @@ export class NetAppOntapNas implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 						
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 						
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -1627,7 +1900,7 @@ export class NetAppOntapNas implements INodeType {
 						}
 
 						const response = await ontapApiRequest.call(this, 'POST', `/protocols/nfs/export-policies/${policyLocator.value}/rules`, body);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'update') {
 						const ruleIndex = this.getNodeParameter('ruleIndex', i) as number;
 						const updateFields = this.getNodeParameter('ruleUpdateFields', i) as IDataObject;
@@ -1651,31 +1924,37 @@ export class NetAppOntapNas implements INodeType {
 						}
 
 						const response = await ontapApiRequest.call(this, 'PATCH', `/protocols/nfs/export-policies/${policyLocator.value}/rules/${ruleIndex}`, cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'delete') {
 						const ruleIndex = this.getNodeParameter('ruleIndex', i) as number;
 
 						const response = await ontapApiRequest.call(this, 'DELETE', `/protocols/nfs/export-policies/${policyLocator.value}/rules/${ruleIndex}`);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 						if (!responseData.job) {
 							responseData = { success: true, deleted: ruleIndex };
 						}
 					}
 				}
 
+				// ========== CUSTOM API CALL ==========
+				else if (resource === 'customApiCall') {
+					responseData = await executeCustomApiCall.call(this, i, qs);
+				}
+
+				responseData = getDryRunOutput.call(this, responseData);
+
 				const executionData = this.helpers.constructExecutionMetaData(
 					this.helpers.returnJsonArray(responseData as IDataObject[]),
 					{ itemData: { item: i } },
 				);
-				returnData.push(...executionData);
+				return executionData;
 			} catch (error) {
 				if (this.continueOnFail()) {
-					returnData.push({ json: { error: (error as Error).message }, pairedItem: { item: i } });
-					continue;
+					return [{ json: getErrorOutput(error as Error), pairedItem: { item: i } }];
 				}
 				throw error;
 			}
-		}
+		});
 
 		return [returnData];
 	}
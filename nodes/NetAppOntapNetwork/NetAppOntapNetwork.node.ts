@@ -4,15 +4,69 @@ import type {
 	INodeExecutionData,
 	INodeType,
 	INodeTypeDescription,
+	ILoadOptionsFunctions,
+	INodeListSearchResult,
+	INodePropertyOptions,
 } from 'n8n-workflow';
 
 import {
 	ontapApiRequest,
 	ontapApiRequestAllItems,
 	handleAsyncResponse,
+	ensureOntapObject,
+	getJobOptions,
 	cleanObject,
-	parseApiFilters,
+	getFilterQuery,
+	ontapListSearch,
+	getSvmScopeQuery,
+	executeCustomApiCall,
+	getErrorOutput,
+	resolveOntapId,
+	invalidateOntapIds,
+	getDryRunOutput,
+	processItems,
+	buildFieldsQuery,
+	getCatalogFieldOptions,
+	assertOntapVersion,
+	assertToolOperationAllowed,
 } from '../shared/GenericFunctions';
+import { customApiCallProperties } from '../shared/CustomApiCallDescription';
+import { fieldsOption } from '../shared/FieldsDescription';
+import { filterConditionsOption, listControlOptions } from '../shared/FilterDescription';
+import { ifExistsProperty } from '../shared/IfExistsDescription';
+import { jobOptionsProperties } from '../shared/JobOptionsDescription';
+import type { OntapIfExists, OntapMinimumVersions, OntapToolOperations } from '../shared/types';
+
+/**
+ * Operations that need a newer ONTAP release than the rest of the node
+ */
+const MINIMUM_ONTAP_VERSIONS: OntapMinimumVersions = {
+	broadcastDomain: { create: '9.8', update: '9.8', delete: '9.8', addPorts: '9.8', removePorts: '9.8' },
+	port: { update: '9.8' },
+};
+
+/**
+ * Operations that remove or overwrite data or cut access, which an AI agent
+ * may only run when the node allows destructive operations
+ */
+const DESTRUCTIVE_TOOL_OPERATIONS: OntapToolOperations = {
+	ipInterface: ['delete', 'migrate', 'revert'],
+	port: ['update'],
+	broadcastDomain: ['delete', 'removePorts'],
+	ipspace: ['delete'],
+	route: ['delete'],
+};
+
+/**
+ * Field catalog collection of each resource, for the "Fields" option
+ */
+const FIELD_CATALOG_COLLECTIONS: Record<string, string> = {
+	broadcastDomain: '/network/ethernet/broadcast-domains',
+	ipInterface: '/network/ip/interfaces',
+	ipspace: '/network/ipspaces',
+	port: '/network/ethernet/ports',
+	route: '/network/ip/routes',
+};
 
 export class NetAppOntapNetwork implements INodeType {
 	description: INodeTypeDescription = {
@@ -28,6 +82,7 @@ export class NetAppOntapNetwork implements INodeType {
 		},
 		inputs: ['main'],
 		outputs: ['main'],
+		usableAsTool: true,
 		credentials: [
 			{
 				name: 'netAppOntapApi',
@@ -42,15 +97,39 @@ export class NetAppOntapNetwork implements INodeType {
 				type: 'string',
 				default: '',
 				placeholder: 'cluster.example.com',
-				description: 'The hostname or IP address of the ONTAP cluster management LIF',
-				required: true,
+				description: 'The hostname or IP address of the ONTAP cluster management LIF. Leave empty to use the cluster host from the credential.',
 			},
 			{
 				displayName: 'Port',
 				name: 'clusterPort',
 				type: 'number',
 				default: 443,
-				description: 'HTTPS port for the ONTAP REST API',
+				description: 'HTTPS port for the ONTAP REST API. Only used when Cluster Host is set on the node.',
+			},
+			{
+				displayName: 'Dry Run',
+				name: 'dryRun',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to return the POST, PATCH and DELETE requests the node would send instead of sending them. GET requests, e.g. to resolve names to UUIDs, are still sent.',
+			},
+			{
+				displayName: 'Concurrency',
+				name: 'concurrency',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+					maxValue: 32,
+				},
+				default: 1,
+				description: 'How many input items to process at the same time, e.g. for bulk provisioning or operations that wait on jobs. Output order and item pairing are kept.',
+			},
+			{
+				displayName: 'Allow Destructive Operations for AI Agents',
+				name: 'allowDestructiveToolOperations',
+				type: 'boolean',
+				default: false,
+				description: 'Whether an AI agent using this node as a tool may run operations that remove or overwrite data or cut access, such as delete, migrate, port updates and removing ports. Has no effect in regular workflows.',
 			},
 			// Resource Selection
 			{
@@ -64,6 +143,11 @@ export class NetAppOntapNetwork implements INodeType {
 						value: 'broadcastDomain',
 						description: 'Manage broadcast domains',
 					},
+					{
+						name: 'Custom API Call',
+						value: 'customApiCall',
+						description: 'Call any ONTAP REST API endpoint',
+					},
 					{
 						name: 'IP Interface',
 						value: 'ipInterface',
@@ -153,7 +237,7 @@ export class NetAppOntapNetwork implements INodeType {
 				displayName: 'IP Interface',
 				name: 'ipInterfaceId',
 				type: 'resourceLocator',
-				default: { mode: 'uuid', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -161,7 +245,17 @@ export class NetAppOntapNetwork implements INodeType {
 						operation: ['get', 'update', 'delete', 'migrate', 'revert'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchIpInterfaces',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By UUID',
 						name: 'uuid',
 						type: 'string',
@@ -172,6 +266,7 @@ export class NetAppOntapNetwork implements INodeType {
 						type: 'string',
 					},
 				],
+				description: 'IP interface (LIF) to use, by UUID or by name',
 			},
 
 			// IP Interface Create Fields
@@ -193,7 +288,7 @@ export class NetAppOntapNetwork implements INodeType {
 				displayName: 'SVM',
 				name: 'ipInterfaceSvm',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -201,12 +296,23 @@ export class NetAppOntapNetwork implements INodeType {
 						operation: ['create'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchSvmNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 					},
 				],
+				description: 'SVM that will own the new interface',
 			},
 			{
 				displayName: 'IP Address',
@@ -221,6 +327,7 @@ export class NetAppOntapNetwork implements INodeType {
 					},
 				},
 				placeholder: '192.168.1.100',
+				description: 'IPv4 or IPv6 address of the new interface',
 			},
 			{
 				displayName: 'Netmask',
@@ -240,7 +347,7 @@ export class NetAppOntapNetwork implements INodeType {
 				displayName: 'Home Node',
 				name: 'homeNode',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -248,12 +355,23 @@ export class NetAppOntapNetwork implements INodeType {
 						operation: ['create'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchNodeNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 					},
 				],
+				description: 'Node the interface lives on when it is at home',
 			},
 			{
 				displayName: 'Home Port',
@@ -319,6 +437,7 @@ export class NetAppOntapNetwork implements INodeType {
 							{ name: 'Broadcast Domain Wide', value: 'broadcast_domain_wide' },
 						],
 						default: 'system_defined',
+						description: 'Which ports the interface may fail over to when its current port goes down',
 					},
 					{
 						displayName: 'DNS Zone',
@@ -342,7 +461,7 @@ export class NetAppOntapNetwork implements INodeType {
 				displayName: 'Destination Node',
 				name: 'destNode',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -350,12 +469,23 @@ export class NetAppOntapNetwork implements INodeType {
 						operation: ['migrate'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchNodeNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 					},
 				],
+				description: 'Node the interface is moved to',
 			},
 			{
 				displayName: 'Destination Port',
@@ -370,6 +500,7 @@ export class NetAppOntapNetwork implements INodeType {
 					},
 				},
 				placeholder: 'e0b',
+				description: 'Port on the destination node the interface is moved to',
 			},
 
 			// IP Interface Update Fields
@@ -391,12 +522,14 @@ export class NetAppOntapNetwork implements INodeType {
 						name: 'enabled',
 						type: 'boolean',
 						default: true,
+						description: 'Whether the interface is administratively up',
 					},
 					{
 						displayName: 'Auto Revert',
 						name: 'autoRevert',
 						type: 'boolean',
 						default: true,
+						description: 'Whether the interface moves back to its home port once that port is healthy again',
 					},
 					{
 						displayName: 'Failover Policy',
@@ -410,12 +543,14 @@ export class NetAppOntapNetwork implements INodeType {
 							{ name: 'Broadcast Domain Wide', value: 'broadcast_domain_wide' },
 						],
 						default: 'system_defined',
+						description: 'Which ports the interface may fail over to when its current port goes down',
 					},
 					{
 						displayName: 'Service Policy',
 						name: 'servicePolicy',
 						type: 'string',
 						default: '',
+						description: 'Name of the service policy that decides which services the interface offers',
 					},
 				],
 			},
@@ -461,7 +596,7 @@ export class NetAppOntapNetwork implements INodeType {
 				displayName: 'Port',
 				name: 'portId',
 				type: 'resourceLocator',
-				default: { mode: 'uuid', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -469,12 +604,23 @@ export class NetAppOntapNetwork implements INodeType {
 						operation: ['get', 'update'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchPorts',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By UUID',
 						name: 'uuid',
 						type: 'string',
 					},
 				],
+				description: 'Ethernet port to use, by UUID',
 			},
 
 			// Port Update Fields
@@ -496,6 +642,7 @@ export class NetAppOntapNetwork implements INodeType {
 						name: 'enabled',
 						type: 'boolean',
 						default: true,
+						description: 'Whether the port is administratively up',
 					},
 					{
 						displayName: 'Speed',
@@ -512,12 +659,14 @@ export class NetAppOntapNetwork implements INodeType {
 							{ name: '100 GB', value: '100000' },
 						],
 						default: 'auto',
+						description: 'Administrative speed of the port in Mb/s, or auto to negotiate it',
 					},
 					{
 						displayName: 'MTU',
 						name: 'mtu',
 						type: 'number',
 						default: 1500,
+						description: 'Maximum transmission unit of the port in bytes',
 					},
 					{
 						displayName: 'Flow Control',
@@ -530,6 +679,7 @@ export class NetAppOntapNetwork implements INodeType {
 							{ name: 'Full', value: 'full' },
 						],
 						default: 'full',
+						description: 'Ethernet flow control the port uses',
 					},
 				],
 			},
@@ -599,7 +749,7 @@ export class NetAppOntapNetwork implements INodeType {
 				displayName: 'Broadcast Domain',
 				name: 'broadcastDomainId',
 				type: 'resourceLocator',
-				default: { mode: 'uuid', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -607,7 +757,17 @@ export class NetAppOntapNetwork implements INodeType {
 						operation: ['get', 'update', 'delete', 'addPorts', 'removePorts'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchBroadcastDomains',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By UUID',
 						name: 'uuid',
 						type: 'string',
@@ -618,6 +778,7 @@ export class NetAppOntapNetwork implements INodeType {
 						type: 'string',
 					},
 				],
+				description: 'Broadcast domain to use, by UUID or by name',
 			},
 
 			// Broadcast Domain Create Fields
@@ -633,6 +794,7 @@ export class NetAppOntapNetwork implements INodeType {
 						operation: ['create'],
 					},
 				},
+				description: 'Name of the new broadcast domain',
 			},
 			{
 				displayName: 'MTU',
@@ -646,6 +808,7 @@ export class NetAppOntapNetwork implements INodeType {
 						operation: ['create'],
 					},
 				},
+				description: 'Maximum transmission unit of the ports in the broadcast domain, in bytes',
 			},
 			{
 				displayName: 'IPspace',
@@ -658,6 +821,7 @@ export class NetAppOntapNetwork implements INodeType {
 						operation: ['create'],
 					},
 				},
+				description: 'Name of the IPspace the broadcast domain belongs to',
 			},
 
 			// Broadcast Domain Ports
@@ -696,12 +860,14 @@ export class NetAppOntapNetwork implements INodeType {
 						name: 'mtu',
 						type: 'number',
 						default: 1500,
+						description: 'Maximum transmission unit of the ports in the broadcast domain, in bytes',
 					},
 					{
 						displayName: 'New Name',
 						name: 'name',
 						type: 'string',
 						default: '',
+						description: 'New name for the broadcast domain',
 					},
 				],
 			},
@@ -759,7 +925,7 @@ export class NetAppOntapNetwork implements INodeType {
 				displayName: 'IPspace',
 				name: 'ipspaceId',
 				type: 'resourceLocator',
-				default: { mode: 'uuid', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -767,7 +933,17 @@ export class NetAppOntapNetwork implements INodeType {
 						operation: ['get', 'update', 'delete'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchIpspaces',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By UUID',
 						name: 'uuid',
 						type: 'string',
@@ -778,6 +954,7 @@ export class NetAppOntapNetwork implements INodeType {
 						type: 'string',
 					},
 				],
+				description: 'IPspace to use, by UUID or by name',
 			},
 
 			// IPspace Create Fields
@@ -793,6 +970,7 @@ export class NetAppOntapNetwork implements INodeType {
 						operation: ['create'],
 					},
 				},
+				description: 'Name of the new IPspace',
 			},
 
 			// IPspace Update
@@ -808,6 +986,7 @@ export class NetAppOntapNetwork implements INodeType {
 						operation: ['update'],
 					},
 				},
+				description: 'New name for the IPspace',
 			},
 
 			// ===================
@@ -865,6 +1044,7 @@ export class NetAppOntapNetwork implements INodeType {
 						operation: ['get', 'delete'],
 					},
 				},
+				description: 'UUID of the network route',
 			},
 
 			// Route Create Fields
@@ -872,7 +1052,7 @@ export class NetAppOntapNetwork implements INodeType {
 				displayName: 'SVM',
 				name: 'routeSvm',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -880,12 +1060,23 @@ export class NetAppOntapNetwork implements INodeType {
 						operation: ['create'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchSvmNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 					},
 				],
+				description: 'SVM the route belongs to',
 			},
 			{
 				displayName: 'Destination',
@@ -928,8 +1119,30 @@ export class NetAppOntapNetwork implements INodeType {
 						operation: ['create'],
 					},
 				},
+				description: 'Priority of the route, lower values are preferred',
 			},
 
+			// ===================
+			// IF EXISTS
+			// ===================
+			ifExistsProperty(['ipInterface']),
+
+			// ===================
+			// JOB OPTIONS
+			// ===================
+			...jobOptionsProperties({
+				ipInterface: ['create', 'update', 'delete', 'migrate', 'revert'],
+				port: ['update'],
+				broadcastDomain: ['create', 'update', 'delete', 'addPorts', 'removePorts'],
+				ipspace: ['create', 'update', 'delete'],
+				route: ['create', 'delete'],
+			}),
+
+			// ===================
+			// CUSTOM API CALL
+			// ===================
+			...customApiCallProperties,
+
 			// Common Filters
 			{
 				displayName: 'Filters',
@@ -949,8 +1162,9 @@ export class NetAppOntapNetwork implements INodeType {
 						type: 'string',
 						default: '',
 						placeholder: 'type=rw,state=!offline',
-						description: 'ONTAP API filter expression. Format: field=value,field2=value2. Supports operators: =, !=, <, >, <=, >=, *, |',
+						description: 'ONTAP API filter expression. Format: field=value,field2=value2. Supports operators: =, !=, <, >, <=, >=, *, |. Quote a value to keep a comma followed by field= in it.',
 					},
+					filterConditionsOption,
 					{
 						displayName: 'Return All',
 						name: 'returnAll',
@@ -973,6 +1187,7 @@ export class NetAppOntapNetwork implements INodeType {
 							},
 						},
 					},
+					...listControlOptions,
 				],
 			},
 
@@ -984,45 +1199,93 @@ export class NetAppOntapNetwork implements INodeType {
 				placeholder: 'Add Option',
 				default: {},
 				options: [
-					{
-						displayName: 'Fields',
-						name: 'fields',
-						type: 'string',
-						default: '',
-						description: 'Comma-separated list of fields to include (use * for all)',
-					},
+					fieldsOption,
 				],
 			},
 		],
 	};
 
-	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
-		const items = this.getInputData();
-		const returnData: INodeExecutionData[] = [];
+	methods = {
+		loadOptions: {
+			async getFields(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				return getCatalogFieldOptions.call(this, FIELD_CATALOG_COLLECTIONS);
+			},
+		},
+		listSearch: {
+			async searchBroadcastDomains(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/network/ethernet/broadcast-domains', filter, paginationToken, {
+					fields: ['ipspace.name'],
+					getName: (record) => `${record.name} (${(record.ipspace as IDataObject)?.name})`,
+				});
+			},
+			async searchIpInterfaces(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/network/ip/interfaces', filter, paginationToken, {
+					showSvm: true,
+					query: getSvmScopeQuery.call(this, 'ipInterfaceSvm'),
+				});
+			},
+			async searchIpspaces(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/network/ipspaces', filter, paginationToken);
+			},
+			async searchNodeNames(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/cluster/nodes', filter, paginationToken, { valueField: 'name' });
+			},
+			async searchPorts(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/network/ethernet/ports', filter, paginationToken, {
+					fields: ['node.name'],
+					getName: (record) => `${(record.node as IDataObject)?.name}:${record.name}`,
+				});
+			},
+			async searchSvmNames(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/svm/svms', filter, paginationToken, { valueField: 'name' });
+			},
+		},
+	};
 
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const resource = this.getNodeParameter('resource', 0) as string;
 		const operation = this.getNodeParameter('operation', 0) as string;
-
-		for (let i = 0; i < items.length; i++) {
+		const returnData = await processItems.call(this, async (i) => {
 			try {
+				assertToolOperationAllowed.call(this, DESTRUCTIVE_TOOL_OPERATIONS, i);
+				await assertOntapVersion.call(this, MINIMUM_ONTAP_VERSIONS, resource, operation, i);
 				let responseData: IDataObject | IDataObject[] = {};
 				const options = this.getNodeParameter('options', i, {}) as IDataObject;
 				const qs: IDataObject = {};
+				const jobOptions = getJobOptions.call(this, i);
 
-				if (options.fields) {
-					qs.fields = options.fields;
-				}
+				Object.assign(qs, buildFieldsQuery(options.fields as string | string[] | undefined));
 
 				// Helper to resolve IP interface
 				const resolveIpInterfaceId = async (locator: { mode: string; value: string }): Promise<string> => {
 					if (locator.mode === 'uuid' || locator.mode === 'list') {
 						return locator.value;
 					}
-					const interfaces = await ontapApiRequestAllItems.call(this, 'GET', '/network/ip/interfaces', {}, { name: locator.value });
-					if (interfaces.length === 0) {
-						throw new Error(`IP interface "${locator.value}" not found`);
-					}
-					return interfaces[0].uuid as string;
+					return await resolveOntapId.call(this, '/network/ip/interfaces', locator.value, 'IP interface', i);
 				};
 
 				// Helper to resolve broadcast domain
@@ -1030,11 +1293,7 @@ export class NetAppOntapNetwork implements INodeType {
 					if (locator.mode === 'uuid' || locator.mode === 'list') {
 						return locator.value;
 					}
-					const domains = await ontapApiRequestAllItems.call(this, 'GET', '/network/ethernet/broadcast-domains', {}, { name: locator.value });
-					if (domains.length === 0) {
-						throw new Error(`Broadcast domain "${locator.value}" not found`);
-					}
-					return domains[0].uuid as string;
+					return await resolveOntapId.call(this, '/network/ethernet/broadcast-domains', locator.value, 'Broadcast domain', i);
 				};
 
 				// Helper to resolve IPspace
@@ -1042,11 +1301,7 @@ export class NetAppOntapNetwork implements INodeType {
 					if (locator.mode === 'uuid' || locator.mode === 'list') {
 						return locator.value;
 					}
-					const ipspaces = await ontapApiRequestAllItems.call(this, 'GET', '/network/ipspaces', {}, { name: locator.value });
-					if (ipspaces.length === 0) {
-						throw new Error(`IPspace "${locator.value}" not found`);
-					}
-					return ipspaces[0].uuid as string;
+					return await resolveOntapId.call(this, '/network/ipspaces', locator.value, 'IPspace', i);
 				};
 
 				// ========== IP INTERFACE ==========
@@ -1055,9 +1310,7 @@ export class NetAppOntapNetwork implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 						
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 						
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -1115,8 +1368,14 @@ export class NetAppOntapNetwork implements INodeType {
 							}
 						}
 
-						const response = await ontapApiRequest.call(this, 'POST', '/network/ip/interfaces', cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						const ifExists = this.getNodeParameter('ifExists', i, 'error') as OntapIfExists;
+						responseData = await ensureOntapObject.call(this, ifExists, {
+							endpoint: '/network/ip/interfaces',
+							keyFields: ['name', 'svm.name'],
+							idFields: ['uuid'],
+							getPath: (ipInterface) => ipInterface.uuid as string,
+							createOnlyFields: ['ipspace'],
+						}, cleanObject(body), jobOptions, i);
 					} else if (operation === 'update') {
 						const locator = this.getNodeParameter('ipInterfaceId', i) as { mode: string; value: string };
 						const interfaceId = await resolveIpInterfaceId(locator);
@@ -1137,13 +1396,14 @@ export class NetAppOntapNetwork implements INodeType {
 						}
 
 						const response = await ontapApiRequest.call(this, 'PATCH', `/network/ip/interfaces/${interfaceId}`, cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'delete') {
 						const locator = this.getNodeParameter('ipInterfaceId', i) as { mode: string; value: string };
 						const interfaceId = await resolveIpInterfaceId(locator);
 
 						const response = await ontapApiRequest.call(this, 'DELETE', `/network/ip/interfaces/${interfaceId}`);
-						responseData = await handleAsyncResponse.call(this, response);
+						invalidateOntapIds.call(this, '/network/ip/interfaces');
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 						if (!responseData.job) {
 							responseData = { success: true, deleted: interfaceId };
 						}
@@ -1159,7 +1419,7 @@ export class NetAppOntapNetwork implements INodeType {
 								port: { name: destPort },
 							},
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'revert') {
 						const locator = this.getNodeParameter('ipInterfaceId', i) as { mode: string; value: string };
 						const interfaceId = await resolveIpInterfaceId(locator);
@@ -1169,7 +1429,7 @@ export class NetAppOntapNetwork implements INodeType {
 								is_home: true,
 							},
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					}
 				}
 
@@ -1179,9 +1439,7 @@ export class NetAppOntapNetwork implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 						
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 						
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -1204,7 +1462,7 @@ export class NetAppOntapNetwork implements INodeType {
 						if (updateFields.flowControl) body.flow_control = updateFields.flowControl;
 
 						const response = await ontapApiRequest.call(this, 'PATCH', `/network/ethernet/ports/${locator.value}`, cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					}
 				}
 
@@ -1214,9 +1472,7 @@ export class NetAppOntapNetwork implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 						
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 						
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -1241,7 +1497,7 @@ export class NetAppOntapNetwork implements INodeType {
 						};
 
 						const response = await ontapApiRequest.call(this, 'POST', '/network/ethernet/broadcast-domains', body);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'update') {
 						const locator = this.getNodeParameter('broadcastDomainId', i) as { mode: string; value: string };
 						const domainId = await resolveBroadcastDomainId(locator);
@@ -1252,13 +1508,15 @@ export class NetAppOntapNetwork implements INodeType {
 						if (updateFields.name) body.name = updateFields.name;
 
 						const response = await ontapApiRequest.call(this, 'PATCH', `/network/ethernet/broadcast-domains/${domainId}`, cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						if (body.name) invalidateOntapIds.call(this, '/network/ethernet/broadcast-domains');
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'delete') {
 						const locator = this.getNodeParameter('broadcastDomainId', i) as { mode: string; value: string };
 						const domainId = await resolveBroadcastDomainId(locator);
 
 						const response = await ontapApiRequest.call(this, 'DELETE', `/network/ethernet/broadcast-domains/${domainId}`);
-						responseData = await handleAsyncResponse.call(this, response);
+						invalidateOntapIds.call(this, '/network/ethernet/broadcast-domains');
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 						if (!responseData.job) {
 							responseData = { success: true, deleted: domainId };
 						}
@@ -1275,7 +1533,7 @@ export class NetAppOntapNetwork implements INodeType {
 						const response = await ontapApiRequest.call(this, 'PATCH', `/network/ethernet/broadcast-domains/${domainId}`, {
 							ports,
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'removePorts') {
 						const locator = this.getNodeParameter('broadcastDomainId', i) as { mode: string; value: string };
 						const domainId = await resolveBroadcastDomainId(locator);
@@ -1294,7 +1552,7 @@ export class NetAppOntapNetwork implements INodeType {
 						const response = await ontapApiRequest.call(this, 'PATCH', `/network/ethernet/broadcast-domains/${domainId}`, {
 							ports: remainingPorts,
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					}
 				}
 
@@ -1304,9 +1562,7 @@ export class NetAppOntapNetwork implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 						
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 						
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -1323,20 +1579,22 @@ export class NetAppOntapNetwork implements INodeType {
 						const name = this.getNodeParameter('ipspaceName', i) as string;
 
 						const response = await ontapApiRequest.call(this, 'POST', '/network/ipspaces', { name });
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'update') {
 						const locator = this.getNodeParameter('ipspaceId', i) as { mode: string; value: string };
 						const ipspaceId = await resolveIpspaceId(locator);
 						const newName = this.getNodeParameter('ipspaceNewName', i) as string;
 
 						const response = await ontapApiRequest.call(this, 'PATCH', `/network/ipspaces/${ipspaceId}`, { name: newName });
-						responseData = await handleAsyncResponse.call(this, response);
+						invalidateOntapIds.call(this, '/network/ipspaces');
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'delete') {
 						const locator = this.getNodeParameter('ipspaceId', i) as { mode: string; value: string };
 						const ipspaceId = await resolveIpspaceId(locator);
 
 						const response = await ontapApiRequest.call(this, 'DELETE', `/network/ipspaces/${ipspaceId}`);
-						responseData = await handleAsyncResponse.call(this, response);
+						invalidateOntapIds.call(this, '/network/ipspaces');
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 						if (!responseData.job) {
 							responseData = { success: true, deleted: ipspaceId };
 						}
@@ -1349,9 +1607,7 @@ export class NetAppOntapNetwork implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 						
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 						
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -1381,31 +1637,37 @@ export class NetAppOntapNetwork implements INodeType {
 						};
 
 						const response = await ontapApiRequest.call(this, 'POST', '/network/ip/routes', body);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'delete') {
 						const routeId = this.getNodeParameter('routeId', i) as string;
 
 						const response = await ontapApiRequest.call(this, 'DELETE', `/network/ip/routes/${routeId}`);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 						if (!responseData.job) {
 							responseData = { success: true, deleted: routeId };
 						}
 					}
 				}
 
+				// ========== CUSTOM API CALL ==========
+				else if (resource === 'customApiCall') {
+					responseData = await executeCustomApiCall.call(this, i, qs);
+				}
+
+				responseData = getDryRunOutput.call(this, responseData);
+
 				const executionData = this.helpers.constructExecutionMetaData(
 					this.helpers.returnJsonArray(responseData as IDataObject[]),
 					{ itemData: { item: i } },
 				);
-				returnData.push(...executionData);
+				return executionData;
 			} catch (error) {
 				if (this.continueOnFail()) {
-					returnData.push({ json: { error: (error as Error).message }, pairedItem: { item: i } });
-					continue;
+					return [{ json: getErrorOutput(error as Error), pairedItem: { item: i } }];
 				}
 				throw error;
 			}
-		}
+		});
 
 		return [returnData];
 	}
@@ -4,16 +4,72 @@ import type {
 	INodeExecutionData,
 	INodeType,
 	INodeTypeDescription,
+	ILoadOptionsFunctions,
+	INodeListSearchResult,
+	INodePropertyOptions,
 } from 'n8n-workflow';
 
 import {
 	ontapApiRequest,
 	ontapApiRequestAllItems,
 	handleAsyncResponse,
+	ensureOntapObject,
+	getJobOptions,
 	cleanObject,
 	parseSize,
-	parseApiFilters,
+	getFilterQuery,
+	ontapListSearch,
+	getSvmScopeQuery,
+	executeCustomApiCall,
+	getErrorOutput,
+	formatSizeFields,
+	resolveOntapId,
+	invalidateOntapIds,
+	getDryRunOutput,
+	processItems,
+	buildFieldsQuery,
+	getCatalogFieldOptions,
+	assertOntapVersion,
+	assertToolOperationAllowed,
 } from '../shared/GenericFunctions';
+import { customApiCallProperties } from '../shared/CustomApiCallDescription';
+import { fieldsOption } from '../shared/FieldsDescription';
+import { filterConditionsOption, listControlOptions } from '../shared/FilterDescription';
+import { ifExistsProperty } from '../shared/IfExistsDescription';
+import { jobOptionsProperties } from '../shared/JobOptionsDescription';
+import type { OntapIfExists, OntapMinimumVersions, OntapToolOperations } from '../shared/types';
+
+/**
+ * Operations that need a newer ONTAP release than the rest of the node
+ */
+const MINIMUM_ONTAP_VERSIONS: OntapMinimumVersions = {
+	igroup: { addInitiator: '9.8', removeInitiator: '9.8' },
+};
+
+/**
+ * Operations that remove or overwrite data or cut access, which an AI agent
+ * may only run when the node allows destructive operations
+ */
+const DESTRUCTIVE_TOOL_OPERATIONS: OntapToolOperations = {
+	lun: ['delete', 'offline', 'resize'],
+	igroup: ['delete', 'removeInitiator'],
+	lunMap: ['delete'],
+	fcInterface: ['delete'],
+	fcpService: ['delete', 'stop'],
+	iscsiService: ['delete', 'stop'],
+};
+
+/**
+ * Field catalog collection of each resource, for the "Fields" option
+ */
+const FIELD_CATALOG_COLLECTIONS: Record<string, string> = {
+	fcInterface: '/network/fc/interfaces',
+	fcpService: '/protocols/san/fcp/services',
+	igroup: '/protocols/san/igroups',
+	iscsiService: '/protocols/san/iscsi/services',
+	lun: '/storage/luns',
+	lunMap: '/protocols/san/lun-maps',
+};
 
 export class NetAppOntapSan implements INodeType {
 	description: INodeTypeDescription = {
@@ -29,6 +85,7 @@ export class NetAppOntapSan implements INodeType {
 		},
 		inputs: ['main'],
 		outputs: ['main'],
+		usableAsTool: true,
 		credentials: [
 			{
 				name: 'netAppOntapApi',
@@ -43,15 +100,39 @@ export class NetAppOntapSan implements INodeType {
 				type: 'string',
 				default: '',
 				placeholder: 'cluster.example.com',
-				description: 'The hostname or IP address of the ONTAP cluster management LIF',
-				required: true,
+				description: 'The hostname or IP address of the ONTAP cluster management LIF. Leave empty to use the cluster host from the credential.',
 			},
 			{
 				displayName: 'Port',
 				name: 'clusterPort',
 				type: 'number',
 				default: 443,
-				description: 'HTTPS port for the ONTAP REST API',
+				description: 'HTTPS port for the ONTAP REST API. Only used when Cluster Host is set on the node.',
+			},
+			{
+				displayName: 'Dry Run',
+				name: 'dryRun',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to return the POST, PATCH and DELETE requests the node would send instead of sending them. GET requests, e.g. to resolve names to UUIDs, are still sent.',
+			},
+			{
+				displayName: 'Concurrency',
+				name: 'concurrency',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+					maxValue: 32,
+				},
+				default: 1,
+				description: 'How many input items to process at the same time, e.g. for bulk provisioning or operations that wait on jobs. Output order and item pairing are kept.',
+			},
+			{
+				displayName: 'Allow Destructive Operations for AI Agents',
+				name: 'allowDestructiveToolOperations',
+				type: 'boolean',
+				default: false,
+				description: 'Whether an AI agent using this node as a tool may run operations that remove or overwrite data or cut access, such as delete, offline, resize and removing initiators. Has no effect in regular workflows.',
 			},
 			// Resource Selection
 			{
@@ -60,6 +141,11 @@ export class NetAppOntapSan implements INodeType {
 				type: 'options',
 				noDataExpression: true,
 				options: [
+					{
+						name: 'Custom API Call',
+						value: 'customApiCall',
+						description: 'Call any ONTAP REST API endpoint',
+					},
 					{
 						name: 'FC Interface',
 						value: 'fcInterface',
@@ -171,7 +257,7 @@ export class NetAppOntapSan implements INodeType {
 				displayName: 'LUN',
 				name: 'lunId',
 				type: 'resourceLocator',
-				default: { mode: 'uuid', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -179,7 +265,17 @@ export class NetAppOntapSan implements INodeType {
 						operation: ['get', 'update', 'delete', 'resize', 'online', 'offline', 'clone'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchLuns',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By UUID',
 						name: 'uuid',
 						type: 'string',
@@ -191,6 +287,7 @@ export class NetAppOntapSan implements INodeType {
 						placeholder: '/vol/vol1/lun1',
 					},
 				],
+				description: 'LUN to use, by UUID or by path such as /vol/vol1/lun1',
 			},
 
 			// LUN Create Fields
@@ -206,12 +303,13 @@ export class NetAppOntapSan implements INodeType {
 						operation: ['create'],
 					},
 				},
+				description: 'Name of the new LUN, without the volume path',
 			},
 			{
 				displayName: 'SVM',
 				name: 'lunSvm',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -219,18 +317,29 @@ export class NetAppOntapSan implements INodeType {
 						operation: ['create'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchSvmNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 					},
 				],
+				description: 'SVM that will own the new LUN',
 			},
 			{
 				displayName: 'Volume',
 				name: 'lunVolume',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -238,12 +347,23 @@ export class NetAppOntapSan implements INodeType {
 						operation: ['create'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchVolumeNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 					},
 				],
+				description: 'Volume the new LUN is created in',
 			},
 			{
 				displayName: 'Size',
@@ -286,6 +406,7 @@ export class NetAppOntapSan implements INodeType {
 						operation: ['create'],
 					},
 				},
+				description: 'Operating system of the host that uses the LUN, which sets its geometry',
 			},
 
 			// LUN Create Options
@@ -307,6 +428,7 @@ export class NetAppOntapSan implements INodeType {
 						name: 'comment',
 						type: 'string',
 						default: '',
+						description: 'Comment stored with the LUN',
 					},
 					{
 						displayName: 'QoS Policy',
@@ -361,6 +483,7 @@ export class NetAppOntapSan implements INodeType {
 						operation: ['clone'],
 					},
 				},
+				description: 'Name of the new LUN the clone is created as',
 			},
 
 			// LUN Update Fields
@@ -382,18 +505,21 @@ export class NetAppOntapSan implements INodeType {
 						name: 'comment',
 						type: 'string',
 						default: '',
+						description: 'New comment for the LUN',
 					},
 					{
 						displayName: 'QoS Policy',
 						name: 'qosPolicy',
 						type: 'string',
 						default: '',
+						description: 'Name of the QoS policy group to assign to the LUN',
 					},
 					{
 						displayName: 'New Name',
 						name: 'name',
 						type: 'string',
 						default: '',
+						description: 'New name for the LUN, without the volume path',
 					},
 				],
 			},
@@ -463,7 +589,7 @@ export class NetAppOntapSan implements INodeType {
 				displayName: 'Igroup',
 				name: 'igroupId',
 				type: 'resourceLocator',
-				default: { mode: 'uuid', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -471,7 +597,17 @@ export class NetAppOntapSan implements INodeType {
 						operation: ['get', 'update', 'delete', 'addInitiator', 'removeInitiator'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchIgroups',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By UUID',
 						name: 'uuid',
 						type: 'string',
@@ -482,6 +618,7 @@ export class NetAppOntapSan implements INodeType {
 						type: 'string',
 					},
 				],
+				description: 'Initiator group to use, by UUID or by name',
 			},
 
 			// Igroup Create Fields
@@ -497,12 +634,13 @@ export class NetAppOntapSan implements INodeType {
 						operation: ['create'],
 					},
 				},
+				description: 'Name of the new initiator group',
 			},
 			{
 				displayName: 'SVM',
 				name: 'igroupSvm',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -510,12 +648,23 @@ export class NetAppOntapSan implements INodeType {
 						operation: ['create'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchSvmNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 					},
 				],
+				description: 'SVM that will own the new initiator group',
 			},
 			{
 				displayName: 'Protocol',
@@ -534,6 +683,7 @@ export class NetAppOntapSan implements INodeType {
 						operation: ['create'],
 					},
 				},
+				description: 'Protocol the initiators of the group use',
 			},
 			{
 				displayName: 'OS Type',
@@ -559,6 +709,7 @@ export class NetAppOntapSan implements INodeType {
 						operation: ['create'],
 					},
 				},
+				description: 'Operating system of the hosts in the initiator group',
 			},
 
 			// Igroup Initiators
@@ -613,12 +764,14 @@ export class NetAppOntapSan implements INodeType {
 						name: 'name',
 						type: 'string',
 						default: '',
+						description: 'New name for the initiator group',
 					},
 					{
 						displayName: 'Comment',
 						name: 'comment',
 						type: 'string',
 						default: '',
+						description: 'New comment for the initiator group',
 					},
 				],
 			},
@@ -664,7 +817,7 @@ export class NetAppOntapSan implements INodeType {
 				displayName: 'LUN',
 				name: 'lunMapLun',
 				type: 'resourceLocator',
-				default: { mode: 'uuid', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -672,12 +825,23 @@ export class NetAppOntapSan implements INodeType {
 						operation: ['create', 'delete'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchLuns',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By UUID',
 						name: 'uuid',
 						type: 'string',
 					},
 				],
+				description: 'LUN to map or unmap',
 			},
 
 			// LUN Map Igroup
@@ -685,7 +849,7 @@ export class NetAppOntapSan implements INodeType {
 				displayName: 'Igroup',
 				name: 'lunMapIgroup',
 				type: 'resourceLocator',
-				default: { mode: 'uuid', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -693,12 +857,23 @@ export class NetAppOntapSan implements INodeType {
 						operation: ['create', 'delete'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchIgroups',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By UUID',
 						name: 'uuid',
 						type: 'string',
 					},
 				],
+				description: 'Initiator group the LUN is mapped to',
 			},
 
 			// LUN Map LUN ID
@@ -769,7 +944,7 @@ export class NetAppOntapSan implements INodeType {
 				displayName: 'FC Interface',
 				name: 'fcInterfaceId',
 				type: 'resourceLocator',
-				default: { mode: 'uuid', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -777,12 +952,23 @@ export class NetAppOntapSan implements INodeType {
 						operation: ['get', 'update', 'delete'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchFcInterfaces',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By UUID',
 						name: 'uuid',
 						type: 'string',
 					},
 				],
+				description: 'FC interface to use, by UUID',
 			},
 
 			// FC Interface Create Fields
@@ -798,12 +984,13 @@ export class NetAppOntapSan implements INodeType {
 						operation: ['create'],
 					},
 				},
+				description: 'Name of the new FC interface',
 			},
 			{
 				displayName: 'SVM',
 				name: 'fcInterfaceSvm',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -811,18 +998,29 @@ export class NetAppOntapSan implements INodeType {
 						operation: ['create'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchSvmNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 					},
 				],
+				description: 'SVM that will own the new FC interface',
 			},
 			{
 				displayName: 'Home Node',
 				name: 'fcHomeNode',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -830,12 +1028,23 @@ export class NetAppOntapSan implements INodeType {
 						operation: ['create'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchNodeNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 					},
 				],
+				description: 'Node the FC interface is created on',
 			},
 			{
 				displayName: 'Home Port',
@@ -867,6 +1076,7 @@ export class NetAppOntapSan implements INodeType {
 						operation: ['create'],
 					},
 				},
+				description: 'Data protocol the FC interface serves',
 			},
 
 			// FC Interface Update
@@ -888,6 +1098,7 @@ export class NetAppOntapSan implements INodeType {
 						name: 'enabled',
 						type: 'boolean',
 						default: true,
+						description: 'Whether the FC interface is administratively up',
 					},
 				],
 			},
@@ -951,7 +1162,7 @@ export class NetAppOntapSan implements INodeType {
 				displayName: 'SVM',
 				name: 'fcpSvm',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -959,12 +1170,23 @@ export class NetAppOntapSan implements INodeType {
 						operation: ['create', 'get', 'delete', 'start', 'stop'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchSvmNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 					},
 				],
+				description: 'SVM whose FC Protocol service to use, by name',
 			},
 			{
 				displayName: 'Target Name',
@@ -1039,7 +1261,7 @@ export class NetAppOntapSan implements INodeType {
 				displayName: 'SVM',
 				name: 'iscsiSvm',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -1047,12 +1269,23 @@ export class NetAppOntapSan implements INodeType {
 						operation: ['create', 'get', 'delete', 'start', 'stop'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchSvmNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 					},
 				],
+				description: 'SVM whose iSCSI service to use, by name',
 			},
 			{
 				displayName: 'Target Name',
@@ -1068,6 +1301,28 @@ export class NetAppOntapSan implements INodeType {
 				description: 'Target IQN. Leave empty for auto-generated.',
 			},
 
+			// ===================
+			// IF EXISTS
+			// ===================
+			ifExistsProperty(['igroup']),
+
+			// ===================
+			// JOB OPTIONS
+			// ===================
+			...jobOptionsProperties({
+				lun: ['create', 'update', 'delete', 'resize', 'online', 'offline', 'clone'],
+				igroup: ['create', 'update', 'delete', 'addInitiator', 'removeInitiator'],
+				lunMap: ['create', 'delete'],
+				fcInterface: ['create', 'update', 'delete'],
+				fcpService: ['create', 'delete', 'start', 'stop'],
+				iscsiService: ['create', 'delete', 'start', 'stop'],
+			}),
+
+			// ===================
+			// CUSTOM API CALL
+			// ===================
+			...customApiCallProperties,
+
 			// Common Filters
 			{
 				displayName: 'Filters',
@@ -1087,8 +1342,9 @@ export class NetAppOntapSan implements INodeType {
 						type: 'string',
 						default: '',
 						placeholder: 'type=rw,state=!offline',
-						description: 'ONTAP API filter expression. Format: field=value,field2=value2. Supports operators: =, !=, <, >, <=, >=, *, |',
+						description: 'ONTAP API filter expression. Format: field=value,field2=value2. Supports operators: =, !=, <, >, <=, >=, *, |. Quote a value to keep a comma followed by field= in it.',
 					},
+					filterConditionsOption,
 					{
 						displayName: 'Return All',
 						name: 'returnAll',
@@ -1111,6 +1367,7 @@ export class NetAppOntapSan implements INodeType {
 							},
 						},
 					},
+					...listControlOptions,
 				],
 			},
 
@@ -1122,34 +1379,101 @@ export class NetAppOntapSan implements INodeType {
 				placeholder: 'Add Option',
 				default: {},
 				options: [
+					fieldsOption,
 					{
-						displayName: 'Fields',
-						name: 'fields',
-						type: 'string',
-						default: '',
-						description: 'Comma-separated list of fields to include (use * for all)',
+						displayName: 'Format Sizes',
+						name: 'formatSizes',
+						type: 'boolean',
+						default: false,
+						displayOptions: {
+							show: {
+								'/operation': ['get', 'getMany'],
+							},
+						},
+						description: 'Whether to add a human-readable companion such as size_formatted ("1.5 TB") next to each size field, and the percent used of space objects. The raw byte counts are kept.',
 					},
 				],
 			},
 		],
 	};
 
-	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
-		const items = this.getInputData();
-		const returnData: INodeExecutionData[] = [];
+	methods = {
+		loadOptions: {
+			async getFields(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				return getCatalogFieldOptions.call(this, FIELD_CATALOG_COLLECTIONS);
+			},
+		},
+		listSearch: {
+			async searchFcInterfaces(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/network/fc/interfaces', filter, paginationToken, {
+					showSvm: true,
+					query: getSvmScopeQuery.call(this, 'fcInterfaceSvm'),
+				});
+			},
+			async searchIgroups(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/protocols/san/igroups', filter, paginationToken, {
+					showSvm: true,
+					query: getSvmScopeQuery.call(this, 'igroupSvm'),
+				});
+			},
+			async searchLuns(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/storage/luns', filter, paginationToken, {
+					showSvm: true,
+					query: getSvmScopeQuery.call(this, 'lunSvm'),
+				});
+			},
+			async searchNodeNames(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/cluster/nodes', filter, paginationToken, { valueField: 'name' });
+			},
+			async searchSvmNames(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/svm/svms', filter, paginationToken, { valueField: 'name' });
+			},
+			async searchVolumeNames(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/storage/volumes', filter, paginationToken, {
+					valueField: 'name',
+					query: getSvmScopeQuery.call(this, 'lunSvm'),
+				});
+			},
+		},
+	};
 
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const resource = this.getNodeParameter('resource', 0) as string;
 		const operation = this.getNodeParameter('operation', 0) as string;
-
-		for (let i = 0; i < items.length; i++) {
+		const returnData = await processItems.call(this, async (i) => {
 			try {
+				assertToolOperationAllowed.call(this, DESTRUCTIVE_TOOL_OPERATIONS, i);
+				await assertOntapVersion.call(this, MINIMUM_ONTAP_VERSIONS, resource, operation, i);
 				let responseData: IDataObject | IDataObject[] = {};
 				const options = this.getNodeParameter('options', i, {}) as IDataObject;
 				const qs: IDataObject = {};
+				const jobOptions = getJobOptions.call(this, i);
 
-				if (options.fields) {
-					qs.fields = options.fields;
-				}
+				Object.assign(qs, buildFieldsQuery(options.fields as string | string[] | undefined));
 
 				// Helper to resolve LUN
 				const resolveLunId = async (locator: { mode: string; value: string }): Promise<string> => {
@@ -1157,11 +1481,7 @@ export class NetAppOntapSan implements INodeType {
 						return locator.value;
 					}
 					// By path
-					const luns = await ontapApiRequestAllItems.call(this, 'GET', '/storage/luns', {}, { 'name': locator.value });
-					if (luns.length === 0) {
-						throw new Error(`LUN "${locator.value}" not found`);
-					}
-					return luns[0].uuid as string;
+					return await resolveOntapId.call(this, '/storage/luns', locator.value, 'LUN', i);
 				};
 
 				// Helper to resolve igroup
@@ -1169,13 +1489,7 @@ export class NetAppOntapSan implements INodeType {
 					if (locator.mode === 'uuid' || locator.mode === 'list') {
 						return locator.value;
 					}
-					const qs: IDataObject = { name: locator.value };
-					if (svmName) qs['svm.name'] = svmName;
-					const igroups = await ontapApiRequestAllItems.call(this, 'GET', '/protocols/san/igroups', {}, qs);
-					if (igroups.length === 0) {
-						throw new Error(`Igroup "${locator.value}" not found`);
-					}
-					return igroups[0].uuid as string;
+					return await resolveOntapId.call(this, '/protocols/san/igroups', locator.value, 'Igroup', i, svmName);
 				};
 
 				// ========== LUN ==========
@@ -1184,9 +1498,7 @@ export class NetAppOntapSan implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 						
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 						
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -1228,7 +1540,7 @@ export class NetAppOntapSan implements INodeType {
 						}
 
 						const response = await ontapApiRequest.call(this, 'POST', '/storage/luns', body);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'update') {
 						const lunLocator = this.getNodeParameter('lunId', i) as { mode: string; value: string };
 						const lunId = await resolveLunId(lunLocator);
@@ -1240,13 +1552,15 @@ export class NetAppOntapSan implements INodeType {
 						if (updateFields.name) body.name = updateFields.name;
 
 						const response = await ontapApiRequest.call(this, 'PATCH', `/storage/luns/${lunId}`, cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						if (body.name) invalidateOntapIds.call(this, '/storage/luns');
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'delete') {
 						const lunLocator = this.getNodeParameter('lunId', i) as { mode: string; value: string };
 						const lunId = await resolveLunId(lunLocator);
 
 						const response = await ontapApiRequest.call(this, 'DELETE', `/storage/luns/${lunId}`);
-						responseData = await handleAsyncResponse.call(this, response);
+						invalidateOntapIds.call(this, '/storage/luns');
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 						if (!responseData.job) {
 							responseData = { success: true, deleted: lunId };
 						}
@@ -1258,7 +1572,7 @@ export class NetAppOntapSan implements INodeType {
 						const response = await ontapApiRequest.call(this, 'PATCH', `/storage/luns/${lunId}`, {
 							space: { size: parseSize(newSize) },
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'online') {
 						const lunLocator = this.getNodeParameter('lunId', i) as { mode: string; value: string };
 						const lunId = await resolveLunId(lunLocator);
@@ -1266,7 +1580,7 @@ export class NetAppOntapSan implements INodeType {
 						const response = await ontapApiRequest.call(this, 'PATCH', `/storage/luns/${lunId}`, {
 							status: { state: 'online' },
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'offline') {
 						const lunLocator = this.getNodeParameter('lunId', i) as { mode: string; value: string };
 						const lunId = await resolveLunId(lunLocator);
@@ -1274,7 +1588,7 @@ export class NetAppOntapSan implements INodeType {
 						const response = await ontapApiRequest.call(this, 'PATCH', `/storage/luns/${lunId}`, {
 							status: { state: 'offline' },
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'clone') {
 						const lunLocator = this.getNodeParameter('lunId', i) as { mode: string; value: string };
 						const lunId = await resolveLunId(lunLocator);
@@ -1294,7 +1608,7 @@ export class NetAppOntapSan implements INodeType {
 						};
 
 						const response = await ontapApiRequest.call(this, 'POST', '/storage/luns', body);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					}
 				}
 
@@ -1304,9 +1618,7 @@ export class NetAppOntapSan implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 						
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 						
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -1337,8 +1649,15 @@ export class NetAppOntapSan implements INodeType {
 							body.initiators = initiatorsStr.split(',').map((init) => ({ name: init.trim() }));
 						}
 
-						const response = await ontapApiRequest.call(this, 'POST', '/protocols/san/igroups', body);
-						responseData = await handleAsyncResponse.call(this, response);
+						const ifExists = this.getNodeParameter('ifExists', i, 'error') as OntapIfExists;
+						responseData = await ensureOntapObject.call(this, ifExists, {
+							endpoint: '/protocols/san/igroups',
+							keyFields: ['name', 'svm.name'],
+							idFields: ['uuid'],
+							getPath: (igroup) => igroup.uuid as string,
+							// Initiators are added and removed through their own endpoint
+							createOnlyFields: ['protocol', 'initiators'],
+						}, body, jobOptions, i);
 					} else if (operation === 'update') {
 						const igLocator = this.getNodeParameter('igroupId', i) as { mode: string; value: string };
 						const igroupId = await resolveIgroupId(igLocator);
@@ -1349,13 +1668,15 @@ export class NetAppOntapSan implements INodeType {
 						if (updateFields.comment) body.comment = updateFields.comment;
 
 						const response = await ontapApiRequest.call(this, 'PATCH', `/protocols/san/igroups/${igroupId}`, cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						if (body.name) invalidateOntapIds.call(this, '/protocols/san/igroups');
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'delete') {
 						const igLocator = this.getNodeParameter('igroupId', i) as { mode: string; value: string };
 						const igroupId = await resolveIgroupId(igLocator);
 
 						const response = await ontapApiRequest.call(this, 'DELETE', `/protocols/san/igroups/${igroupId}`);
-						responseData = await handleAsyncResponse.call(this, response);
+						invalidateOntapIds.call(this, '/protocols/san/igroups');
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 						if (!responseData.job) {
 							responseData = { success: true, deleted: igroupId };
 						}
@@ -1367,14 +1688,14 @@ export class NetAppOntapSan implements INodeType {
 						const response = await ontapApiRequest.call(this, 'POST', `/protocols/san/igroups/${igroupId}/initiators`, {
 							name: initiator,
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'removeInitiator') {
 						const igLocator = this.getNodeParameter('igroupId', i) as { mode: string; value: string };
 						const igroupId = await resolveIgroupId(igLocator);
 						const initiator = this.getNodeParameter('initiator', i) as string;
 
 						const response = await ontapApiRequest.call(this, 'DELETE', `/protocols/san/igroups/${igroupId}/initiators/${encodeURIComponent(initiator)}`);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 						if (!responseData.job) {
 							responseData = { success: true, removed: initiator };
 						}
@@ -1387,9 +1708,7 @@ export class NetAppOntapSan implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 						
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 						
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -1413,13 +1732,13 @@ export class NetAppOntapSan implements INodeType {
 						}
 
 						const response = await ontapApiRequest.call(this, 'POST', '/protocols/san/lun-maps', body);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'delete') {
 						const lunLocator = this.getNodeParameter('lunMapLun', i) as { mode: string; value: string };
 						const igLocator = this.getNodeParameter('lunMapIgroup', i) as { mode: string; value: string };
 
 						const response = await ontapApiRequest.call(this, 'DELETE', `/protocols/san/lun-maps/${lunLocator.value}/${igLocator.value}`);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 						if (!responseData.job) {
 							responseData = { success: true, deleted: `${lunLocator.value}/${igLocator.value}` };
 						}
@@ -1432,9 +1751,7 @@ export class NetAppOntapSan implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 						
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 						
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -1464,7 +1781,7 @@ export class NetAppOntapSan implements INodeType {
 						};
 
 						const response = await ontapApiRequest.call(this, 'POST', '/network/fc/interfaces', body);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'update') {
 						const fcLocator = this.getNodeParameter('fcInterfaceId', i) as { mode: string; value: string };
 						const updateFields = this.getNodeParameter('fcInterfaceUpdateFields', i) as IDataObject;
@@ -1473,12 +1790,12 @@ export class NetAppOntapSan implements INodeType {
 						if (updateFields.enabled !== undefined) body.enabled = updateFields.enabled;
 
 						const response = await ontapApiRequest.call(this, 'PATCH', `/network/fc/interfaces/${fcLocator.value}`, cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'delete') {
 						const fcLocator = this.getNodeParameter('fcInterfaceId', i) as { mode: string; value: string };
 
 						const response = await ontapApiRequest.call(this, 'DELETE', `/network/fc/interfaces/${fcLocator.value}`);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 						if (!responseData.job) {
 							responseData = { success: true, deleted: fcLocator.value };
 						}
@@ -1491,9 +1808,7 @@ export class NetAppOntapSan implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 						
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 						
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -1504,10 +1819,8 @@ export class NetAppOntapSan implements INodeType {
 						}
 					} else if (operation === 'get') {
 						const svmLocator = this.getNodeParameter('fcpSvm', i) as { mode: string; value: string };
-						// Get SVM UUID first
-						const svms = await ontapApiRequestAllItems.call(this, 'GET', '/svm/svms', {}, { name: svmLocator.value });
-						if (svms.length === 0) throw new Error(`SVM "${svmLocator.value}" not found`);
-						responseData = await ontapApiRequest.call(this, 'GET', `/protocols/san/fcp/services/${svms[0].uuid}`, {}, qs);
+						const svmUuid = await resolveOntapId.call(this, '/svm/svms', svmLocator.value, 'SVM', i);
+						responseData = await ontapApiRequest.call(this, 'GET', `/protocols/san/fcp/services/${svmUuid}`, {}, qs);
 					} else if (operation === 'create') {
 						const svmLocator = this.getNodeParameter('fcpSvm', i) as { mode: string; value: string };
 						const targetName = this.getNodeParameter('fcpTargetName', i, '') as string;
@@ -1520,35 +1833,32 @@ export class NetAppOntapSan implements INodeType {
 						if (targetName) body.target = { name: targetName };
 
 						const response = await ontapApiRequest.call(this, 'POST', '/protocols/san/fcp/services', body);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'delete') {
 						const svmLocator = this.getNodeParameter('fcpSvm', i) as { mode: string; value: string };
-						const svms = await ontapApiRequestAllItems.call(this, 'GET', '/svm/svms', {}, { name: svmLocator.value });
-						if (svms.length === 0) throw new Error(`SVM "${svmLocator.value}" not found`);
+						const svmUuid = await resolveOntapId.call(this, '/svm/svms', svmLocator.value, 'SVM', i);
 
-						const response = await ontapApiRequest.call(this, 'DELETE', `/protocols/san/fcp/services/${svms[0].uuid}`);
-						responseData = await handleAsyncResponse.call(this, response);
+						const response = await ontapApiRequest.call(this, 'DELETE', `/protocols/san/fcp/services/${svmUuid}`);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 						if (!responseData.job) {
 							responseData = { success: true, deleted: svmLocator.value };
 						}
 					} else if (operation === 'start') {
 						const svmLocator = this.getNodeParameter('fcpSvm', i) as { mode: string; value: string };
-						const svms = await ontapApiRequestAllItems.call(this, 'GET', '/svm/svms', {}, { name: svmLocator.value });
-						if (svms.length === 0) throw new Error(`SVM "${svmLocator.value}" not found`);
+						const svmUuid = await resolveOntapId.call(this, '/svm/svms', svmLocator.value, 'SVM', i);
 
-						const response = await ontapApiRequest.call(this, 'PATCH', `/protocols/san/fcp/services/${svms[0].uuid}`, {
+						const response = await ontapApiRequest.call(this, 'PATCH', `/protocols/san/fcp/services/${svmUuid}`, {
 							enabled: true,
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'stop') {
 						const svmLocator = this.getNodeParameter('fcpSvm', i) as { mode: string; value: string };
-						const svms = await ontapApiRequestAllItems.call(this, 'GET', '/svm/svms', {}, { name: svmLocator.value });
-						if (svms.length === 0) throw new Error(`SVM "${svmLocator.value}" not found`);
+						const svmUuid = await resolveOntapId.call(this, '/svm/svms', svmLocator.value, 'SVM', i);
 
-						const response = await ontapApiRequest.call(this, 'PATCH', `/protocols/san/fcp/services/${svms[0].uuid}`, {
+						const response = await ontapApiRequest.call(this, 'PATCH', `/protocols/san/fcp/services/${svmUuid}`, {
 							enabled: false,
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					}
 				}
 
@@ -1558,9 +1868,7 @@ export class NetAppOntapSan implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 						
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 						
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -1571,9 +1879,8 @@ export class NetAppOntapSan implements INodeType {
 						}
 					} else if (operation === 'get') {
 						const svmLocator = this.getNodeParameter('iscsiSvm', i) as { mode: string; value: string };
-						const svms = await ontapApiRequestAllItems.call(this, 'GET', '/svm/svms', {}, { name: svmLocator.value });
-						if (svms.length === 0) throw new Error(`SVM "${svmLocator.value}" not found`);
-						responseData = await ontapApiRequest.call(this, 'GET', `/protocols/san/iscsi/services/${svms[0].uuid}`, {}, qs);
+						const svmUuid = await resolveOntapId.call(this, '/svm/svms', svmLocator.value, 'SVM', i);
+						responseData = await ontapApiRequest.call(this, 'GET', `/protocols/san/iscsi/services/${svmUuid}`, {}, qs);
 					} else if (operation === 'create') {
 						const svmLocator = this.getNodeParameter('iscsiSvm', i) as { mode: string; value: string };
 						const targetName = this.getNodeParameter('iscsiTargetName', i, '') as string;
@@ -1586,51 +1893,59 @@ export class NetAppOntapSan implements INodeType {
 						if (targetName) body.target = { name: targetName };
 
 						const response = await ontapApiRequest.call(this, 'POST', '/protocols/san/iscsi/services', body);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'delete') {
 						const svmLocator = this.getNodeParameter('iscsiSvm', i) as { mode: string; value: string };
-						const svms = await ontapApiRequestAllItems.call(this, 'GET', '/svm/svms', {}, { name: svmLocator.value });
-						if (svms.length === 0) throw new Error(`SVM "${svmLocator.value}" not found`);
+						const svmUuid = await resolveOntapId.call(this, '/svm/svms', svmLocator.value, 'SVM', i);
 
-						const response = await ontapApiRequest.call(this, 'DELETE', `/protocols/san/iscsi/services/${svms[0].uuid}`);
-						responseData = await handleAsyncResponse.call(this, response);
+						const response = await ontapApiRequest.call(this, 'DELETE', `/protocols/san/iscsi/services/${svmUuid}`);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 						if (!responseData.job) {
 							responseData = { success: true, deleted: svmLocator.value };
 						}
 					} else if (operation === 'start') {
 						const svmLocator = this.getNodeParameter('iscsiSvm', i) as { mode: string; value: string };
-						const svms = await ontapApiRequestAllItems.call(this, 'GET', '/svm/svms', {}, { name: svmLocator.value });
-						if (svms.length === 0) throw new Error(`SVM "${svmLocator.value}" not found`);
+						const svmUuid = await resolveOntapId.call(this, '/svm/svms', svmLocator.value, 'SVM', i);
 
-						const response = await ontapApiRequest.call(this, 'PATCH', `/protocols/san/iscsi/services/${svms[0].uuid}`, {
+						const response = await ontapApiRequest.call(this, 'PATCH', `/protocols/san/iscsi/services/${svmUuid}`, {
 							enabled: true,
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'stop') {
 						const svmLocator = this.getNodeParameter('iscsiSvm', i) as { mode: string; value: string };
-						const svms = await ontapApiRequestAllItems.call(this, 'GET', '/svm/svms', {}, { name: svmLocator.value });
-						if (svms.length === 0) throw new Error(`SVM "${svmLocator.value}" not found`);
+						const svmUuid = await resolveOntapId.call(this, '/svm/svms', svmLocator.value, 'SVM', i);
 
-						const response = await ontapApiRequest.call(this, 'PATCH', `/protocols/san/iscsi/services/${svms[0].uuid}`, {
+						const response = await ontapApiRequest.call(this, 'PATCH', `/protocols/san/iscsi/services/${svmUuid}`, {
 							enabled: false,
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					}
 				}
 
+				// ========== CUSTOM API CALL ==========
+				else if (resource === 'customApiCall') {
+					responseData = await executeCustomApiCall.call(this, i, qs);
+				}
+
+				if (options.formatSizes) {
+					responseData = Array.isArray(responseData)
+						? responseData.map((record) => formatSizeFields(record))
+						: formatSizeFields(responseData);
+				}
+				responseData = getDryRunOutput.call(this, responseData);
+
 				const executionData = this.helpers.constructExecutionMetaData(
 					this.helpers.returnJsonArray(responseData as IDataObject[]),
 					{ itemData: { item: i } },
 				);
-				returnData.push(...executionData);
+				return executionData;
 			} catch (error) {
 				if (this.continueOnFail()) {
-					returnData.push({ json: { error: (error as Error).message }, pairedItem: { item: i } });
-					continue;
+					return [{ json: getErrorOutput(error as Error), pairedItem: { item: i } }];
 				}
 				throw error;
 			}
-		}
+		});
 
 		return [returnData];
 	}
@@ -4,15 +4,71 @@ import type {
 	INodeExecutionData,
 	INodeType,
 	INodeTypeDescription,
+	ILoadOptionsFunctions,
+	INodeListSearchResult,
+	INodePropertyOptions,
 } from 'n8n-workflow';
 
 import {
 	ontapApiRequest,
 	ontapApiRequestAllItems,
 	handleAsyncResponse,
+	getJobOptions,
 	cleanObject,
-	parseApiFilters,
+	getFilterQuery,
+	ontapListSearch,
+	executeCustomApiCall,
+	getErrorOutput,
+	getDryRunOutput,
+	processItems,
+	assertOntapFieldVersions,
+	buildFieldsQuery,
+	getCatalogFieldOptions,
+	assertToolOperationAllowed,
 } from '../shared/GenericFunctions';
+import { customApiCallProperties } from '../shared/CustomApiCallDescription';
+import { fieldsOption } from '../shared/FieldsDescription';
+import { filterConditionsOption, listControlOptions } from '../shared/FilterDescription';
+import { jobOptionsProperties } from '../shared/JobOptionsDescription';
+import type { OntapMinimumVersions, OntapToolOperations } from '../shared/types';
+
+/**
+ * Record fields that need a newer ONTAP release than their resource, whether
+ * requested through the Fields option or set by an operation
+ */
+const MINIMUM_ONTAP_FIELD_VERSIONS: OntapMinimumVersions = {
+	keyManager: {
+		policy: '9.9',
+		volume_encryption: '9.10',
+	},
+	ssh: {
+		connections_per_second: '9.10',
+	},
+};
+
+/**
+ * Operations that remove or overwrite data or cut access, which an AI agent
+ * may only run when the node allows destructive operations
+ */
+const DESTRUCTIVE_TOOL_OPERATIONS: OntapToolOperations = {
+	account: ['delete', 'lock', 'setPassword'],
+	role: ['delete', 'removePrivilege'],
+	certificate: ['delete'],
+	keyManager: ['delete'],
+};
+
+/**
+ * Field catalog collection of each resource, for the "Fields" option
+ */
+const FIELD_CATALOG_COLLECTIONS: Record<string, string> = {
+	account: '/security/accounts',
+	audit: '/security/audit',
+	certificate: '/security/certificates',
+	keyManager: '/security/key-managers',
+	loginMessages: '/security/login/messages',
+	role: '/security/roles',
+	ssh: '/security/ssh',
+};
 
 export class NetAppOntapSecurity implements INodeType {
 	description: INodeTypeDescription = {
@@ -28,6 +84,7 @@ export class NetAppOntapSecurity implements INodeType {
 		},
 		inputs: ['main'],
 		outputs: ['main'],
+		usableAsTool: true,
 		credentials: [
 			{
 				name: 'netAppOntapApi',
@@ -42,15 +99,39 @@ export class NetAppOntapSecurity implements INodeType {
 				type: 'string',
 				default: '',
 				placeholder: 'cluster.example.com',
-				description: 'The hostname or IP address of the ONTAP cluster management LIF',
-				required: true,
+				description: 'The hostname or IP address of the ONTAP cluster management LIF. Leave empty to use the cluster host from the credential.',
 			},
 			{
 				displayName: 'Port',
 				name: 'clusterPort',
 				type: 'number',
 				default: 443,
-				description: 'HTTPS port for the ONTAP REST API',
+				description: 'HTTPS port for the ONTAP REST API. Only used when Cluster Host is set on the node.',
+			},
+			{
+				displayName: 'Dry Run',
+				name: 'dryRun',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to return the POST, PATCH and DELETE requests the node would send instead of sending them. GET requests, e.g. to resolve names to UUIDs, are still sent.',
+			},
+			{
+				displayName: 'Concurrency',
+				name: 'concurrency',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+					maxValue: 32,
+				},
+				default: 1,
+				description: 'How many input items to process at the same time, e.g. for bulk provisioning or operations that wait on jobs. Output order and item pairing are kept.',
+			},
+			{
+				displayName: 'Allow Destructive Operations for AI Agents',
+				name: 'allowDestructiveToolOperations',
+				type: 'boolean',
+				default: false,
+				description: 'Whether an AI agent using this node as a tool may run operations that remove or overwrite data or cut access, such as delete, lock, set password and removing privileges. Has no effect in regular workflows.',
 			},
 			// Resource Selection
 			{
@@ -74,6 +155,11 @@ export class NetAppOntapSecurity implements INodeType {
 						value: 'certificate',
 						description: 'Manage security certificates',
 					},
+					{
+						name: 'Custom API Call',
+						value: 'customApiCall',
+						description: 'Call any ONTAP REST API endpoint',
+					},
 					{
 						name: 'Key Manager',
 						value: 'keyManager',
@@ -169,7 +255,7 @@ export class NetAppOntapSecurity implements INodeType {
 				displayName: 'Account',
 				name: 'accountId',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -177,12 +263,23 @@ export class NetAppOntapSecurity implements INodeType {
 						operation: ['get', 'update', 'delete', 'lock', 'unlock', 'setPassword'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchAccounts',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 					},
 				],
+				description: 'User account to use, by name',
 			},
 
 			// Account Create Fields
@@ -198,12 +295,13 @@ export class NetAppOntapSecurity implements INodeType {
 						operation: ['create'],
 					},
 				},
+				description: 'Name the new user logs in with',
 			},
 			{
 				displayName: 'Owner',
 				name: 'accountOwner',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -212,7 +310,17 @@ export class NetAppOntapSecurity implements INodeType {
 					},
 				},
 				description: 'Cluster or SVM that owns this account',
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchOwners',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
@@ -223,7 +331,7 @@ export class NetAppOntapSecurity implements INodeType {
 				displayName: 'Role',
 				name: 'accountRole',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -231,12 +339,23 @@ export class NetAppOntapSecurity implements INodeType {
 						operation: ['create'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchRoleNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 					},
 				],
+				description: 'Role that decides what the account may do',
 			},
 			{
 				displayName: 'Applications',
@@ -258,6 +377,7 @@ export class NetAppOntapSecurity implements INodeType {
 						operation: ['create'],
 					},
 				},
+				description: 'Applications the user may log in with',
 			},
 			{
 				displayName: 'Authentication Method',
@@ -282,6 +402,7 @@ export class NetAppOntapSecurity implements INodeType {
 						operation: ['create'],
 					},
 				},
+				description: 'How the user proves their identity for the selected applications',
 			},
 
 			// Account Create Options
@@ -303,6 +424,7 @@ export class NetAppOntapSecurity implements INodeType {
 						name: 'comment',
 						type: 'string',
 						default: '',
+						description: 'Comment stored with the account',
 					},
 					{
 						displayName: 'Locked',
@@ -362,6 +484,7 @@ export class NetAppOntapSecurity implements INodeType {
 						operation: ['setPassword'],
 					},
 				},
+				description: 'New password for the account',
 			},
 
 			// Account Update Fields
@@ -383,18 +506,30 @@ export class NetAppOntapSecurity implements INodeType {
 						name: 'comment',
 						type: 'string',
 						default: '',
+						description: 'New comment for the account',
 					},
 					{
 						displayName: 'Role',
 						name: 'role',
 						type: 'resourceLocator',
-						default: { mode: 'name', value: '' },
-						modes: [							{
+						default: { mode: 'list', value: '' },
+						modes: [
+							{
+								displayName: 'From List',
+								name: 'list',
+								type: 'list',
+								typeOptions: {
+									searchListMethod: 'searchRoleNames',
+									searchable: true,
+								},
+							},
+							{
 								displayName: 'By Name',
 								name: 'name',
 								type: 'string',
 							},
 						],
+						description: 'Role that decides what the account may do',
 					},
 				],
 			},
@@ -458,7 +593,7 @@ export class NetAppOntapSecurity implements INodeType {
 				displayName: 'Role',
 				name: 'roleId',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -466,12 +601,23 @@ export class NetAppOntapSecurity implements INodeType {
 						operation: ['get', 'delete', 'addPrivilege', 'removePrivilege'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchRoles',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 					},
 				],
+				description: 'Role to use, by name',
 			},
 
 			// Role Create Fields
@@ -487,12 +633,13 @@ export class NetAppOntapSecurity implements INodeType {
 						operation: ['create'],
 					},
 				},
+				description: 'Name of the new role',
 			},
 			{
 				displayName: 'Owner',
 				name: 'roleOwner',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -500,12 +647,23 @@ export class NetAppOntapSecurity implements INodeType {
 						operation: ['create'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchOwners',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 					},
 				],
+				description: 'SVM that owns the role, pick the cluster SVM for a cluster-wide role',
 			},
 
 			// Role Privilege Fields
@@ -541,6 +699,7 @@ export class NetAppOntapSecurity implements INodeType {
 						operation: ['addPrivilege'],
 					},
 				},
+				description: 'Access the role gets to the REST API path',
 			},
 
 			// ===================
@@ -608,7 +767,7 @@ export class NetAppOntapSecurity implements INodeType {
 				displayName: 'Certificate',
 				name: 'certificateId',
 				type: 'resourceLocator',
-				default: { mode: 'uuid', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -616,12 +775,23 @@ export class NetAppOntapSecurity implements INodeType {
 						operation: ['get', 'delete', 'sign'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchCertificates',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By UUID',
 						name: 'uuid',
 						type: 'string',
 					},
 				],
+				description: 'Certificate to use, by UUID',
 			},
 
 			// Certificate Create Fields
@@ -638,6 +808,7 @@ export class NetAppOntapSecurity implements INodeType {
 					},
 				},
 				placeholder: 'cluster.example.com',
+				description: 'Common name of the certificate subject, usually the host name of the cluster',
 			},
 			{
 				displayName: 'Certificate Type',
@@ -658,12 +829,13 @@ export class NetAppOntapSecurity implements INodeType {
 						operation: ['createSelfSigned', 'createCsr'],
 					},
 				},
+				description: 'What the certificate is used for',
 			},
 			{
 				displayName: 'SVM',
 				name: 'certSvm',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				displayOptions: {
 					show: {
 						resource: ['certificate'],
@@ -671,7 +843,17 @@ export class NetAppOntapSecurity implements INodeType {
 					},
 				},
 				description: 'SVM scope (leave empty for cluster-scoped)',
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchSvmNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
@@ -699,18 +881,21 @@ export class NetAppOntapSecurity implements INodeType {
 						type: 'string',
 						default: '',
 						placeholder: 'US',
+						description: 'Two-letter country code of the certificate subject',
 					},
 					{
 						displayName: 'Email',
 						name: 'email',
 						type: 'string',
 						default: '',
+						description: 'Email address of the certificate subject',
 					},
 					{
 						displayName: 'Expiry Days',
 						name: 'expiryDays',
 						type: 'number',
 						default: 365,
+						description: 'Number of days the certificate is valid for',
 					},
 					{
 						displayName: 'Hash Function',
@@ -722,6 +907,7 @@ export class NetAppOntapSecurity implements INodeType {
 							{ name: 'SHA512', value: 'sha512' },
 						],
 						default: 'sha256',
+						description: 'Hash function used to sign the certificate',
 					},
 					{
 						displayName: 'Key Size',
@@ -733,6 +919,7 @@ export class NetAppOntapSecurity implements INodeType {
 							{ name: '4096', value: 4096 },
 						],
 						default: 2048,
+						description: 'Size of the RSA key in bits',
 					},
 					{
 						displayName: 'Locality',
@@ -740,12 +927,14 @@ export class NetAppOntapSecurity implements INodeType {
 						type: 'string',
 						default: '',
 						placeholder: 'San Jose',
+						description: 'City of the certificate subject',
 					},
 					{
 						displayName: 'Organization',
 						name: 'organization',
 						type: 'string',
 						default: '',
+						description: 'Organization of the certificate subject',
 					},
 					{
 						displayName: 'State',
@@ -753,6 +942,7 @@ export class NetAppOntapSecurity implements INodeType {
 						type: 'string',
 						default: '',
 						placeholder: 'California',
+						description: 'State or province of the certificate subject',
 					},
 					{
 						displayName: 'Unit',
@@ -779,6 +969,7 @@ export class NetAppOntapSecurity implements INodeType {
 					},
 				},
 				placeholder: '-----BEGIN CERTIFICATE-----\n...',
+				description: 'Certificate to install, PEM encoded',
 			},
 			{
 				displayName: 'Private Key PEM',
@@ -813,6 +1004,7 @@ export class NetAppOntapSecurity implements INodeType {
 						operation: ['install'],
 					},
 				},
+				description: 'What the certificate is used for',
 			},
 
 			// Certificate Sign Fields (for CA)
@@ -830,6 +1022,7 @@ export class NetAppOntapSecurity implements INodeType {
 					},
 				},
 				placeholder: '-----BEGIN CERTIFICATE REQUEST-----\n...',
+				description: 'Certificate signing request to sign, PEM encoded',
 			},
 			{
 				displayName: 'Expiry Days',
@@ -842,6 +1035,7 @@ export class NetAppOntapSecurity implements INodeType {
 						operation: ['sign'],
 					},
 				},
+				description: 'Number of days the signed certificate is valid for',
 			},
 
 			// ===================
@@ -903,7 +1097,7 @@ export class NetAppOntapSecurity implements INodeType {
 				displayName: 'Key Manager',
 				name: 'keyManagerId',
 				type: 'resourceLocator',
-				default: { mode: 'uuid', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -911,12 +1105,23 @@ export class NetAppOntapSecurity implements INodeType {
 						operation: ['get', 'delete', 'sync'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchKeyManagers',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By UUID',
 						name: 'uuid',
 						type: 'string',
 					},
 				],
+				description: 'Key manager to use, by UUID',
 			},
 
 			// External Key Manager Fields
@@ -933,12 +1138,13 @@ export class NetAppOntapSecurity implements INodeType {
 					},
 				},
 				placeholder: 'kmip.example.com:5696',
+				description: 'Host name or IP address of the KMIP server, optionally followed by the port',
 			},
 			{
 				displayName: 'Client Certificate',
 				name: 'kmipClientCert',
 				type: 'resourceLocator',
-				default: { mode: 'uuid', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -946,18 +1152,29 @@ export class NetAppOntapSecurity implements INodeType {
 						operation: ['configureExternal'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchCertificates',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By UUID',
 						name: 'uuid',
 						type: 'string',
 					},
 				],
+				description: 'Client certificate the cluster presents to the KMIP server',
 			},
 			{
 				displayName: 'Server CA Certificates',
 				name: 'kmipServerCaCerts',
 				type: 'resourceLocator',
-				default: { mode: 'uuid', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -965,12 +1182,23 @@ export class NetAppOntapSecurity implements INodeType {
 						operation: ['configureExternal'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchCertificates',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By UUID',
 						name: 'uuid',
 						type: 'string',
 					},
 				],
+				description: 'CA certificate used to verify the KMIP server',
 			},
 
 			// Onboard Key Manager Fields
@@ -1046,6 +1274,7 @@ export class NetAppOntapSecurity implements INodeType {
 							{ name: 'AES256-GCM', value: 'aes256_gcm' },
 						],
 						default: [],
+						description: 'Encryption algorithms the SSH server accepts',
 					},
 					{
 						displayName: 'Key Exchange Algorithms',
@@ -1059,6 +1288,7 @@ export class NetAppOntapSecurity implements INodeType {
 							{ name: 'ECDH-SHA2-NISTP521', value: 'ecdh_sha2_nistp521' },
 						],
 						default: [],
+						description: 'Key exchange algorithms the SSH server accepts',
 					},
 					{
 						displayName: 'MAC Algorithms',
@@ -1072,12 +1302,14 @@ export class NetAppOntapSecurity implements INodeType {
 							{ name: 'HMAC-SHA2-512-ETM', value: 'hmac_sha2_512_etm' },
 						],
 						default: [],
+						description: 'MAC algorithms the SSH server accepts',
 					},
 					{
 						displayName: 'Max Authentication Retry',
 						name: 'maxAuthenticationRetry',
 						type: 'number',
 						default: 3,
+						description: 'Number of failed login attempts allowed before the connection is closed',
 					},
 					{
 						displayName: 'Per Source Limit',
@@ -1198,7 +1430,7 @@ export class NetAppOntapSecurity implements INodeType {
 				displayName: 'SVM',
 				name: 'loginMessagesSvm',
 				type: 'resourceLocator',
-				default: { mode: 'uuid', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -1206,12 +1438,23 @@ export class NetAppOntapSecurity implements INodeType {
 						operation: ['get', 'update'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchLoginMessages',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By UUID',
 						name: 'uuid',
 						type: 'string',
 					},
 				],
+				description: 'Login banner and message of the day to use, by the UUID of their record. The cluster and each SVM have their own.',
 			},
 
 			// Login Messages Update Fields
@@ -1254,6 +1497,24 @@ export class NetAppOntapSecurity implements INodeType {
 				],
 			},
 
+			// ===================
+			// JOB OPTIONS
+			// ===================
+			...jobOptionsProperties({
+				account: ['create', 'update', 'lock', 'unlock', 'setPassword'],
+				role: ['create', 'addPrivilege'],
+				certificate: ['createSelfSigned', 'createCsr', 'install', 'sign'],
+				keyManager: ['configureExternal', 'configureOnboard', 'sync'],
+				ssh: ['update'],
+				audit: ['update'],
+				loginMessages: ['update'],
+			}),
+
+			// ===================
+			// CUSTOM API CALL
+			// ===================
+			...customApiCallProperties,
+
 			// Common Filters
 			{
 				displayName: 'Filters',
@@ -1273,8 +1534,9 @@ export class NetAppOntapSecurity implements INodeType {
 						type: 'string',
 						default: '',
 						placeholder: 'type=rw,state=!offline',
-						description: 'ONTAP API filter expression. Format: field=value,field2=value2. Supports operators: =, !=, <, >, <=, >=, *, |',
+						description: 'ONTAP API filter expression. Format: field=value,field2=value2. Supports operators: =, !=, <, >, <=, >=, *, |. Quote a value to keep a comma followed by field= in it.',
 					},
+					filterConditionsOption,
 					{
 						displayName: 'Return All',
 						name: 'returnAll',
@@ -1297,6 +1559,7 @@ export class NetAppOntapSecurity implements INodeType {
 							},
 						},
 					},
+					...listControlOptions,
 				],
 			},
 
@@ -1308,34 +1571,128 @@ export class NetAppOntapSecurity implements INodeType {
 				placeholder: 'Add Option',
 				default: {},
 				options: [
-					{
-						displayName: 'Fields',
-						name: 'fields',
-						type: 'string',
-						default: '',
-						description: 'Comma-separated list of fields to include (use * for all)',
-					},
+					fieldsOption,
 				],
 			},
 		],
 	};
 
-	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
-		const items = this.getInputData();
-		const returnData: INodeExecutionData[] = [];
+	methods = {
+		loadOptions: {
+			async getFields(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				return getCatalogFieldOptions.call(this, FIELD_CATALOG_COLLECTIONS);
+			},
+		},
+		listSearch: {
+			async searchAccounts(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/security/accounts', filter, paginationToken, {
+					valueField: 'owner.uuid',
+					fields: ['owner.name'],
+					getName: (record) => `${record.name} (${(record.owner as IDataObject)?.name})`,
+					getValue: (record) => `${(record.owner as IDataObject)?.uuid}/${record.name}`,
+				});
+			},
+			async searchCertificates(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/security/certificates', filter, paginationToken, {
+					fields: ['type'],
+					getName: (record) => `${record.name} (${record.type})`,
+				});
+			},
+			async searchKeyManagers(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/security/key-managers', filter, paginationToken, {
+					nameField: 'scope',
+					filterField: null,
+					fields: ['svm.name'],
+					getName: (record) => `${(record.svm as IDataObject)?.name || 'Cluster'} (${record.scope})`,
+				});
+			},
+			async searchLoginMessages(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/security/login/messages', filter, paginationToken, {
+					nameField: 'scope',
+					filterField: 'svm.name',
+					fields: ['svm.name'],
+					getName: (record) => ((record.svm as IDataObject)?.name as string) || 'Cluster',
+				});
+			},
+			async searchOwners(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				const result = await ontapListSearch.call(this, '/svm/svms', filter, paginationToken);
+				// Cluster-scoped accounts and roles are owned by the admin SVM, which
+				// shares the cluster UUID and is not returned by /svm/svms
+				if (!paginationToken) {
+					const cluster = await ontapApiRequest.call(this, 'GET', '/cluster', {}, { fields: 'name,uuid' });
+					const clusterName = cluster.name as string;
+					if (!filter || clusterName.toLowerCase().includes(filter.toLowerCase())) {
+						result.results.unshift({ name: `${clusterName} (cluster)`, value: cluster.uuid as string });
+					}
+				}
+				return result;
+			},
+			async searchRoleNames(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/security/roles', filter, paginationToken, {
+					valueField: 'name',
+					fields: ['owner.name'],
+					getName: (record) => `${record.name} (${(record.owner as IDataObject)?.name})`,
+				});
+			},
+			async searchRoles(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/security/roles', filter, paginationToken, {
+					valueField: 'owner.uuid',
+					fields: ['owner.name'],
+					getName: (record) => `${record.name} (${(record.owner as IDataObject)?.name})`,
+					getValue: (record) => `${(record.owner as IDataObject)?.uuid}/${record.name}`,
+				});
+			},
+			async searchSvmNames(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/svm/svms', filter, paginationToken, { valueField: 'name' });
+			},
+		},
+	};
 
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const resource = this.getNodeParameter('resource', 0) as string;
 		const operation = this.getNodeParameter('operation', 0) as string;
-
-		for (let i = 0; i < items.length; i++) {
+		const returnData = await processItems.call(this, async (i) => {
 			try {
+				assertToolOperationAllowed.call(this, DESTRUCTIVE_TOOL_OPERATIONS, i);
 				let responseData: IDataObject | IDataObject[] = {};
 				const options = this.getNodeParameter('options', i, {}) as IDataObject;
 				const qs: IDataObject = {};
+				const jobOptions = getJobOptions.call(this, i);
 
-				if (options.fields) {
-					qs.fields = options.fields;
-				}
+				Object.assign(qs, buildFieldsQuery(options.fields as string | string[] | undefined));
+				await assertOntapFieldVersions.call(this, MINIMUM_ONTAP_FIELD_VERSIONS, resource, options.fields as string | string[] | undefined, i);
 
 				// ========== ACCOUNT ==========
 				if (resource === 'account') {
@@ -1343,9 +1700,7 @@ export class NetAppOntapSecurity implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -1384,7 +1739,7 @@ export class NetAppOntapSecurity implements INodeType {
 						if (createOptions.password) body.password = createOptions.password;
 
 						const response = await ontapApiRequest.call(this, 'POST', '/security/accounts', cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 
 						// Add public key if provided
 						if (createOptions.publicKey && authMethod === 'publickey') {
@@ -1406,7 +1761,7 @@ export class NetAppOntapSecurity implements INodeType {
 						}
 
 						const response = await ontapApiRequest.call(this, 'PATCH', `/security/accounts/${ownerUuid}/${accountName}`, cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'delete') {
 						const acctLocator = this.getNodeParameter('accountId', i) as { mode: string; value: string };
 						const [ownerUuid, accountName] = acctLocator.value.split('/');
@@ -1418,20 +1773,20 @@ export class NetAppOntapSecurity implements INodeType {
 						const [ownerUuid, accountName] = acctLocator.value.split('/');
 
 						const response = await ontapApiRequest.call(this, 'PATCH', `/security/accounts/${ownerUuid}/${accountName}`, { locked: true });
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'unlock') {
 						const acctLocator = this.getNodeParameter('accountId', i) as { mode: string; value: string };
 						const [ownerUuid, accountName] = acctLocator.value.split('/');
 
 						const response = await ontapApiRequest.call(this, 'PATCH', `/security/accounts/${ownerUuid}/${accountName}`, { locked: false });
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'setPassword') {
 						const acctLocator = this.getNodeParameter('accountId', i) as { mode: string; value: string };
 						const [ownerUuid, accountName] = acctLocator.value.split('/');
 						const newPassword = this.getNodeParameter('newPassword', i) as string;
 
 						const response = await ontapApiRequest.call(this, 'PATCH', `/security/accounts/${ownerUuid}/${accountName}`, { password: newPassword });
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 						if (!responseData.job) {
 							responseData = { success: true, message: 'Password updated' };
 						}
@@ -1444,9 +1799,7 @@ export class NetAppOntapSecurity implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -1469,7 +1822,7 @@ export class NetAppOntapSecurity implements INodeType {
 						};
 
 						const response = await ontapApiRequest.call(this, 'POST', '/security/roles', body);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'delete') {
 						const roleLocator = this.getNodeParameter('roleId', i) as { mode: string; value: string };
 						const [ownerUuid, roleName] = roleLocator.value.split('/');
@@ -1486,7 +1839,7 @@ export class NetAppOntapSecurity implements INodeType {
 							path,
 							access,
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'removePrivilege') {
 						const roleLocator = this.getNodeParameter('roleId', i) as { mode: string; value: string };
 						const [ownerUuid, roleName] = roleLocator.value.split('/');
@@ -1503,9 +1856,7 @@ export class NetAppOntapSecurity implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -1543,7 +1894,7 @@ export class NetAppOntapSecurity implements INodeType {
 						if (createOptions.email) body.email = createOptions.email;
 
 						const response = await ontapApiRequest.call(this, 'POST', '/security/certificates', cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'createCsr') {
 						const commonName = this.getNodeParameter('certCommonName', i) as string;
 						const certType = this.getNodeParameter('certType', i) as string;
@@ -1570,7 +1921,7 @@ export class NetAppOntapSecurity implements INodeType {
 						if (createOptions.email) body.email = createOptions.email;
 
 						const response = await ontapApiRequest.call(this, 'POST', '/security/certificates', cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'install') {
 						const certPem = this.getNodeParameter('certPem', i) as string;
 						const certType = this.getNodeParameter('installCertType', i) as string;
@@ -1591,7 +1942,7 @@ export class NetAppOntapSecurity implements INodeType {
 						}
 
 						const response = await ontapApiRequest.call(this, 'POST', '/security/certificates', cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'sign') {
 						const certLocator = this.getNodeParameter('certificateId', i) as { mode: string; value: string };
 						const csrToSign = this.getNodeParameter('csrToSign', i) as string;
@@ -1601,7 +1952,7 @@ export class NetAppOntapSecurity implements INodeType {
 							signing_request: csrToSign,
 							expiry_time: `P${expiryDays}D`,
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'delete') {
 						const certLocator = this.getNodeParameter('certificateId', i) as { mode: string; value: string };
 
@@ -1616,9 +1967,7 @@ export class NetAppOntapSecurity implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -1644,7 +1993,7 @@ export class NetAppOntapSecurity implements INodeType {
 						};
 
 						const response = await ontapApiRequest.call(this, 'POST', '/security/key-managers', body);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'configureOnboard') {
 						const passphrase = this.getNodeParameter('onboardPassphrase', i) as string;
 
@@ -1655,7 +2004,7 @@ export class NetAppOntapSecurity implements INodeType {
 						};
 
 						const response = await ontapApiRequest.call(this, 'POST', '/security/key-managers', body);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'sync') {
 						const kmLocator = this.getNodeParameter('keyManagerId', i) as { mode: string; value: string };
 						const passphrase = this.getNodeParameter('onboardPassphrase', i) as string;
@@ -1663,7 +2012,7 @@ export class NetAppOntapSecurity implements INodeType {
 						const response = await ontapApiRequest.call(this, 'PATCH', `/security/key-managers/${kmLocator.value}`, {
 							onboard: { synchronize: true, passphrase },
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'delete') {
 						const kmLocator = this.getNodeParameter('keyManagerId', i) as { mode: string; value: string };
 
@@ -1694,8 +2043,9 @@ export class NetAppOntapSecurity implements INodeType {
 							body.connections_per_second = updateFields.perSourceLimit;
 						}
 
+						await assertOntapFieldVersions.call(this, MINIMUM_ONTAP_FIELD_VERSIONS, resource, Object.keys(body), i);
 						const response = await ontapApiRequest.call(this, 'PATCH', '/security/ssh', cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					}
 				}
 
@@ -1712,7 +2062,7 @@ export class NetAppOntapSecurity implements INodeType {
 						if (updateFields.ontapiGet !== undefined) body.ontapi = { get: updateFields.ontapiGet };
 
 						const response = await ontapApiRequest.call(this, 'PATCH', '/security/audit', cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					}
 				}
 
@@ -1722,9 +2072,7 @@ export class NetAppOntapSecurity implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -1748,23 +2096,29 @@ export class NetAppOntapSecurity implements INodeType {
 						}
 
 						const response = await ontapApiRequest.call(this, 'PATCH', `/security/login/messages/${svmLocator.value}`, cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					}
 				}
 
+				// ========== CUSTOM API CALL ==========
+				else if (resource === 'customApiCall') {
+					responseData = await executeCustomApiCall.call(this, i, qs);
+				}
+
+				responseData = getDryRunOutput.call(this, responseData);
+
 				const executionData = this.helpers.constructExecutionMetaData(
 					this.helpers.returnJsonArray(responseData as IDataObject[]),
 					{ itemData: { item: i } },
 				);
-				returnData.push(...executionData);
+				return executionData;
 			} catch (error) {
 				if (this.continueOnFail()) {
-					returnData.push({ json: { error: (error as Error).message }, pairedItem: { item: i } });
-					continue;
+					return [{ json: getErrorOutput(error as Error), pairedItem: { item: i } }];
 				}
 				throw error;
 			}
-		}
+		});
 
 		return [returnData];
 	}
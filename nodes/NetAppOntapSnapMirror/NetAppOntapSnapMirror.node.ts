@@ -4,15 +4,59 @@ import type {
 	INodeExecutionData,
 	INodeType,
 	INodeTypeDescription,
+	ILoadOptionsFunctions,
+	INodeListSearchResult,
+	INodePropertyOptions,
 } from 'n8n-workflow';
 
 import {
 	ontapApiRequest,
 	ontapApiRequestAllItems,
 	handleAsyncResponse,
+	getJobOptions,
 	cleanObject,
-	parseApiFilters,
+	getFilterQuery,
+	ontapListSearch,
+	executeCustomApiCall,
+	getErrorOutput,
+	getDryRunOutput,
+	processItems,
+	assertOntapVersion,
+	buildFieldsQuery,
+	getCatalogFieldOptions,
+	assertToolOperationAllowed,
 } from '../shared/GenericFunctions';
+import { customApiCallProperties } from '../shared/CustomApiCallDescription';
+import { fieldsOption } from '../shared/FieldsDescription';
+import { filterConditionsOption, listControlOptions } from '../shared/FilterDescription';
+import { jobOptionsProperties } from '../shared/JobOptionsDescription';
+import type { OntapMinimumVersions, OntapToolOperations } from '../shared/types';
+
+/**
+ * Operations that need a newer ONTAP release than the rest of the node
+ */
+const MINIMUM_ONTAP_VERSIONS: OntapMinimumVersions = {
+	relationship: { restore: '9.8' },
+};
+
+/**
+ * Operations that remove or overwrite data or cut access, which an AI agent
+ * may only run when the node allows destructive operations
+ */
+const DESTRUCTIVE_TOOL_OPERATIONS: OntapToolOperations = {
+	relationship: ['abort', 'break', 'delete', 'release', 'restore', 'resync', 'reverseResync'],
+	transfer: ['abort'],
+	policy: ['delete'],
+};
+
+/**
+ * Field catalog collection of each resource, for the "Fields" option
+ */
+const FIELD_CATALOG_COLLECTIONS: Record<string, string> = {
+	policy: '/snapmirror/policies',
+	relationship: '/snapmirror/relationships',
+	transfer: '/snapmirror/relationships/{relationship.uuid}/transfers',
+};
 
 export class NetAppOntapSnapMirror implements INodeType {
 	description: INodeTypeDescription = {
@@ -28,6 +72,7 @@ export class NetAppOntapSnapMirror implements INodeType {
 		},
 		inputs: ['main'],
 		outputs: ['main'],
+		usableAsTool: true,
 		credentials: [
 			{
 				name: 'netAppOntapApi',
@@ -42,15 +87,39 @@ export class NetAppOntapSnapMirror implements INodeType {
 				type: 'string',
 				default: '',
 				placeholder: 'cluster.example.com',
-				description: 'The hostname or IP address of the ONTAP cluster management LIF',
-				required: true,
+				description: 'The hostname or IP address of the ONTAP cluster management LIF. Leave empty to use the cluster host from the credential.',
 			},
 			{
 				displayName: 'Port',
 				name: 'clusterPort',
 				type: 'number',
 				default: 443,
-				description: 'HTTPS port for the ONTAP REST API',
+				description: 'HTTPS port for the ONTAP REST API. Only used when Cluster Host is set on the node.',
+			},
+			{
+				displayName: 'Dry Run',
+				name: 'dryRun',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to return the POST, PATCH and DELETE requests the node would send instead of sending them. GET requests, e.g. to resolve names to UUIDs, are still sent.',
+			},
+			{
+				displayName: 'Concurrency',
+				name: 'concurrency',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+					maxValue: 32,
+				},
+				default: 1,
+				description: 'How many input items to process at the same time, e.g. for bulk provisioning or operations that wait on jobs. Output order and item pairing are kept.',
+			},
+			{
+				displayName: 'Allow Destructive Operations for AI Agents',
+				name: 'allowDestructiveToolOperations',
+				type: 'boolean',
+				default: false,
+				description: 'Whether an AI agent using this node as a tool may run operations that remove or overwrite data or cut access, such as delete, break, resync and restore. Has no effect in regular workflows.',
 			},
 			// Resource Selection
 			{
@@ -59,6 +128,11 @@ export class NetAppOntapSnapMirror implements INodeType {
 				type: 'options',
 				noDataExpression: true,
 				options: [
+					{
+						name: 'Custom API Call',
+						value: 'customApiCall',
+						description: 'Call any ONTAP REST API endpoint',
+					},
 					{
 						name: 'Policy',
 						value: 'policy',
@@ -185,7 +259,7 @@ export class NetAppOntapSnapMirror implements INodeType {
 				displayName: 'Relationship',
 				name: 'relationshipId',
 				type: 'resourceLocator',
-				default: { mode: 'uuid', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -193,12 +267,23 @@ export class NetAppOntapSnapMirror implements INodeType {
 						operation: ['get', 'delete', 'initialize', 'update', 'break', 'quiesce', 'resume', 'resync', 'abort', 'restore', 'reverseResync', 'release'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchRelationships',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By UUID',
 						name: 'uuid',
 						type: 'string',
 					},
 				],
+				description: 'SnapMirror relationship to use, by UUID',
 			},
 
 			// Relationship Create Fields
@@ -206,7 +291,7 @@ export class NetAppOntapSnapMirror implements INodeType {
 				displayName: 'Source SVM',
 				name: 'sourceSvm',
 				type: 'resourceLocator',
-				default: { mode: 'uuid', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -214,12 +299,23 @@ export class NetAppOntapSnapMirror implements INodeType {
 						operation: ['create'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchSvmNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 					},
 				],
+				description: 'SVM that holds the source volume',
 			},
 			{
 				displayName: 'Source Path',
@@ -240,7 +336,7 @@ export class NetAppOntapSnapMirror implements INodeType {
 				displayName: 'Destination SVM',
 				name: 'destSvm',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -248,12 +344,23 @@ export class NetAppOntapSnapMirror implements INodeType {
 						operation: ['create'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchSvmNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 					},
 				],
+				description: 'SVM that holds the destination volume',
 			},
 			{
 				displayName: 'Destination Path',
@@ -322,25 +429,47 @@ export class NetAppOntapSnapMirror implements INodeType {
 						displayName: 'Policy',
 						name: 'policy',
 						type: 'resourceLocator',
-						default: { mode: 'name', value: '' },
-						modes: [							{
+						default: { mode: 'list', value: '' },
+						modes: [
+							{
+								displayName: 'From List',
+								name: 'list',
+								type: 'list',
+								typeOptions: {
+									searchListMethod: 'searchPolicyNames',
+									searchable: true,
+								},
+							},
+							{
 								displayName: 'By Name',
 								name: 'name',
 								type: 'string',
 							},
 						],
+						description: 'SnapMirror policy the relationship uses, the ONTAP default applies when empty',
 					},
 					{
 						displayName: 'Schedule',
 						name: 'schedule',
 						type: 'resourceLocator',
-						default: { mode: 'name', value: '' },
-						modes: [							{
+						default: { mode: 'list', value: '' },
+						modes: [
+							{
+								displayName: 'From List',
+								name: 'list',
+								type: 'list',
+								typeOptions: {
+									searchListMethod: 'searchScheduleNames',
+									searchable: true,
+								},
+							},
+							{
 								displayName: 'By Name',
 								name: 'name',
 								type: 'string',
 							},
 						],
+						description: 'Schedule the relationship is updated on, leave empty to update it manually',
 					},
 				],
 			},
@@ -423,19 +552,30 @@ export class NetAppOntapSnapMirror implements INodeType {
 				displayName: 'Relationship',
 				name: 'transferRelationship',
 				type: 'resourceLocator',
-				default: { mode: 'uuid', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
 						resource: ['transfer'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchRelationships',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By UUID',
 						name: 'uuid',
 						type: 'string',
 					},
 				],
+				description: 'Relationship the transfers belong to',
 			},
 
 			// Transfer ID
@@ -451,6 +591,7 @@ export class NetAppOntapSnapMirror implements INodeType {
 						operation: ['get', 'abort'],
 					},
 				},
+				description: 'UUID of the SnapMirror transfer',
 			},
 
 			// Transfer Start Options
@@ -537,7 +678,7 @@ export class NetAppOntapSnapMirror implements INodeType {
 				displayName: 'Policy',
 				name: 'policyId',
 				type: 'resourceLocator',
-				default: { mode: 'uuid', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -545,12 +686,23 @@ export class NetAppOntapSnapMirror implements INodeType {
 						operation: ['get', 'update', 'delete'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchPolicies',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By UUID',
 						name: 'uuid',
 						type: 'string',
 					},
 				],
+				description: 'SnapMirror policy to use, by UUID',
 			},
 
 			// Policy Create Fields
@@ -566,12 +718,13 @@ export class NetAppOntapSnapMirror implements INodeType {
 						operation: ['create'],
 					},
 				},
+				description: 'Name of the new SnapMirror policy',
 			},
 			{
 				displayName: 'SVM',
 				name: 'policySvm',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				displayOptions: {
 					show: {
 						resource: ['policy'],
@@ -579,7 +732,17 @@ export class NetAppOntapSnapMirror implements INodeType {
 					},
 				},
 				description: 'SVM for the policy (leave empty for cluster-scoped)',
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchSvmNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
@@ -602,6 +765,7 @@ export class NetAppOntapSnapMirror implements INodeType {
 						operation: ['create'],
 					},
 				},
+				description: 'Whether the policy replicates asynchronously on a schedule or synchronously',
 			},
 
 			// Policy Create Options
@@ -623,6 +787,7 @@ export class NetAppOntapSnapMirror implements INodeType {
 						name: 'comment',
 						type: 'string',
 						default: '',
+						description: 'Comment stored with the policy',
 					},
 					{
 						displayName: 'Identity Preservation',
@@ -634,19 +799,31 @@ export class NetAppOntapSnapMirror implements INodeType {
 							{ name: 'Full', value: 'full' },
 						],
 						default: 'exclude_network_config',
+						description: 'How much of the SVM configuration an SVM DR relationship copies to the destination',
 					},
 					{
 						displayName: 'Network Compression Enabled',
 						name: 'networkCompressionEnabled',
 						type: 'boolean',
 						default: false,
+						description: 'Whether transfers are compressed on the network',
 					},
 					{
 						displayName: 'Sync Common Snapshot Schedule',
 						name: 'syncCommonSnapshotSchedule',
 						type: 'resourceLocator',
-						default: { mode: 'name', value: '' },
-						modes: [							{
+						default: { mode: 'list', value: '' },
+						modes: [
+							{
+								displayName: 'From List',
+								name: 'list',
+								type: 'list',
+								typeOptions: {
+									searchListMethod: 'searchScheduleNames',
+									searchable: true,
+								},
+							},
+							{
 								displayName: 'By Name',
 								name: 'name',
 								type: 'string',
@@ -678,13 +855,24 @@ export class NetAppOntapSnapMirror implements INodeType {
 						displayName: 'Transfer Schedule',
 						name: 'transferSchedule',
 						type: 'resourceLocator',
-						default: { mode: 'name', value: '' },
-						modes: [							{
+						default: { mode: 'list', value: '' },
+						modes: [
+							{
+								displayName: 'From List',
+								name: 'list',
+								type: 'list',
+								typeOptions: {
+									searchListMethod: 'searchScheduleNames',
+									searchable: true,
+								},
+							},
+							{
 								displayName: 'By Name',
 								name: 'name',
 								type: 'string',
 							},
 						],
+						description: 'Schedule that triggers the transfers of relationships using the policy',
 					},
 				],
 			},
@@ -708,22 +896,39 @@ export class NetAppOntapSnapMirror implements INodeType {
 						name: 'comment',
 						type: 'string',
 						default: '',
+						description: 'New comment for the policy',
 					},
 					{
 						displayName: 'Network Compression Enabled',
 						name: 'networkCompressionEnabled',
 						type: 'boolean',
 						default: false,
+						description: 'Whether transfers are compressed on the network',
 					},
 					{
 						displayName: 'Throttle (KB/s)',
 						name: 'throttle',
 						type: 'number',
 						default: 0,
+						description: 'Maximum transfer rate (0 for unlimited)',
 					},
 				],
 			},
 
+			// ===================
+			// JOB OPTIONS
+			// ===================
+			...jobOptionsProperties({
+				relationship: ['create', 'delete', 'initialize', 'update', 'break', 'quiesce', 'resume', 'resync', 'reverseResync', 'abort', 'restore', 'release'],
+				transfer: ['start', 'abort'],
+				policy: ['create', 'update', 'delete'],
+			}),
+
+			// ===================
+			// CUSTOM API CALL
+			// ===================
+			...customApiCallProperties,
+
 			// Common Filters
 			{
 				displayName: 'Filters',
@@ -743,8 +948,9 @@ export class NetAppOntapSnapMirror implements INodeType {
 						type: 'string',
 						default: '',
 						placeholder: 'type=rw,state=!offline',
-						description: 'ONTAP API filter expression. Format: field=value,field2=value2. Supports operators: =, !=, <, >, <=, >=, *, |',
+						description: 'ONTAP API filter expression. Format: field=value,field2=value2. Supports operators: =, !=, <, >, <=, >=, *, |. Quote a value to keep a comma followed by field= in it.',
 					},
+					filterConditionsOption,
 					{
 						displayName: 'Return All',
 						name: 'returnAll',
@@ -767,6 +973,7 @@ export class NetAppOntapSnapMirror implements INodeType {
 							},
 						},
 					},
+					...listControlOptions,
 				],
 			},
 
@@ -778,34 +985,74 @@ export class NetAppOntapSnapMirror implements INodeType {
 				placeholder: 'Add Option',
 				default: {},
 				options: [
-					{
-						displayName: 'Fields',
-						name: 'fields',
-						type: 'string',
-						default: '',
-						description: 'Comma-separated list of fields to include (use * for all)',
-					},
+					fieldsOption,
 				],
 			},
 		],
 	};
 
-	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
-		const items = this.getInputData();
-		const returnData: INodeExecutionData[] = [];
+	methods = {
+		loadOptions: {
+			async getFields(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				return getCatalogFieldOptions.call(this, FIELD_CATALOG_COLLECTIONS);
+			},
+		},
+		listSearch: {
+			async searchPolicies(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/snapmirror/policies', filter, paginationToken, { showSvm: true });
+			},
+			async searchPolicyNames(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/snapmirror/policies', filter, paginationToken, { valueField: 'name' });
+			},
+			async searchRelationships(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/snapmirror/relationships', filter, paginationToken, {
+					nameField: 'destination.path',
+					fields: ['source.path'],
+					getName: (record) => `${(record.source as IDataObject)?.path} → ${(record.destination as IDataObject)?.path}`,
+				});
+			},
+			async searchScheduleNames(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/cluster/schedules', filter, paginationToken, { valueField: 'name' });
+			},
+			async searchSvmNames(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/svm/svms', filter, paginationToken, { valueField: 'name' });
+			},
+		},
+	};
 
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const resource = this.getNodeParameter('resource', 0) as string;
 		const operation = this.getNodeParameter('operation', 0) as string;
-
-		for (let i = 0; i < items.length; i++) {
+		const returnData = await processItems.call(this, async (i) => {
 			try {
+				assertToolOperationAllowed.call(this, DESTRUCTIVE_TOOL_OPERATIONS, i);
+				await assertOntapVersion.call(this, MINIMUM_ONTAP_VERSIONS, resource, operation, i);
 				let responseData: IDataObject | IDataObject[] = {};
 				const options = this.getNodeParameter('options', i, {}) as IDataObject;
 				const qs: IDataObject = {};
+				const jobOptions = getJobOptions.call(this, i);
 
-				if (options.fields) {
-					qs.fields = options.fields;
-				}
+				Object.assign(qs, buildFieldsQuery(options.fields as string | string[] | undefined));
 
 				// ========== RELATIONSHIP ==========
 				if (resource === 'relationship') {
@@ -813,9 +1060,7 @@ export class NetAppOntapSnapMirror implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 						
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 						
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -870,7 +1115,7 @@ export class NetAppOntapSnapMirror implements INodeType {
 						}
 
 						const response = await ontapApiRequest.call(this, 'POST', '/snapmirror/relationships', body);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 
 						// Initialize if requested
 						if (createOptions.initializeOnCreate !== false && responseData.uuid) {
@@ -883,7 +1128,7 @@ export class NetAppOntapSnapMirror implements INodeType {
 							destination_only: false,
 							source_only: false,
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 						if (!responseData.job) {
 							responseData = { success: true, deleted: relLocator.value };
 						}
@@ -891,41 +1136,41 @@ export class NetAppOntapSnapMirror implements INodeType {
 						const relLocator = this.getNodeParameter('relationshipId', i) as { mode: string; value: string };
 
 						const response = await ontapApiRequest.call(this, 'POST', `/snapmirror/relationships/${relLocator.value}/transfers`);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'update') {
 						const relLocator = this.getNodeParameter('relationshipId', i) as { mode: string; value: string };
 
 						// Trigger manual update/transfer
 						const response = await ontapApiRequest.call(this, 'POST', `/snapmirror/relationships/${relLocator.value}/transfers`);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'break') {
 						const relLocator = this.getNodeParameter('relationshipId', i) as { mode: string; value: string };
 
 						const response = await ontapApiRequest.call(this, 'PATCH', `/snapmirror/relationships/${relLocator.value}`, {
 							state: 'broken_off',
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'quiesce') {
 						const relLocator = this.getNodeParameter('relationshipId', i) as { mode: string; value: string };
 
 						const response = await ontapApiRequest.call(this, 'PATCH', `/snapmirror/relationships/${relLocator.value}`, {
 							state: 'paused',
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'resume') {
 						const relLocator = this.getNodeParameter('relationshipId', i) as { mode: string; value: string };
 
 						const response = await ontapApiRequest.call(this, 'PATCH', `/snapmirror/relationships/${relLocator.value}`, {
 							state: 'snapmirrored',
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'resync') {
 						const relLocator = this.getNodeParameter('relationshipId', i) as { mode: string; value: string };
 
 						const response = await ontapApiRequest.call(this, 'PATCH', `/snapmirror/relationships/${relLocator.value}`, {
 							state: 'snapmirrored',
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'reverseResync') {
 						const relLocator = this.getNodeParameter('relationshipId', i) as { mode: string; value: string };
 
@@ -937,7 +1182,7 @@ export class NetAppOntapSnapMirror implements INodeType {
 							destination: { path: (currentRel.source as IDataObject)?.path },
 							state: 'snapmirrored',
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'abort') {
 						const relLocator = this.getNodeParameter('relationshipId', i) as { mode: string; value: string };
 
@@ -948,7 +1193,7 @@ export class NetAppOntapSnapMirror implements INodeType {
 							const response = await ontapApiRequest.call(this, 'PATCH', `/snapmirror/relationships/${relLocator.value}/transfers/${transferUuid}`, {
 								state: 'aborted',
 							});
-							responseData = await handleAsyncResponse.call(this, response);
+							responseData = await handleAsyncResponse.call(this, response, jobOptions);
 						} else {
 							responseData = { message: 'No active transfer to abort' };
 						}
@@ -962,14 +1207,14 @@ export class NetAppOntapSnapMirror implements INodeType {
 						}
 
 						const response = await ontapApiRequest.call(this, 'POST', `/snapmirror/relationships/${relLocator.value}/transfers`, body);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'release') {
 						const relLocator = this.getNodeParameter('relationshipId', i) as { mode: string; value: string };
 
 						const response = await ontapApiRequest.call(this, 'DELETE', `/snapmirror/relationships/${relLocator.value}`, {}, {
 							source_only: true,
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 						if (!responseData.job) {
 							responseData = { success: true, released: relLocator.value };
 						}
@@ -984,9 +1229,7 @@ export class NetAppOntapSnapMirror implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 						
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 						
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -1010,14 +1253,14 @@ export class NetAppOntapSnapMirror implements INodeType {
 						}
 
 						const response = await ontapApiRequest.call(this, 'POST', `/snapmirror/relationships/${relLocator.value}/transfers`, cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'abort') {
 						const transferId = this.getNodeParameter('transferId', i) as string;
 
 						const response = await ontapApiRequest.call(this, 'PATCH', `/snapmirror/relationships/${relLocator.value}/transfers/${transferId}`, {
 							state: 'aborted',
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					}
 				}
 
@@ -1027,9 +1270,7 @@ export class NetAppOntapSnapMirror implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 						
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 						
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -1079,7 +1320,7 @@ export class NetAppOntapSnapMirror implements INodeType {
 						}
 
 						const response = await ontapApiRequest.call(this, 'POST', '/snapmirror/policies', body);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'update') {
 						const policyLocator = this.getNodeParameter('policyId', i) as { mode: string; value: string };
 						const updateFields = this.getNodeParameter('policyUpdateFields', i) as IDataObject;
@@ -1092,31 +1333,37 @@ export class NetAppOntapSnapMirror implements INodeType {
 						if (updateFields.throttle !== undefined) body.throttle = updateFields.throttle;
 
 						const response = await ontapApiRequest.call(this, 'PATCH', `/snapmirror/policies/${policyLocator.value}`, cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'delete') {
 						const policyLocator = this.getNodeParameter('policyId', i) as { mode: string; value: string };
 
 						const response = await ontapApiRequest.call(this, 'DELETE', `/snapmirror/policies/${policyLocator.value}`);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 						if (!responseData.job) {
 							responseData = { success: true, deleted: policyLocator.value };
 						}
 					}
 				}
 
+				// ========== CUSTOM API CALL ==========
+				else if (resource === 'customApiCall') {
+					responseData = await executeCustomApiCall.call(this, i, qs);
+				}
+
+				responseData = getDryRunOutput.call(this, responseData);
+
 				const executionData = this.helpers.constructExecutionMetaData(
 					this.helpers.returnJsonArray(responseData as IDataObject[]),
 					{ itemData: { item: i } },
 				);
-				returnData.push(...executionData);
+				return executionData;
 			} catch (error) {
 				if (this.continueOnFail()) {
-					returnData.push({ json: { error: (error as Error).message }, pairedItem: { item: i } });
-					continue;
+					return [{ json: getErrorOutput(error as Error), pairedItem: { item: i } }];
 				}
 				throw error;
 			}
-		}
+		});
 
 		return [returnData];
 	}
@@ -4,16 +4,64 @@ import type {
 	INodeExecutionData,
 	INodeType,
 	INodeTypeDescription,
+	ILoadOptionsFunctions,
+	INodeListSearchResult,
+	INodePropertyOptions,
 } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
 
 import {
 	ontapApiRequest,
 	ontapApiRequestAllItems,
 	handleAsyncResponse,
+	ensureOntapObject,
+	getJobOptions,
 	cleanObject,
 	parseSize,
-	parseApiFilters,
+	getFilterQuery,
+	ontapListSearch,
+	getSvmScopeQuery,
+	executeCustomApiCall,
+	getErrorOutput,
+	formatSizeFields,
+	resolveOntapId,
+	invalidateOntapIds,
+	getDryRunOutput,
+	processItems,
+	buildFieldsQuery,
+	getCatalogFieldOptions,
+	assertToolOperationAllowed,
 } from '../shared/GenericFunctions';
+import { customApiCallProperties } from '../shared/CustomApiCallDescription';
+import { fieldsOption } from '../shared/FieldsDescription';
+import { filterConditionsOption, listControlOptions } from '../shared/FilterDescription';
+import { ifExistsProperty } from '../shared/IfExistsDescription';
+import { jobOptionsProperties } from '../shared/JobOptionsDescription';
+import type { OntapIfExists, OntapToolOperations } from '../shared/types';
+
+/**
+ * Operations that remove or overwrite data or cut access, which an AI agent
+ * may only run when the node allows destructive operations
+ */
+const DESTRUCTIVE_TOOL_OPERATIONS: OntapToolOperations = {
+	volume: ['delete', 'offline', 'resize', 'unmount'],
+	aggregate: ['delete'],
+	snapshot: ['delete', 'restore'],
+	qtree: ['delete'],
+	quota: ['delete'],
+};
+
+/**
+ * Field catalog collection of each resource, for the "Fields" option
+ */
+const FIELD_CATALOG_COLLECTIONS: Record<string, string> = {
+	aggregate: '/storage/aggregates',
+	disk: '/storage/disks',
+	qtree: '/storage/qtrees',
+	quota: '/storage/quota/rules',
+	snapshot: '/storage/volumes/{volume.uuid}/snapshots',
+	volume: '/storage/volumes',
+};
 
 export class NetAppOntapStorage implements INodeType {
 	description: INodeTypeDescription = {
@@ -29,6 +77,7 @@ export class NetAppOntapStorage implements INodeType {
 		},
 		inputs: ['main'],
 		outputs: ['main'],
+		usableAsTool: true,
 		credentials: [
 			{
 				name: 'netAppOntapApi',
@@ -43,15 +92,39 @@ export class NetAppOntapStorage implements INodeType {
 				type: 'string',
 				default: '',
 				placeholder: 'cluster.example.com',
-				description: 'The hostname or IP address of the ONTAP cluster management LIF',
-				required: true,
+				description: 'The hostname or IP address of the ONTAP cluster management LIF. Leave empty to use the cluster host from the credential.',
 			},
 			{
 				displayName: 'Port',
 				name: 'clusterPort',
 				type: 'number',
 				default: 443,
-				description: 'HTTPS port for the ONTAP REST API',
+				description: 'HTTPS port for the ONTAP REST API. Only used when Cluster Host is set on the node.',
+			},
+			{
+				displayName: 'Dry Run',
+				name: 'dryRun',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to return the POST, PATCH and DELETE requests the node would send instead of sending them. GET requests, e.g. to resolve names to UUIDs, are still sent.',
+			},
+			{
+				displayName: 'Concurrency',
+				name: 'concurrency',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+					maxValue: 32,
+				},
+				default: 1,
+				description: 'How many input items to process at the same time, e.g. for bulk provisioning or operations that wait on jobs. Output order and item pairing are kept.',
+			},
+			{
+				displayName: 'Allow Destructive Operations for AI Agents',
+				name: 'allowDestructiveToolOperations',
+				type: 'boolean',
+				default: false,
+				description: 'Whether an AI agent using this node as a tool may run operations that remove or overwrite data or cut access, such as delete, offline, resize, unmount and restore. Has no effect in regular workflows.',
 			},
 			// Resource Selection
 			{
@@ -65,6 +138,11 @@ export class NetAppOntapStorage implements INodeType {
 						value: 'aggregate',
 						description: 'Manage aggregates',
 					},
+					{
+						name: 'Custom API Call',
+						value: 'customApiCall',
+						description: 'Call any ONTAP REST API endpoint',
+					},
 					{
 						name: 'Disk',
 						value: 'disk',
@@ -189,7 +267,7 @@ export class NetAppOntapStorage implements INodeType {
 				displayName: 'Volume',
 				name: 'volumeId',
 				type: 'resourceLocator',
-				default: { mode: 'uuid', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -197,7 +275,17 @@ export class NetAppOntapStorage implements INodeType {
 						operation: ['get', 'update', 'delete', 'resize', 'mount', 'unmount', 'online', 'offline', 'move', 'clone'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchVolumes',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By UUID',
 						name: 'uuid',
 						type: 'string',
@@ -210,6 +298,7 @@ export class NetAppOntapStorage implements INodeType {
 						placeholder: 'vol1',
 					},
 				],
+				description: 'Volume to use, by UUID or by name. Volume names are only unique within an SVM, so set the SVM when selecting by name.',
 			},
 
 			// Volume SVM (needed for name lookups)
@@ -217,14 +306,24 @@ export class NetAppOntapStorage implements INodeType {
 				displayName: 'SVM',
 				name: 'volumeSvm',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				displayOptions: {
 					show: {
 						resource: ['volume'],
 						operation: ['get', 'update', 'delete', 'resize', 'mount', 'unmount', 'online', 'offline', 'move', 'clone'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchSvmNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
@@ -253,7 +352,7 @@ export class NetAppOntapStorage implements INodeType {
 				displayName: 'SVM',
 				name: 'createSvm',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -261,13 +360,24 @@ export class NetAppOntapStorage implements INodeType {
 						operation: ['create'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchSvmNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 						placeholder: 'svm1',
 					},
 				],
+				description: 'SVM that will own the new volume',
 			},
 			{
 				displayName: 'Size',
@@ -287,7 +397,7 @@ export class NetAppOntapStorage implements INodeType {
 				displayName: 'Aggregate',
 				name: 'volumeAggregate',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -295,13 +405,24 @@ export class NetAppOntapStorage implements INodeType {
 						operation: ['create'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchAggregateNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 						placeholder: 'aggr1',
 					},
 				],
+				description: 'Aggregate the new volume is created on',
 			},
 
 			// Volume Create Additional Options
@@ -463,7 +584,7 @@ export class NetAppOntapStorage implements INodeType {
 				displayName: 'Destination Aggregate',
 				name: 'destAggregate',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -471,13 +592,24 @@ export class NetAppOntapStorage implements INodeType {
 						operation: ['move'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchAggregateNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 						placeholder: 'aggr2',
 					},
 				],
+				description: 'Aggregate the volume is moved to',
 			},
 
 			// Volume Clone Fields
@@ -528,30 +660,35 @@ export class NetAppOntapStorage implements INodeType {
 						name: 'comment',
 						type: 'string',
 						default: '',
+						description: 'New comment for the volume',
 					},
 					{
 						displayName: 'Snapshot Policy',
 						name: 'snapshotPolicy',
 						type: 'string',
 						default: '',
+						description: 'Name of the snapshot policy to assign to the volume',
 					},
 					{
 						displayName: 'Export Policy',
 						name: 'exportPolicy',
 						type: 'string',
 						default: '',
+						description: 'Name of the NFS export policy to assign to the volume',
 					},
 					{
 						displayName: 'QoS Policy',
 						name: 'qosPolicy',
 						type: 'string',
 						default: '',
+						description: 'Name of the QoS policy group to assign to the volume',
 					},
 					{
 						displayName: 'Enable Autosize',
 						name: 'autosizeEnabled',
 						type: 'boolean',
 						default: false,
+						description: 'Whether the volume may grow automatically when it runs out of space',
 					},
 					{
 						displayName: 'Autosize Maximum',
@@ -622,7 +759,7 @@ export class NetAppOntapStorage implements INodeType {
 				displayName: 'Aggregate',
 				name: 'aggregateId',
 				type: 'resourceLocator',
-				default: { mode: 'uuid', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -630,7 +767,17 @@ export class NetAppOntapStorage implements INodeType {
 						operation: ['get', 'update', 'delete', 'expand'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchAggregates',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By UUID',
 						name: 'uuid',
 						type: 'string',
@@ -641,6 +788,7 @@ export class NetAppOntapStorage implements INodeType {
 						type: 'string',
 					},
 				],
+				description: 'Aggregate to use, by UUID or by name',
 			},
 
 			// Aggregate Create Fields
@@ -656,12 +804,13 @@ export class NetAppOntapStorage implements INodeType {
 						operation: ['create'],
 					},
 				},
+				description: 'Name of the new aggregate',
 			},
 			{
 				displayName: 'Node',
 				name: 'aggregateNode',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -669,12 +818,23 @@ export class NetAppOntapStorage implements INodeType {
 						operation: ['create'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchNodeNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 					},
 				],
+				description: 'Node whose disks make up the new aggregate',
 			},
 			{
 				displayName: 'Disk Count',
@@ -706,6 +866,7 @@ export class NetAppOntapStorage implements INodeType {
 						operation: ['create'],
 					},
 				},
+				description: 'RAID type of the new aggregate',
 			},
 
 			// Aggregate Expand
@@ -783,19 +944,67 @@ export class NetAppOntapStorage implements INodeType {
 				displayName: 'Volume',
 				name: 'snapshotVolume',
 				type: 'resourceLocator',
-				default: { mode: 'uuid', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
 						resource: ['snapshot'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchVolumes',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By UUID',
 						name: 'uuid',
 						type: 'string',
 					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'vol1',
+					},
 				],
+				description: 'Volume that holds the snapshots, by UUID or by name. Volume names are only unique within an SVM, so set the SVM when selecting by name.',
+			},
+
+			// Snapshot Volume SVM (needed for name lookups)
+			{
+				displayName: 'SVM',
+				name: 'snapshotSvm',
+				type: 'resourceLocator',
+				default: { mode: 'list', value: '' },
+				displayOptions: {
+					show: {
+						resource: ['snapshot'],
+					},
+				},
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchSvmNames',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'svm1',
+					},
+				],
+				description: 'SVM containing the volume (required when selecting the volume by name)',
 			},
 
 			// Snapshot for operations requiring it
@@ -803,7 +1012,7 @@ export class NetAppOntapStorage implements INodeType {
 				displayName: 'Snapshot',
 				name: 'snapshotId',
 				type: 'resourceLocator',
-				default: { mode: 'uuid', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -811,7 +1020,17 @@ export class NetAppOntapStorage implements INodeType {
 						operation: ['get', 'delete', 'update', 'restore'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchSnapshots',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By UUID',
 						name: 'uuid',
 						type: 'string',
@@ -822,6 +1041,7 @@ export class NetAppOntapStorage implements INodeType {
 						type: 'string',
 					},
 				],
+				description: 'Snapshot of the volume to use, by UUID or by name',
 			},
 
 			// Snapshot Create Fields
@@ -837,6 +1057,7 @@ export class NetAppOntapStorage implements INodeType {
 						operation: ['create'],
 					},
 				},
+				description: 'Name of the new snapshot',
 			},
 			{
 				displayName: 'Comment',
@@ -849,6 +1070,7 @@ export class NetAppOntapStorage implements INodeType {
 						operation: ['create', 'update'],
 					},
 				},
+				description: 'Comment stored with the snapshot',
 			},
 			{
 				displayName: 'Expiry Time',
@@ -930,19 +1152,30 @@ export class NetAppOntapStorage implements INodeType {
 				displayName: 'Volume',
 				name: 'qtreeVolume',
 				type: 'resourceLocator',
-				default: { mode: 'uuid', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
 						resource: ['qtree'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchVolumes',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By UUID',
 						name: 'uuid',
 						type: 'string',
 					},
 				],
+				description: 'Volume that holds the qtrees',
 			},
 
 			// Qtree ID (for get, update, delete)
@@ -974,6 +1207,7 @@ export class NetAppOntapStorage implements INodeType {
 						operation: ['create'],
 					},
 				},
+				description: 'Name of the new qtree',
 			},
 			{
 				displayName: 'Security Style',
@@ -991,6 +1225,7 @@ export class NetAppOntapStorage implements INodeType {
 						operation: ['create', 'update'],
 					},
 				},
+				description: 'Security style of the qtree, which decides whether UNIX or NTFS permissions apply',
 			},
 			{
 				displayName: 'Export Policy',
@@ -1003,6 +1238,7 @@ export class NetAppOntapStorage implements INodeType {
 						operation: ['create', 'update'],
 					},
 				},
+				description: 'Name of the NFS export policy to assign to the qtree, leave empty to keep the volume policy',
 			},
 			{
 				displayName: 'Unix Permissions',
@@ -1071,19 +1307,30 @@ export class NetAppOntapStorage implements INodeType {
 				displayName: 'Volume',
 				name: 'quotaVolume',
 				type: 'resourceLocator',
-				default: { mode: 'uuid', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
 						resource: ['quota'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchVolumes',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By UUID',
 						name: 'uuid',
 						type: 'string',
 					},
 				],
+				description: 'Volume the quota rules apply to',
 			},
 
 			// Quota Rule UUID
@@ -1099,6 +1346,7 @@ export class NetAppOntapStorage implements INodeType {
 						operation: ['delete', 'update'],
 					},
 				},
+				description: 'UUID of the quota rule, as returned by Get Many',
 			},
 
 			// Quota Rule Create Fields
@@ -1119,6 +1367,7 @@ export class NetAppOntapStorage implements INodeType {
 						operation: ['create'],
 					},
 				},
+				description: 'Whether the quota limits a user, a group or a whole qtree',
 			},
 			{
 				displayName: 'Space Hard Limit',
@@ -1209,6 +1458,27 @@ export class NetAppOntapStorage implements INodeType {
 				description: 'Disk name (e.g., 1.0.1)',
 			},
 
+			// ===================
+			// IF EXISTS
+			// ===================
+			ifExistsProperty(['volume', 'qtree']),
+
+			// ===================
+			// JOB OPTIONS
+			// ===================
+			...jobOptionsProperties({
+				volume: ['create', 'update', 'delete', 'resize', 'mount', 'unmount', 'online', 'offline', 'move', 'clone'],
+				aggregate: ['create', 'delete', 'expand'],
+				snapshot: ['create', 'delete', 'update', 'restore'],
+				qtree: ['create', 'update', 'delete'],
+				quota: ['create', 'update', 'delete'],
+			}),
+
+			// ===================
+			// CUSTOM API CALL
+			// ===================
+			...customApiCallProperties,
+
 			// Common Filters
 			{
 				displayName: 'Filters',
@@ -1228,8 +1498,9 @@ export class NetAppOntapStorage implements INodeType {
 						type: 'string',
 						default: '',
 						placeholder: 'type=rw,state=!offline',
-						description: 'ONTAP API filter expression. Format: field=value,field2=value2. Supports operators: =, !=, <, >, <=, >=, *, |',
+						description: 'ONTAP API filter expression. Format: field=value,field2=value2. Supports operators: =, !=, <, >, <=, >=, *, |. Quote a value to keep a comma followed by field= in it.',
 					},
+					filterConditionsOption,
 					{
 						displayName: 'Return All',
 						name: 'returnAll',
@@ -1252,6 +1523,7 @@ export class NetAppOntapStorage implements INodeType {
 							},
 						},
 					},
+					...listControlOptions,
 				],
 			},
 
@@ -1263,59 +1535,124 @@ export class NetAppOntapStorage implements INodeType {
 				placeholder: 'Add Option',
 				default: {},
 				options: [
+					fieldsOption,
 					{
-						displayName: 'Fields',
-						name: 'fields',
-						type: 'string',
-						default: '',
-						description: 'Comma-separated list of fields to include (use * for all)',
+						displayName: 'Format Sizes',
+						name: 'formatSizes',
+						type: 'boolean',
+						default: false,
+						displayOptions: {
+							show: {
+								'/operation': ['get', 'getMany'],
+							},
+						},
+						description: 'Whether to add a human-readable companion such as size_formatted ("1.5 TB") next to each size field, and the percent used of space objects. The raw byte counts are kept.',
 					},
 				],
 			},
 		],
 	};
 
-	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
-		const items = this.getInputData();
-		const returnData: INodeExecutionData[] = [];
+	methods = {
+		loadOptions: {
+			async getFields(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				return getCatalogFieldOptions.call(this, FIELD_CATALOG_COLLECTIONS);
+			},
+		},
+		listSearch: {
+			async searchAggregateNames(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/storage/aggregates', filter, paginationToken, { valueField: 'name' });
+			},
+			async searchAggregates(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/storage/aggregates', filter, paginationToken);
+			},
+			async searchNodeNames(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/cluster/nodes', filter, paginationToken, { valueField: 'name' });
+			},
+			async searchSnapshots(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				const volumeLocator = this.getCurrentNodeParameter('snapshotVolume') as { mode?: string; value?: string } | undefined;
+				let volumeId = volumeLocator?.value;
+				if (!volumeId || volumeId.startsWith('=')) {
+					return { results: [] };
+				}
+				if (volumeLocator?.mode === 'name') {
+					// The snapshot collection is addressed by volume UUID, and a name is only unique within its SVM
+					const svmQuery = getSvmScopeQuery.call(this, 'snapshotSvm');
+					if (!svmQuery['svm.name']) {
+						return { results: [] };
+					}
+					const volumes = await ontapApiRequest.call(this, 'GET', '/storage/volumes', {}, { ...svmQuery, name: volumeId, fields: 'uuid' });
+					volumeId = volumes.records?.[0]?.uuid as string | undefined;
+					if (!volumeId) {
+						return { results: [] };
+					}
+				}
+				return ontapListSearch.call(this, `/storage/volumes/${volumeId}/snapshots`, filter, paginationToken);
+			},
+			async searchSvmNames(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/svm/svms', filter, paginationToken, { valueField: 'name' });
+			},
+			async searchVolumes(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/storage/volumes', filter, paginationToken, {
+					showSvm: true,
+					query: getSvmScopeQuery.call(this, this.getCurrentNodeParameter('resource') === 'snapshot' ? 'snapshotSvm' : 'volumeSvm'),
+				});
+			},
+		},
+	};
 
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const resource = this.getNodeParameter('resource', 0) as string;
 		const operation = this.getNodeParameter('operation', 0) as string;
 
-		for (let i = 0; i < items.length; i++) {
+		const returnData = await processItems.call(this, async (i) => {
 			try {
+				assertToolOperationAllowed.call(this, DESTRUCTIVE_TOOL_OPERATIONS, i);
 				let responseData: IDataObject | IDataObject[] = {};
 				const options = this.getNodeParameter('options', i, {}) as IDataObject;
 				const qs: IDataObject = {};
+				const jobOptions = getJobOptions.call(this, i);
 
-				if (options.fields) {
-					qs.fields = options.fields;
-				}
+				Object.assign(qs, buildFieldsQuery(options.fields as string | string[] | undefined));
 
 				// Helper to resolve volume by name
 				const resolveVolumeId = async (locator: { mode: string; value: string }, svmName?: string): Promise<string> => {
-					if (locator.mode === 'uuid') {
+					if (locator.mode === 'uuid' || locator.mode === 'list') {
 						return locator.value;
 					}
-					const queryParams: IDataObject = { name: locator.value };
-					if (svmName) queryParams['svm.name'] = svmName;
-					const volumes = await ontapApiRequestAllItems.call(this, 'GET', '/storage/volumes', {}, queryParams);
-					if (volumes.length === 0) {
-						throw new Error(`Volume "${locator.value}" not found`);
-					}
-					return volumes[0].uuid as string;
+					return await resolveOntapId.call(this, '/storage/volumes', locator.value, 'Volume', i, svmName);
 				};
 
 				// Helper to resolve aggregate
 				const resolveAggregateId = async (locator: { mode: string; value: string }): Promise<string> => {
-					if (locator.mode === 'uuid') {
+					if (locator.mode === 'uuid' || locator.mode === 'list') {
 						return locator.value;
 					}
-					const aggregates = await ontapApiRequestAllItems.call(this, 'GET', '/storage/aggregates', {}, { name: locator.value });
-					if (aggregates.length === 0) {
-						throw new Error(`Aggregate "${locator.value}" not found`);
-					}
-					return aggregates[0].uuid as string;
+					return await resolveOntapId.call(this, '/storage/aggregates', locator.value, 'Aggregate', i);
 				};
 
 				// ========== VOLUME ==========
@@ -1324,9 +1661,7 @@ export class NetAppOntapStorage implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 						
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 						
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -1395,8 +1730,14 @@ export class NetAppOntapStorage implements INodeType {
 							};
 						}
 
-						const response = await ontapApiRequest.call(this, 'POST', '/storage/volumes', cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						const ifExists = this.getNodeParameter('ifExists', i, 'error') as OntapIfExists;
+						responseData = await ensureOntapObject.call(this, ifExists, {
+							endpoint: '/storage/volumes',
+							keyFields: ['name', 'svm.name'],
+							idFields: ['uuid'],
+							getPath: (volume) => volume.uuid as string,
+							createOnlyFields: ['aggregates', 'type'],
+						}, cleanObject(body), jobOptions, i);
 					} else if (operation === 'update') {
 						const volumeLocator = this.getNodeParameter('volumeId', i) as { mode: string; value: string };
 						const svmLocator = this.getNodeParameter('volumeSvm', i, null) as { mode: string; value: string } | null;
@@ -1422,14 +1763,15 @@ export class NetAppOntapStorage implements INodeType {
 						}
 
 						const response = await ontapApiRequest.call(this, 'PATCH', `/storage/volumes/${volumeId}`, cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'delete') {
 						const volumeLocator = this.getNodeParameter('volumeId', i) as { mode: string; value: string };
 						const svmLocator = this.getNodeParameter('volumeSvm', i, null) as { mode: string; value: string } | null;
 						const volumeId = await resolveVolumeId(volumeLocator, svmLocator?.value);
 
 						const response = await ontapApiRequest.call(this, 'DELETE', `/storage/volumes/${volumeId}`);
-						responseData = await handleAsyncResponse.call(this, response);
+						invalidateOntapIds.call(this, '/storage/volumes');
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 						if (!responseData.job) {
 							responseData = { success: true, deleted: volumeId };
 						}
@@ -1442,7 +1784,7 @@ export class NetAppOntapStorage implements INodeType {
 						const response = await ontapApiRequest.call(this, 'PATCH', `/storage/volumes/${volumeId}`, {
 							size: parseSize(newSize),
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'mount') {
 						const volumeLocator = this.getNodeParameter('volumeId', i) as { mode: string; value: string };
 						const svmLocator = this.getNodeParameter('volumeSvm', i, null) as { mode: string; value: string } | null;
@@ -1452,7 +1794,7 @@ export class NetAppOntapStorage implements INodeType {
 						const response = await ontapApiRequest.call(this, 'PATCH', `/storage/volumes/${volumeId}`, {
 							nas: { path: junctionPath },
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'unmount') {
 						const volumeLocator = this.getNodeParameter('volumeId', i) as { mode: string; value: string };
 						const svmLocator = this.getNodeParameter('volumeSvm', i, null) as { mode: string; value: string } | null;
@@ -1461,7 +1803,7 @@ export class NetAppOntapStorage implements INodeType {
 						const response = await ontapApiRequest.call(this, 'PATCH', `/storage/volumes/${volumeId}`, {
 							nas: { path: '' },
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'online') {
 						const volumeLocator = this.getNodeParameter('volumeId', i) as { mode: string; value: string };
 						const svmLocator = this.getNodeParameter('volumeSvm', i, null) as { mode: string; value: string } | null;
@@ -1470,7 +1812,7 @@ export class NetAppOntapStorage implements INodeType {
 						const response = await ontapApiRequest.call(this, 'PATCH', `/storage/volumes/${volumeId}`, {
 							state: 'online',
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'offline') {
 						const volumeLocator = this.getNodeParameter('volumeId', i) as { mode: string; value: string };
 						const svmLocator = this.getNodeParameter('volumeSvm', i, null) as { mode: string; value: string } | null;
@@ -1479,7 +1821,7 @@ export class NetAppOntapStorage implements INodeType {
 						const response = await ontapApiRequest.call(this, 'PATCH', `/storage/volumes/${volumeId}`, {
 							state: 'offline',
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'move') {
 						const volumeLocator = this.getNodeParameter('volumeId', i) as { mode: string; value: string };
 						const svmLocator = this.getNodeParameter('volumeSvm', i, null) as { mode: string; value: string } | null;
@@ -1491,7 +1833,7 @@ export class NetAppOntapStorage implements INodeType {
 								destination_aggregate: { name: destAggr.value },
 							},
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'clone') {
 						const volumeLocator = this.getNodeParameter('volumeId', i) as { mode: string; value: string };
 						const svmLocator = this.getNodeParameter('volumeSvm', i, null) as { mode: string; value: string } | null;
@@ -1516,7 +1858,7 @@ export class NetAppOntapStorage implements INodeType {
 						}
 
 						const response = await ontapApiRequest.call(this, 'POST', '/storage/volumes', body);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					}
 				}
 
@@ -1526,9 +1868,7 @@ export class NetAppOntapStorage implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 						
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 						
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -1559,13 +1899,14 @@ export class NetAppOntapStorage implements INodeType {
 						};
 
 						const response = await ontapApiRequest.call(this, 'POST', '/storage/aggregates', body);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'delete') {
 						const aggrLocator = this.getNodeParameter('aggregateId', i) as { mode: string; value: string };
 						const aggrId = await resolveAggregateId(aggrLocator);
 
 						const response = await ontapApiRequest.call(this, 'DELETE', `/storage/aggregates/${aggrId}`);
-						responseData = await handleAsyncResponse.call(this, response);
+						invalidateOntapIds.call(this, '/storage/aggregates');
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 						if (!responseData.job) {
 							responseData = { success: true, deleted: aggrId };
 						}
@@ -1581,7 +1922,7 @@ export class NetAppOntapStorage implements INodeType {
 								},
 							},
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'update') {
 						const aggrLocator = this.getNodeParameter('aggregateId', i) as { mode: string; value: string };
 						const aggrId = await resolveAggregateId(aggrLocator);
@@ -1593,24 +1934,25 @@ export class NetAppOntapStorage implements INodeType {
 				// ========== SNAPSHOT ==========
 				else if (resource === 'snapshot') {
 					const volumeLocator = this.getNodeParameter('snapshotVolume', i) as { mode: string; value: string };
-					const volumeId = volumeLocator.value;
+					const svmLocator = this.getNodeParameter('snapshotSvm', i, null) as { mode: string; value: string } | null;
+					if (volumeLocator.mode === 'name' && !svmLocator?.value) {
+						throw new NodeOperationError(this.getNode(), 'Set the SVM of a volume selected by name', {
+							description: 'Volume names are only unique within an SVM',
+							itemIndex: i,
+						});
+					}
+					const volumeId = await resolveVolumeId(volumeLocator, svmLocator?.value);
 
 					if (operation === 'getMany') {
+						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
+						Object.assign(qs, getFilterQuery(filters));
 						responseData = await ontapApiRequestAllItems.call(this, 'GET', `/storage/volumes/${volumeId}/snapshots`, {}, qs);
 					} else if (operation === 'get') {
 						const snapLocator = this.getNodeParameter('snapshotId', i) as { mode: string; value: string };
 						let snapId = snapLocator.value;
 						
 						if (snapLocator.mode === 'name') {
-							const snaps = await ontapApiRequestAllItems.call(
-								this,
-								'GET',
-								`/storage/volumes/${volumeId}/snapshots`,
-								{},
-								{ name: snapId },
-							);
-							if (snaps.length === 0) throw new Error(`Snapshot "${snapId}" not found`);
-							snapId = snaps[0].uuid as string;
+							snapId = await resolveOntapId.call(this, `/storage/volumes/${volumeId}/snapshots`, snapId, 'Snapshot', i);
 						}
 						
 						responseData = await ontapApiRequest.call(this, 'GET', `/storage/volumes/${volumeId}/snapshots/${snapId}`, {}, qs);
@@ -1626,25 +1968,18 @@ export class NetAppOntapStorage implements INodeType {
 						if (snapLockExpiry) body.snaplock_expiry_time = snapLockExpiry;
 
 						const response = await ontapApiRequest.call(this, 'POST', `/storage/volumes/${volumeId}/snapshots`, body);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'delete') {
 						const snapLocator = this.getNodeParameter('snapshotId', i) as { mode: string; value: string };
 						let snapId = snapLocator.value;
 						
 						if (snapLocator.mode === 'name') {
-							const snaps = await ontapApiRequestAllItems.call(
-								this,
-								'GET',
-								`/storage/volumes/${volumeId}/snapshots`,
-								{},
-								{ name: snapId },
-							);
-							if (snaps.length === 0) throw new Error(`Snapshot "${snapId}" not found`);
-							snapId = snaps[0].uuid as string;
+							snapId = await resolveOntapId.call(this, `/storage/volumes/${volumeId}/snapshots`, snapId, 'Snapshot', i);
 						}
 
 						const response = await ontapApiRequest.call(this, 'DELETE', `/storage/volumes/${volumeId}/snapshots/${snapId}`);
-						responseData = await handleAsyncResponse.call(this, response);
+						invalidateOntapIds.call(this, `/storage/volumes/${volumeId}/snapshots`);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 						if (!responseData.job) {
 							responseData = { success: true, deleted: snapId };
 						}
@@ -1653,15 +1988,7 @@ export class NetAppOntapStorage implements INodeType {
 						let snapId = snapLocator.value;
 						
 						if (snapLocator.mode === 'name') {
-							const snaps = await ontapApiRequestAllItems.call(
-								this,
-								'GET',
-								`/storage/volumes/${volumeId}/snapshots`,
-								{},
-								{ name: snapId },
-							);
-							if (snaps.length === 0) throw new Error(`Snapshot "${snapId}" not found`);
-							snapId = snaps[0].uuid as string;
+							snapId = await resolveOntapId.call(this, `/storage/volumes/${volumeId}/snapshots`, snapId, 'Snapshot', i);
 						}
 
 						const comment = this.getNodeParameter('snapshotComment', i, '') as string;
@@ -1674,28 +2001,20 @@ export class NetAppOntapStorage implements INodeType {
 						if (snapLockExpiry) body.snaplock_expiry_time = snapLockExpiry;
 
 						const response = await ontapApiRequest.call(this, 'PATCH', `/storage/volumes/${volumeId}/snapshots/${snapId}`, cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'restore') {
 						const snapLocator = this.getNodeParameter('snapshotId', i) as { mode: string; value: string };
 						let snapId = snapLocator.value;
 						
 						if (snapLocator.mode === 'name') {
-							const snaps = await ontapApiRequestAllItems.call(
-								this,
-								'GET',
-								`/storage/volumes/${volumeId}/snapshots`,
-								{},
-								{ name: snapId },
-							);
-							if (snaps.length === 0) throw new Error(`Snapshot "${snapId}" not found`);
-							snapId = snaps[0].uuid as string;
+							snapId = await resolveOntapId.call(this, `/storage/volumes/${volumeId}/snapshots`, snapId, 'Snapshot', i);
 						}
 
 						// Restore by setting restore_to on volume
 						const response = await ontapApiRequest.call(this, 'PATCH', `/storage/volumes/${volumeId}`, {
 							restore_to: { snapshot: { uuid: snapId } },
 						});
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					}
 				}
 
@@ -1705,6 +2024,8 @@ export class NetAppOntapStorage implements INodeType {
 					const volumeId = volumeLocator.value;
 
 					if (operation === 'getMany') {
+						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
+						Object.assign(qs, getFilterQuery(filters));
 						responseData = await ontapApiRequestAllItems.call(this, 'GET', `/storage/volumes/${volumeId}/qtrees`, {}, qs);
 					} else if (operation === 'get') {
 						const qtreeId = this.getNodeParameter('qtreeId', i) as number;
@@ -1724,8 +2045,13 @@ export class NetAppOntapStorage implements INodeType {
 							body.export_policy = { name: exportPolicy };
 						}
 
-						const response = await ontapApiRequest.call(this, 'POST', `/storage/volumes/${volumeId}/qtrees`, body);
-						responseData = await handleAsyncResponse.call(this, response);
+						const ifExists = this.getNodeParameter('ifExists', i, 'error') as OntapIfExists;
+						responseData = await ensureOntapObject.call(this, ifExists, {
+							endpoint: `/storage/volumes/${volumeId}/qtrees`,
+							keyFields: ['name'],
+							idFields: ['id'],
+							getPath: (qtree) => String(qtree.id),
+						}, body, jobOptions, i);
 					} else if (operation === 'update') {
 						const qtreeId = this.getNodeParameter('qtreeId', i) as number;
 						const securityStyle = this.getNodeParameter('qtreeSecurityStyle', i, '') as string;
@@ -1738,12 +2064,12 @@ export class NetAppOntapStorage implements INodeType {
 						if (unixPermissions) body.unix_permissions = unixPermissions;
 
 						const response = await ontapApiRequest.call(this, 'PATCH', `/storage/volumes/${volumeId}/qtrees/${qtreeId}`, cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'delete') {
 						const qtreeId = this.getNodeParameter('qtreeId', i) as number;
 
 						const response = await ontapApiRequest.call(this, 'DELETE', `/storage/volumes/${volumeId}/qtrees/${qtreeId}`);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 						if (!responseData.job) {
 							responseData = { success: true, deleted: qtreeId };
 						}
@@ -1756,6 +2082,8 @@ export class NetAppOntapStorage implements INodeType {
 					const volumeId = volumeLocator.value;
 
 					if (operation === 'getMany') {
+						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
+						Object.assign(qs, getFilterQuery(filters));
 						responseData = await ontapApiRequestAllItems.call(this, 'GET', '/storage/quota/rules', {}, { ...qs, 'volume.uuid': volumeId });
 					} else if (operation === 'getReport') {
 						responseData = await ontapApiRequestAllItems.call(this, 'GET', '/storage/quota/reports', {}, { ...qs, 'volume.uuid': volumeId });
@@ -1780,7 +2108,7 @@ export class NetAppOntapStorage implements INodeType {
 						}
 
 						const response = await ontapApiRequest.call(this, 'POST', '/storage/quota/rules', body);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'update') {
 						const ruleUuid = this.getNodeParameter('quotaRuleUuid', i) as string;
 						const spaceLimit = this.getNodeParameter('quotaSpaceLimit', i, '') as string;
@@ -1795,12 +2123,12 @@ export class NetAppOntapStorage implements INodeType {
 						if (filesLimit > 0) body.files = { hard_limit: filesLimit };
 
 						const response = await ontapApiRequest.call(this, 'PATCH', `/storage/quota/rules/${ruleUuid}`, cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'delete') {
 						const ruleUuid = this.getNodeParameter('quotaRuleUuid', i) as string;
 
 						const response = await ontapApiRequest.call(this, 'DELETE', `/storage/quota/rules/${ruleUuid}`);
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 						if (!responseData.job) {
 							responseData = { success: true, deleted: ruleUuid };
 						}
@@ -1813,9 +2141,7 @@ export class NetAppOntapStorage implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 						
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 						
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -1830,19 +2156,30 @@ export class NetAppOntapStorage implements INodeType {
 					}
 				}
 
+				// ========== CUSTOM API CALL ==========
+				else if (resource === 'customApiCall') {
+					responseData = await executeCustomApiCall.call(this, i, qs);
+				}
+
+				if (options.formatSizes) {
+					responseData = Array.isArray(responseData)
+						? responseData.map((record) => formatSizeFields(record))
+						: formatSizeFields(responseData);
+				}
+				responseData = getDryRunOutput.call(this, responseData);
+
 				const executionData = this.helpers.constructExecutionMetaData(
 					this.helpers.returnJsonArray(responseData as IDataObject[]),
 					{ itemData: { item: i } },
 				);
-				returnData.push(...executionData);
+				return executionData;
 			} catch (error) {
 				if (this.continueOnFail()) {
-					returnData.push({ json: { error: (error as Error).message }, pairedItem: { item: i } });
-					continue;
+					return [{ json: getErrorOutput(error as Error), pairedItem: { item: i } }];
 				}
 				throw error;
 			}
-		}
+		});
 
 		return [returnData];
 	}
@@ -4,15 +4,53 @@ import type {
 	INodeExecutionData,
 	INodeType,
 	INodeTypeDescription,
+	ILoadOptionsFunctions,
+	INodeListSearchResult,
+	INodePropertyOptions,
 } from 'n8n-workflow';
 
 import {
 	ontapApiRequest,
 	ontapApiRequestAllItems,
 	handleAsyncResponse,
+	ensureOntapObject,
+	getJobOptions,
 	cleanObject,
-	parseApiFilters,
+	getFilterQuery,
+	ontapListSearch,
+	executeCustomApiCall,
+	getErrorOutput,
+	resolveOntapId,
+	invalidateOntapIds,
+	getDryRunOutput,
+	processItems,
+	buildFieldsQuery,
+	getCatalogFieldOptions,
+	assertToolOperationAllowed,
 } from '../shared/GenericFunctions';
+import { customApiCallProperties } from '../shared/CustomApiCallDescription';
+import { fieldsOption } from '../shared/FieldsDescription';
+import { filterConditionsOption, listControlOptions } from '../shared/FilterDescription';
+import { ifExistsProperty } from '../shared/IfExistsDescription';
+import { jobOptionsProperties } from '../shared/JobOptionsDescription';
+import type { OntapIfExists, OntapToolOperations } from '../shared/types';
+
+/**
+ * Operations that remove or overwrite data or cut access, which an AI agent
+ * may only run when the node allows destructive operations
+ */
+const DESTRUCTIVE_TOOL_OPERATIONS: OntapToolOperations = {
+	svm: ['delete', 'stop'],
+	svmPeer: ['delete'],
+};
+
+/**
+ * Field catalog collection of each resource, for the "Fields" option
+ */
+const FIELD_CATALOG_COLLECTIONS: Record<string, string> = {
+	svm: '/svm/svms',
+	svmPeer: '/svm/peers',
+};
 
 export class NetAppOntapSvm implements INodeType {
 	description: INodeTypeDescription = {
@@ -28,6 +66,7 @@ export class NetAppOntapSvm implements INodeType {
 		},
 		inputs: ['main'],
 		outputs: ['main'],
+		usableAsTool: true,
 		credentials: [
 			{
 				name: 'netAppOntapApi',
@@ -42,15 +81,39 @@ export class NetAppOntapSvm implements INodeType {
 				type: 'string',
 				default: '',
 				placeholder: 'cluster.example.com',
-				description: 'The hostname or IP address of the ONTAP cluster management LIF',
-				required: true,
+				description: 'The hostname or IP address of the ONTAP cluster management LIF. Leave empty to use the cluster host from the credential.',
 			},
 			{
 				displayName: 'Port',
 				name: 'clusterPort',
 				type: 'number',
 				default: 443,
-				description: 'HTTPS port for the ONTAP REST API',
+				description: 'HTTPS port for the ONTAP REST API. Only used when Cluster Host is set on the node.',
+			},
+			{
+				displayName: 'Dry Run',
+				name: 'dryRun',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to return the POST, PATCH and DELETE requests the node would send instead of sending them. GET requests, e.g. to resolve names to UUIDs, are still sent.',
+			},
+			{
+				displayName: 'Concurrency',
+				name: 'concurrency',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+					maxValue: 32,
+				},
+				default: 1,
+				description: 'How many input items to process at the same time, e.g. for bulk provisioning or operations that wait on jobs. Output order and item pairing are kept.',
+			},
+			{
+				displayName: 'Allow Destructive Operations for AI Agents',
+				name: 'allowDestructiveToolOperations',
+				type: 'boolean',
+				default: false,
+				description: 'Whether an AI agent using this node as a tool may run operations that remove or overwrite data or cut access, such as delete and stop. Has no effect in regular workflows.',
 			},
 			// Resource Selection
 			{
@@ -59,6 +122,11 @@ export class NetAppOntapSvm implements INodeType {
 				type: 'options',
 				noDataExpression: true,
 				options: [
+					{
+						name: 'Custom API Call',
+						value: 'customApiCall',
+						description: 'Call any ONTAP REST API endpoint',
+					},
 					{
 						name: 'SVM',
 						value: 'svm',
@@ -138,7 +206,7 @@ export class NetAppOntapSvm implements INodeType {
 				displayName: 'SVM',
 				name: 'svmId',
 				type: 'resourceLocator',
-				default: { mode: 'uuid', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -146,7 +214,17 @@ export class NetAppOntapSvm implements INodeType {
 						operation: ['get', 'update', 'delete', 'start', 'stop'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchSvms',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By UUID',
 						name: 'uuid',
 						type: 'string',
@@ -159,6 +237,7 @@ export class NetAppOntapSvm implements INodeType {
 						placeholder: 'svm1',
 					},
 				],
+				description: 'SVM (storage VM) to use, by UUID or by name',
 			},
 
 			// SVM Create Fields
@@ -180,14 +259,24 @@ export class NetAppOntapSvm implements INodeType {
 				displayName: 'IPspace',
 				name: 'ipspace',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				displayOptions: {
 					show: {
 						resource: ['svm'],
 						operation: ['create'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchIpspaceNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
@@ -200,14 +289,24 @@ export class NetAppOntapSvm implements INodeType {
 				displayName: 'Root Volume Aggregate',
 				name: 'rootVolumeAggregate',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				displayOptions: {
 					show: {
 						resource: ['svm'],
 						operation: ['create'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchAggregateNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
@@ -471,7 +570,7 @@ export class NetAppOntapSvm implements INodeType {
 				displayName: 'Local SVM',
 				name: 'localSvm',
 				type: 'resourceLocator',
-				default: { mode: 'name', value: '' },
+				default: { mode: 'list', value: '' },
 				required: true,
 				displayOptions: {
 					show: {
@@ -479,13 +578,24 @@ export class NetAppOntapSvm implements INodeType {
 						operation: ['create'],
 					},
 				},
-				modes: [					{
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchSvmNames',
+							searchable: true,
+						},
+					},
+					{
 						displayName: 'By Name',
 						name: 'name',
 						type: 'string',
 						placeholder: 'svm1',
 					},
 				],
+				description: 'Local SVM that takes part in the peer relationship',
 			},
 			{
 				displayName: 'Peer Cluster',
@@ -533,6 +643,24 @@ export class NetAppOntapSvm implements INodeType {
 				description: 'Applications that can use this peer relationship',
 			},
 
+			// ===================
+			// IF EXISTS
+			// ===================
+			ifExistsProperty(['svm']),
+
+			// ===================
+			// JOB OPTIONS
+			// ===================
+			...jobOptionsProperties({
+				svm: ['create', 'update', 'delete', 'start', 'stop'],
+				svmPeer: ['create', 'accept'],
+			}),
+
+			// ===================
+			// CUSTOM API CALL
+			// ===================
+			...customApiCallProperties,
+
 			// List Filters
 			{
 				displayName: 'Filters',
@@ -552,8 +680,9 @@ export class NetAppOntapSvm implements INodeType {
 						type: 'string',
 						default: '',
 						placeholder: 'type=rw,state=!offline',
-						description: 'ONTAP API filter expression. Format: field=value,field2=value2. Supports operators: =, !=, <, >, <=, >=, *, |',
+						description: 'ONTAP API filter expression. Format: field=value,field2=value2. Supports operators: =, !=, <, >, <=, >=, *, |. Quote a value to keep a comma followed by field= in it.',
 					},
+					filterConditionsOption,
 					{
 						displayName: 'Return All',
 						name: 'returnAll',
@@ -576,6 +705,7 @@ export class NetAppOntapSvm implements INodeType {
 							},
 						},
 					},
+					...listControlOptions,
 				],
 			},
 
@@ -587,43 +717,68 @@ export class NetAppOntapSvm implements INodeType {
 				placeholder: 'Add Option',
 				default: {},
 				options: [
-					{
-						displayName: 'Fields',
-						name: 'fields',
-						type: 'string',
-						default: '',
-						description: 'Comma-separated list of fields to include (use * for all)',
-					},
+					fieldsOption,
 				],
 			},
 		],
 	};
 
-	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
-		const items = this.getInputData();
-		const returnData: INodeExecutionData[] = [];
+	methods = {
+		loadOptions: {
+			async getFields(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				return getCatalogFieldOptions.call(this, FIELD_CATALOG_COLLECTIONS);
+			},
+		},
+		listSearch: {
+			async searchAggregateNames(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/storage/aggregates', filter, paginationToken, { valueField: 'name' });
+			},
+			async searchIpspaceNames(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/network/ipspaces', filter, paginationToken, { valueField: 'name' });
+			},
+			async searchSvmNames(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/svm/svms', filter, paginationToken, { valueField: 'name' });
+			},
+			async searchSvms(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				return ontapListSearch.call(this, '/svm/svms', filter, paginationToken);
+			},
+		},
+	};
 
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const resource = this.getNodeParameter('resource', 0) as string;
 		const operation = this.getNodeParameter('operation', 0) as string;
 
-		for (let i = 0; i < items.length; i++) {
+		const returnData = await processItems.call(this, async (i) => {
 			try {
+				assertToolOperationAllowed.call(this, DESTRUCTIVE_TOOL_OPERATIONS, i);
 				let responseData: IDataObject | IDataObject[] = {};
 				const options = this.getNodeParameter('options', i, {}) as IDataObject;
 				const qs: IDataObject = {};
+				const jobOptions = getJobOptions.call(this, i);
 
-				if (options.fields) {
-					qs.fields = options.fields;
-				}
+				Object.assign(qs, buildFieldsQuery(options.fields as string | string[] | undefined));
 
 				// Helper to resolve SVM by name to UUID
 				const resolveSvmId = async (locator: { mode: string; value: string }): Promise<string> => {
 					if (locator.mode === 'name') {
-						const svms = await ontapApiRequestAllItems.call(this, 'GET', '/svm/svms', {}, { name: locator.value });
-						if (svms.length === 0) {
-							throw new Error(`SVM "${locator.value}" not found`);
-						}
-						return svms[0].uuid as string;
+						return await resolveOntapId.call(this, '/svm/svms', locator.value, 'SVM', i);
 					}
 					return locator.value;
 				};
@@ -634,9 +789,7 @@ export class NetAppOntapSvm implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 						
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 						
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -700,8 +853,14 @@ export class NetAppOntapSvm implements INodeType {
 							body.aggregates = aggregates.split(',').map(a => ({ name: a.trim() }));
 						}
 
-						const response = await ontapApiRequest.call(this, 'POST', '/svm/svms', cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						const ifExists = this.getNodeParameter('ifExists', i, 'error') as OntapIfExists;
+						responseData = await ensureOntapObject.call(this, ifExists, {
+							endpoint: '/svm/svms',
+							keyFields: ['name'],
+							idFields: ['uuid'],
+							getPath: (svm) => svm.uuid as string,
+							createOnlyFields: ['ipspace', 'subtype'],
+						}, cleanObject(body), jobOptions, i);
 					} else if (operation === 'update') {
 						const svmLocator = this.getNodeParameter('svmId', i) as { mode: string; value: string };
 						const svmId = await resolveSvmId(svmLocator);
@@ -724,13 +883,15 @@ export class NetAppOntapSvm implements INodeType {
 						}
 
 						const response = await ontapApiRequest.call(this, 'PATCH', `/svm/svms/${svmId}`, cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						if (body.name) invalidateOntapIds.call(this, '/svm/svms');
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'delete') {
 						const svmLocator = this.getNodeParameter('svmId', i) as { mode: string; value: string };
 						const svmId = await resolveSvmId(svmLocator);
 						
 						const response = await ontapApiRequest.call(this, 'DELETE', `/svm/svms/${svmId}`);
-						responseData = await handleAsyncResponse.call(this, response);
+						invalidateOntapIds.call(this, '/svm/svms');
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 						if (!responseData.job) {
 							responseData = { success: true, deleted: svmId };
 						}
@@ -739,13 +900,13 @@ export class NetAppOntapSvm implements INodeType {
 						const svmId = await resolveSvmId(svmLocator);
 						
 						const response = await ontapApiRequest.call(this, 'PATCH', `/svm/svms/${svmId}`, { state: 'running' });
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'stop') {
 						const svmLocator = this.getNodeParameter('svmId', i) as { mode: string; value: string };
 						const svmId = await resolveSvmId(svmLocator);
 						
 						const response = await ontapApiRequest.call(this, 'PATCH', `/svm/svms/${svmId}`, { state: 'stopped' });
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					}
 				}
 
@@ -755,9 +916,7 @@ export class NetAppOntapSvm implements INodeType {
 						const filters = this.getNodeParameter('filters', i, {}) as IDataObject;
 						
 						// Apply API filters
-						if (filters.apiFilters) {
-							Object.assign(qs, parseApiFilters(filters.apiFilters as string));
-						}
+						Object.assign(qs, getFilterQuery(filters));
 						
 						if (filters.returnAll === false) {
 							qs.max_records = filters.limit || 50;
@@ -785,12 +944,12 @@ export class NetAppOntapSvm implements INodeType {
 						};
 
 						const response = await ontapApiRequest.call(this, 'POST', '/svm/peers', cleanObject(body));
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'accept') {
 						const peerUuid = this.getNodeParameter('peerUuid', i) as string;
 						
 						const response = await ontapApiRequest.call(this, 'PATCH', `/svm/peers/${peerUuid}`, { state: 'peered' });
-						responseData = await handleAsyncResponse.call(this, response);
+						responseData = await handleAsyncResponse.call(this, response, jobOptions);
 					} else if (operation === 'delete') {
 						const peerUuid = this.getNodeParameter('peerUuid', i) as string;
 						
@@ -799,19 +958,25 @@ export class NetAppOntapSvm implements INodeType {
 					}
 				}
 
+				// ========== CUSTOM API CALL ==========
+				else if (resource === 'customApiCall') {
+					responseData = await executeCustomApiCall.call(this, i, qs);
+				}
+
+				responseData = getDryRunOutput.call(this, responseData);
+
 				const executionData = this.helpers.constructExecutionMetaData(
 					this.helpers.returnJsonArray(responseData as IDataObject[]),
 					{ itemData: { item: i } },
 				);
-				returnData.push(...executionData);
+				return executionData;
 			} catch (error) {
 				if (this.continueOnFail()) {
-					returnData.push({ json: { error: (error as Error).message }, pairedItem: { item: i } });
-					continue;
+					return [{ json: getErrorOutput(error as Error), pairedItem: { item: i } }];
 				}
 				throw error;
 			}
-		}
+		});
 
 		return [returnData];
 	}
@@ -0,0 +1,139 @@
+import type { INodeProperties } from 'n8n-workflow';
+
+/**
+ * Operation and fields for the "Custom API Call" resource shared by all ONTAP nodes
+ */
+export const customApiCallProperties: INodeProperties[] = [
+	{
+		displayName: 'Operation',
+		name: 'operation',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: {
+			show: {
+				resource: ['customApiCall'],
+			},
+		},
+		options: [
+			{
+				name: 'Call',
+				value: 'call',
+				description: 'Send a request to any ONTAP REST API endpoint',
+				action: 'Make a custom API call',
+			},
+		],
+		default: 'call',
+	},
+	{
+		displayName: 'Method',
+		name: 'customMethod',
+		type: 'options',
+		options: [
+			{ name: 'DELETE', value: 'DELETE' },
+			{ name: 'GET', value: 'GET' },
+			{ name: 'PATCH', value: 'PATCH' },
+			{ name: 'POST', value: 'POST' },
+		],
+		default: 'GET',
+		displayOptions: {
+			show: {
+				resource: ['customApiCall'],
+			},
+		},
+		description: 'HTTP method to use',
+	},
+	{
+		displayName: 'Path',
+		name: 'customPath',
+		type: 'string',
+		default: '',
+		required: true,
+		placeholder: '/storage/volumes',
+		displayOptions: {
+			show: {
+				resource: ['customApiCall'],
+			},
+		},
+		description: 'Endpoint path relative to /api, e.g. /storage/volumes or /support/autosupport',
+	},
+	{
+		displayName: 'Query Parameters (JSON)',
+		name: 'customQuery',
+		type: 'json',
+		default: '{}',
+		displayOptions: {
+			show: {
+				resource: ['customApiCall'],
+			},
+		},
+		description: 'Query parameters as a JSON object, e.g. {"svm.name": "svm1", "fields": "space"}',
+	},
+	{
+		displayName: 'Body (JSON)',
+		name: 'customBody',
+		type: 'json',
+		default: '{}',
+		displayOptions: {
+			show: {
+				resource: ['customApiCall'],
+				customMethod: ['POST', 'PATCH'],
+			},
+		},
+		description: 'Request body as a JSON object',
+	},
+	{
+		displayName: 'Call Options',
+		name: 'customCallOptions',
+		type: 'collection',
+		placeholder: 'Add Option',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['customApiCall'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Include Job History',
+				name: 'includeHistory',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to return each state and message seen while waiting as _jobHistory, along with the elapsed time. On failure they are added to the error output.',
+			},
+			{
+				displayName: 'Poll Interval (Seconds)',
+				name: 'pollInterval',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 2,
+				description: 'How often to check the state of a returned job while waiting',
+			},
+			{
+				displayName: 'Return All Pages',
+				name: 'returnAll',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to follow _links.next and return every record of a GET collection as separate items',
+			},
+			{
+				displayName: 'Timeout (Seconds)',
+				name: 'timeout',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 300,
+				description: 'Maximum time to wait for a returned job to finish before failing',
+			},
+			{
+				displayName: 'Wait for Completion',
+				name: 'waitForCompletion',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to poll the returned job until it finishes. When disabled the job UUID is returned right away.',
+			},
+		],
+	},
+];
@@ -0,0 +1,713 @@
+/**
+ * Fields of the ONTAP collections the nodes read, offered by the "Fields"
+ * option. Keyed by collection path as in the ONTAP REST reference, nested
+ * fields use the dotted paths of the `fields` query parameter.
+ */
+export const ONTAP_FIELD_CATALOG: Record<string, string[]> = {
+	'/cluster': [
+		'uuid',
+		'name',
+		'version',
+		'version.full',
+		'contact',
+		'location',
+		'dns_domains',
+		'name_servers',
+		'ntp_servers',
+		'management_interfaces',
+		'timezone',
+		'certificate',
+		'metric',
+		'statistics',
+	],
+	'/cluster/jobs': [
+		'uuid',
+		'description',
+		'state',
+		'message',
+		'code',
+		'error',
+		'start_time',
+		'end_time',
+		'svm',
+		'svm.name',
+	],
+	'/cluster/licensing/licenses': [
+		'name',
+		'scope',
+		'state',
+		'licenses',
+		'licenses.owner',
+		'licenses.serial_number',
+		'licenses.expiry_time',
+		'licenses.compliance',
+	],
+	'/cluster/nodes': [
+		'uuid',
+		'name',
+		'model',
+		'serial_number',
+		'system_id',
+		'location',
+		'state',
+		'membership',
+		'uptime',
+		'version',
+		'ha',
+		'ha.enabled',
+		'ha.partners',
+		'ha.giveback.state',
+		'ha.takeover.state',
+		'management_interfaces',
+		'cluster_interfaces',
+		'controller.cpu',
+		'controller.memory_size',
+		'controller.over_temperature',
+		'controller.failed_fan',
+		'controller.failed_power_supply',
+		'service_processor',
+		'metric',
+		'statistics',
+	],
+	'/cluster/schedules': [
+		'uuid',
+		'name',
+		'type',
+		'interval',
+		'cron',
+		'cron.minutes',
+		'cron.hours',
+		'cron.days',
+		'cron.weekdays',
+		'cron.months',
+		'cluster',
+	],
+	'/svm/svms': [
+		'uuid',
+		'name',
+		'state',
+		'subtype',
+		'language',
+		'comment',
+		'ipspace',
+		'ipspace.name',
+		'aggregates',
+		'aggregates.name',
+		'ip_interfaces',
+		'dns',
+		'dns.domains',
+		'dns.servers',
+		'nfs.enabled',
+		'cifs.enabled',
+		'cifs.name',
+		'iscsi.enabled',
+		'fcp.enabled',
+		'nvme.enabled',
+		's3.enabled',
+		'snapshot_policy',
+		'snapshot_policy.name',
+		'max_volumes',
+		'anti_ransomware_default_volume_state',
+	],
+	'/svm/peers': [
+		'uuid',
+		'name',
+		'state',
+		'applications',
+		'svm',
+		'svm.name',
+		'peer',
+		'peer.svm.name',
+		'peer.cluster.name',
+	],
+	'/storage/volumes': [
+		'uuid',
+		'name',
+		'svm',
+		'svm.name',
+		'state',
+		'type',
+		'style',
+		'comment',
+		'language',
+		'create_time',
+		'size',
+		'aggregates',
+		'aggregates.name',
+		'nas.path',
+		'nas.export_policy.name',
+		'nas.security_style',
+		'nas.unix_permissions',
+		'guarantee.type',
+		'autosize',
+		'autosize.mode',
+		'autosize.maximum',
+		'autosize.minimum',
+		'space',
+		'space.size',
+		'space.used',
+		'space.available',
+		'space.footprint',
+		'space.logical_space.used',
+		'space.logical_space.available',
+		'space.snapshot.used',
+		'space.snapshot.reserve_percent',
+		'snapshot_policy.name',
+		'tiering.policy',
+		'efficiency.compression',
+		'efficiency.dedupe',
+		'clone.is_flexclone',
+		'clone.parent_volume.name',
+		'movement.state',
+		'movement.percent_complete',
+		'snapmirror.is_protected',
+		'anti_ransomware.state',
+		'qos.policy.name',
+		'metric',
+		'statistics',
+	],
+	'/storage/aggregates': [
+		'uuid',
+		'name',
+		'state',
+		'node',
+		'node.name',
+		'home_node.name',
+		'snaplock_type',
+		'create_time',
+		'block_storage',
+		'block_storage.primary.disk_count',
+		'block_storage.primary.disk_class',
+		'block_storage.primary.raid_type',
+		'block_storage.primary.raid_size',
+		'block_storage.hybrid_cache.enabled',
+		'block_storage.mirror.enabled',
+		'space',
+		'space.block_storage.size',
+		'space.block_storage.used',
+		'space.block_storage.available',
+		'space.block_storage.full_threshold_percent',
+		'space.efficiency.ratio',
+		'data_encryption.software_encryption_enabled',
+		'inactive_data_reporting.enabled',
+		'metric',
+		'statistics',
+	],
+	'/storage/volumes/{volume.uuid}/snapshots': [
+		'uuid',
+		'name',
+		'create_time',
+		'expiry_time',
+		'comment',
+		'state',
+		'size',
+		'snapmirror_label',
+		'owners',
+		'volume',
+		'volume.name',
+		'svm',
+		'svm.name',
+	],
+	'/storage/qtrees': [
+		'id',
+		'name',
+		'path',
+		'volume',
+		'volume.name',
+		'svm',
+		'svm.name',
+		'security_style',
+		'unix_permissions',
+		'export_policy',
+		'export_policy.name',
+		'user',
+		'group',
+		'qos_policy.name',
+	],
+	'/storage/quota/rules': [
+		'uuid',
+		'type',
+		'qtree',
+		'qtree.name',
+		'users',
+		'group',
+		'volume',
+		'volume.name',
+		'svm',
+		'svm.name',
+		'space',
+		'space.hard_limit',
+		'space.soft_limit',
+		'files',
+		'files.hard_limit',
+		'files.soft_limit',
+		'user_mapping',
+	],
+	'/storage/disks': [
+		'name',
+		'uid',
+		'serial_number',
+		'model',
+		'vendor',
+		'firmware_version',
+		'type',
+		'class',
+		'container_type',
+		'state',
+		'usable_size',
+		'physical_size',
+		'rpm',
+		'pool',
+		'node',
+		'node.name',
+		'home_node.name',
+		'aggregates',
+		'aggregates.name',
+		'shelf',
+		'bay',
+		'encryption_operation',
+		'fips_certified',
+		'protection_mode',
+		'stats',
+	],
+	'/network/ip/interfaces': [
+		'uuid',
+		'name',
+		'state',
+		'scope',
+		'enabled',
+		'ip',
+		'ip.address',
+		'ip.netmask',
+		'ip.family',
+		'svm',
+		'svm.name',
+		'ipspace',
+		'ipspace.name',
+		'location',
+		'location.home_node.name',
+		'location.home_port.name',
+		'location.node.name',
+		'location.port.name',
+		'location.is_home',
+		'location.auto_revert',
+		'location.failover',
+		'service_policy',
+		'service_policy.name',
+		'services',
+		'vip',
+		'dns_zone',
+		'statistics',
+		'metric',
+	],
+	'/network/ethernet/ports': [
+		'uuid',
+		'name',
+		'node',
+		'node.name',
+		'type',
+		'state',
+		'enabled',
+		'mtu',
+		'speed',
+		'mac_address',
+		'broadcast_domain',
+		'broadcast_domain.name',
+		'broadcast_domain.ipspace.name',
+		'lag',
+		'lag.mode',
+		'lag.member_ports',
+		'vlan',
+		'vlan.tag',
+		'vlan.base_port.name',
+		'reachability',
+		'statistics',
+		'metric',
+	],
+	'/network/ethernet/broadcast-domains': [
+		'uuid',
+		'name',
+		'mtu',
+		'ipspace',
+		'ipspace.name',
+		'ports',
+		'ports.name',
+		'ports.node.name',
+	],
+	'/network/ipspaces': [
+		'uuid',
+		'name',
+	],
+	'/network/ip/routes': [
+		'uuid',
+		'destination',
+		'destination.address',
+		'destination.netmask',
+		'gateway',
+		'metric',
+		'scope',
+		'svm',
+		'svm.name',
+		'ipspace',
+		'ipspace.name',
+	],
+	'/network/fc/interfaces': [
+		'uuid',
+		'name',
+		'state',
+		'enabled',
+		'data_protocol',
+		'wwpn',
+		'wwnn',
+		'port_address',
+		'svm',
+		'svm.name',
+		'location',
+		'location.home_node.name',
+		'location.home_port.name',
+		'location.node.name',
+		'location.port.name',
+		'comment',
+		'statistics',
+		'metric',
+	],
+	'/protocols/san/fcp/services': [
+		'enabled',
+		'target',
+		'target.name',
+		'svm',
+		'svm.name',
+		'statistics',
+		'metric',
+	],
+	'/protocols/san/iscsi/services': [
+		'enabled',
+		'target',
+		'target.name',
+		'target.alias',
+		'svm',
+		'svm.name',
+		'statistics',
+		'metric',
+	],
+	'/protocols/san/igroups': [
+		'uuid',
+		'name',
+		'os_type',
+		'protocol',
+		'comment',
+		'svm',
+		'svm.name',
+		'initiators',
+		'initiators.name',
+		'initiators.comment',
+		'lun_maps',
+		'lun_maps.lun.name',
+		'lun_maps.logical_unit_number',
+		'portset',
+		'portset.name',
+		'igroups',
+		'parent_igroups',
+		'delete_on_unmap',
+		'connectivity_tracking',
+	],
+	'/storage/luns': [
+		'uuid',
+		'name',
+		'svm',
+		'svm.name',
+		'os_type',
+		'serial_number',
+		'comment',
+		'enabled',
+		'class',
+		'location',
+		'location.volume.name',
+		'location.qtree.name',
+		'location.logical_unit',
+		'space',
+		'space.size',
+		'space.used',
+		'space.guarantee.requested',
+		'space.guarantee.reserved',
+		'status',
+		'status.state',
+		'status.mapped',
+		'status.read_only',
+		'lun_maps',
+		'lun_maps.igroup.name',
+		'lun_maps.logical_unit_number',
+		'qos_policy.name',
+		'create_time',
+		'statistics',
+		'metric',
+	],
+	'/protocols/san/lun-maps': [
+		'lun',
+		'lun.name',
+		'lun.uuid',
+		'igroup',
+		'igroup.name',
+		'igroup.uuid',
+		'logical_unit_number',
+		'svm',
+		'svm.name',
+		'reporting_nodes',
+	],
+	'/protocols/cifs/services': [
+		'name',
+		'enabled',
+		'comment',
+		'svm',
+		'svm.name',
+		'ad_domain',
+		'ad_domain.fqdn',
+		'ad_domain.organizational_unit',
+		'netbios',
+		'security',
+		'security.smb_signing',
+		'security.smb_encryption',
+		'security.restrict_anonymous',
+		'default_unix_user',
+		'metric',
+		'statistics',
+	],
+	'/protocols/cifs/shares': [
+		'name',
+		'path',
+		'comment',
+		'svm',
+		'svm.name',
+		'volume',
+		'volume.name',
+		'acls',
+		'acls.user_or_group',
+		'acls.permission',
+		'acls.type',
+		'oplocks',
+		'encryption',
+		'continuously_available',
+		'home_directory',
+		'access_based_enumeration',
+		'change_notify',
+		'unix_symlink',
+		'offline_files',
+		'vscan_profile',
+	],
+	'/protocols/cifs/sessions': [
+		'identifier',
+		'connection_id',
+		'svm',
+		'svm.name',
+		'user',
+		'mapped_unix_user',
+		'client_ip',
+		'server_ip',
+		'node',
+		'node.name',
+		'authentication',
+		'protocol',
+		'connected_duration',
+		'idle_duration',
+		'open_files',
+		'open_shares',
+		'open_other',
+		'continuous_availability',
+		'smb_encryption',
+		'smb_signing',
+		'large_mtu',
+		'volumes',
+	],
+	'/protocols/nfs/services': [
+		'enabled',
+		'state',
+		'svm',
+		'svm.name',
+		'protocol',
+		'protocol.v3_enabled',
+		'protocol.v4_id_domain',
+		'protocol.v40_enabled',
+		'protocol.v41_enabled',
+		'transport',
+		'transport.tcp_enabled',
+		'transport.udp_enabled',
+		'vstorage_enabled',
+		'showmount_enabled',
+		'auth_sys_extended_groups_enabled',
+		'metric',
+		'statistics',
+	],
+	'/protocols/nfs/export-policies': [
+		'id',
+		'name',
+		'svm',
+		'svm.name',
+		'rules',
+		'rules.index',
+		'rules.clients',
+		'rules.protocols',
+		'rules.ro_rule',
+		'rules.rw_rule',
+		'rules.superuser',
+	],
+	'/protocols/nfs/export-policies/{policy.id}/rules': [
+		'index',
+		'clients',
+		'clients.match',
+		'protocols',
+		'ro_rule',
+		'rw_rule',
+		'superuser',
+		'anonymous_user',
+		'allow_suid',
+		'allow_device_creation',
+		'chown_mode',
+		'ntfs_unix_security',
+	],
+	'/snapmirror/policies': [
+		'uuid',
+		'name',
+		'type',
+		'scope',
+		'comment',
+		'svm',
+		'svm.name',
+		'sync_type',
+		'transfer_schedule',
+		'transfer_schedule.name',
+		'retention',
+		'retention.label',
+		'retention.count',
+		'network_compression_enabled',
+		'throttle',
+		'identity_preservation',
+		'copy_all_source_snapshots',
+	],
+	'/snapmirror/relationships': [
+		'uuid',
+		'source',
+		'source.path',
+		'source.svm.name',
+		'source.cluster.name',
+		'destination',
+		'destination.path',
+		'destination.svm.name',
+		'policy',
+		'policy.name',
+		'policy.type',
+		'state',
+		'healthy',
+		'unhealthy_reason',
+		'lag_time',
+		'exported_snapshot',
+		'transfer',
+		'transfer.state',
+		'transfer.bytes_transferred',
+		'transfer.end_time',
+		'transfer_schedule.name',
+		'throttle',
+		'restore',
+		'group_type',
+	],
+	'/snapmirror/relationships/{relationship.uuid}/transfers': [
+		'uuid',
+		'state',
+		'bytes_transferred',
+		'total_duration',
+		'end_time',
+		'snapshot',
+		'source_snapshot',
+		'relationship',
+		'relationship.uuid',
+		'relationship.destination.path',
+		'checkpoint_size',
+		'throttle',
+		'error_info',
+	],
+	'/security/accounts': [
+		'name',
+		'owner',
+		'owner.name',
+		'scope',
+		'role',
+		'role.name',
+		'applications',
+		'applications.application',
+		'applications.authentication_methods',
+		'applications.second_authentication_method',
+		'comment',
+		'locked',
+		'password_hash_algorithm',
+	],
+	'/security/audit': [
+		'cli',
+		'http',
+		'ontapi',
+	],
+	'/security/certificates': [
+		'uuid',
+		'name',
+		'common_name',
+		'type',
+		'scope',
+		'svm',
+		'svm.name',
+		'serial_number',
+		'ca',
+		'subject_alternatives',
+		'expiry_time',
+		'hash_function',
+		'key_size',
+		'public_certificate',
+		'authority_key_identifier',
+		'subject_key_identifier',
+	],
+	'/security/key-managers': [
+		'uuid',
+		'scope',
+		'svm',
+		'svm.name',
+		'is_default_data_at_rest_encryption_disabled',
+		'status',
+		'status.code',
+		'status.message',
+		'onboard',
+		'onboard.enabled',
+		'onboard.key_backup',
+		'external',
+		'external.servers',
+		'external.client_certificate',
+		'external.server_ca_certificates',
+		'volume_encryption',
+		'policy',
+	],
+	'/security/login/messages': [
+		'uuid',
+		'scope',
+		'svm',
+		'svm.name',
+		'banner',
+		'message',
+		'show_cluster_message',
+	],
+	'/security/roles': [
+		'name',
+		'owner',
+		'owner.name',
+		'scope',
+		'builtin',
+		'privileges',
+		'privileges.path',
+		'privileges.access',
+		'privileges.query',
+	],
+	'/security/ssh': [
+		'ciphers',
+		'key_exchange_algorithms',
+		'mac_algorithms',
+		'max_authentication_retry_count',
+		'connections_per_second',
+		'max_instances',
+		'per_source_limit',
+	],
+};
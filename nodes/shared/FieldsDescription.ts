@@ -0,0 +1,18 @@
+import type { INodeProperties } from 'n8n-workflow';
+
+/**
+ * "Fields" picker for the Options collection, listing the fields of the
+ * selected resource from the field catalog. Nodes provide it through a
+ * `getFields` load options method, see `getCatalogFieldOptions`.
+ */
+export const fieldsOption: INodeProperties = {
+	displayName: 'Field Names or IDs',
+	name: 'fields',
+	type: 'multiOptions',
+	typeOptions: {
+		loadOptionsMethod: 'getFields',
+		loadOptionsDependsOn: ['/resource'],
+	},
+	default: [],
+	description: 'Fields to include in the response. * returns all fields, ** also the expensive ones such as statistics and metrics. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+};
@@ -0,0 +1,144 @@
+import type { INodeProperties } from 'n8n-workflow';
+
+/**
+ * "Conditions" filter builder for the Filters collection of getMany
+ * operations. Each condition becomes one ONTAP query parameter, see
+ * `buildFilterConditions`.
+ */
+export const filterConditionsOption: INodeProperties = {
+	displayName: 'Conditions',
+	name: 'conditions',
+	type: 'fixedCollection',
+	placeholder: 'Add Condition',
+	default: {},
+	typeOptions: {
+		multipleValues: true,
+	},
+	description: 'Conditions that records must match. Values are escaped, so ONTAP query characters such as * or | are matched literally unless the operator says otherwise.',
+	options: [
+		{
+			displayName: 'Condition',
+			name: 'condition',
+			values: [
+				{
+					displayName: 'Field',
+					name: 'field',
+					type: 'string',
+					default: '',
+					placeholder: 'svm.name',
+					description: 'Record field to filter on, use dots for nested fields',
+				},
+				{
+					displayName: 'Operator',
+					name: 'operator',
+					type: 'options',
+					options: [
+						{ name: 'Equals', value: 'equals' },
+						{ name: 'Greater Than', value: 'greaterThan' },
+						{ name: 'Greater Than or Equal', value: 'greaterThanOrEqual' },
+						{
+							name: 'Is One Of',
+							value: 'oneOf',
+							description: 'Comma-separated values, quote a value that contains a comma',
+						},
+						{ name: 'Less Than', value: 'lessThan' },
+						{ name: 'Less Than or Equal', value: 'lessThanOrEqual' },
+						{
+							name: 'Matches Pattern',
+							value: 'matches',
+							description: 'Use * as a wildcard, the value is passed to ONTAP as is',
+						},
+						{ name: 'Not Equals', value: 'notEquals' },
+					],
+					default: 'equals',
+					description: 'How the field is compared with the value',
+				},
+				{
+					displayName: 'Value',
+					name: 'value',
+					type: 'string',
+					default: '',
+					description: 'Value to compare the field with',
+				},
+			],
+		},
+	],
+};
+
+/**
+ * Sorting, return timeout, page size and record counting for the Filters
+ * collection of getMany operations, see `buildListQuery`
+ */
+export const listControlOptions: INodeProperties[] = [
+	{
+		displayName: 'Sort',
+		name: 'sort',
+		type: 'fixedCollection',
+		placeholder: 'Add Sort Field',
+		default: {},
+		typeOptions: {
+			multipleValues: true,
+		},
+		description: 'Fields to order the records by, the first one takes precedence',
+		options: [
+			{
+				displayName: 'Sort Field',
+				name: 'sortField',
+				values: [
+					{
+						displayName: 'Field',
+						name: 'field',
+						type: 'string',
+						default: '',
+						placeholder: 'space.used',
+						description: 'Record field to sort on, use dots for nested fields',
+					},
+					{
+						displayName: 'Direction',
+						name: 'direction',
+						type: 'options',
+						options: [
+							{ name: 'Ascending', value: 'asc' },
+							{ name: 'Descending', value: 'desc' },
+						],
+						default: 'asc',
+						description: 'Whether to sort from the lowest or the highest value',
+					},
+				],
+			},
+		],
+	},
+	{
+		displayName: 'Return Timeout',
+		name: 'returnTimeout',
+		type: 'number',
+		default: 15,
+		typeOptions: {
+			minValue: 1,
+			maxValue: 120,
+		},
+		description: 'Seconds ONTAP may spend on each page before returning what it has. Raise it for slow collections such as EMS events or files. The remaining records are still fetched through the next page.',
+	},
+	{
+		displayName: 'Page Size',
+		name: 'pageSize',
+		type: 'number',
+		default: 1000,
+		typeOptions: {
+			minValue: 1,
+		},
+		description: 'Number of records requested per page when returning all results. Smaller pages keep each request short, larger ones need fewer requests.',
+	},
+	{
+		displayName: 'Return Records',
+		name: 'returnRecords',
+		type: 'boolean',
+		default: true,
+		displayOptions: {
+			hide: {
+				returnAll: [false],
+			},
+		},
+		description: 'Whether to return the matching records. Turn off to only count them, which returns a single item with num_records.',
+	},
+];
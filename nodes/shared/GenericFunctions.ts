@@ -1,15 +1,36 @@
 import type {
+	IAdditionalCredentialOptions,
 	IDataObject,
 	IExecuteFunctions,
 	IHookFunctions,
 	IHttpRequestMethods,
 	IHttpRequestOptions,
 	ILoadOptionsFunctions,
+	INodeExecutionData,
+	INodeListSearchResult,
+	INodePropertyOptions,
+	IPollFunctions,
 	JsonObject,
 } from 'n8n-workflow';
-import { NodeApiError, sleep } from 'n8n-workflow';
+import { NodeApiError, NodeOperationError, jsonParse, sleep } from 'n8n-workflow';
 
-import type { OntapApiResponse, OntapJob, OntapCredentials } from './types';
+import { ONTAP_FIELD_CATALOG } from './FieldCatalog';
+import type {
+	OntapApiResponse,
+	OntapJob,
+	OntapJobHistoryEntry,
+	OntapJobOptions,
+	OntapCredentials,
+	OntapEnsureTarget,
+	OntapErrorDetails,
+	OntapErrorType,
+	OntapIfExists,
+	OntapListOptions,
+	OntapListSearchOptions,
+	OntapMinimumVersions,
+	OntapToolOperations,
+	OntapVersion,
+} from './types';
 
 /**
  * Default timeout for job polling (5 minutes)
@@ -21,6 +42,51 @@ const DEFAULT_JOB_TIMEOUT_MS = 300000;
  */
 const DEFAULT_POLL_INTERVAL_MS = 2000;
 
+/**
+ * Page size for "From List" resource locator searches
+ */
+const LIST_SEARCH_PAGE_SIZE = 100;
+
+/**
+ * Page size of `ontapApiRequestAllItems` when the query sets none
+ */
+const DEFAULT_PAGE_SIZE = 1000;
+
+/**
+ * Default number of retries for transient request failures
+ */
+const DEFAULT_MAX_RETRIES = 3;
+
+/**
+ * Default base delay for exponential retry backoff (1 second)
+ */
+const DEFAULT_RETRY_DELAY_MS = 1000;
+
+/**
+ * Upper bound for a single retry delay, including Retry-After (60 seconds)
+ */
+const MAX_RETRY_DELAY_MS = 60000;
+
+/**
+ * HTTP status codes that indicate a transient ONTAP condition
+ * (throttling, gateway errors, service unavailable during takeover/giveback)
+ */
+const RETRYABLE_STATUS_CODES = [408, 429, 502, 503, 504];
+
+/**
+ * Network error codes that indicate a dropped or refused connection
+ */
+const RETRYABLE_ERROR_CODES = [
+	'ECONNRESET',
+	'ECONNREFUSED',
+	'ECONNABORTED',
+	'ETIMEDOUT',
+	'EPIPE',
+	'EAI_AGAIN',
+	'EHOSTUNREACH',
+	'ENETUNREACH',
+];
+
 /**
  * Build the base URL for ONTAP API requests
  */
@@ -28,11 +94,149 @@ export function getOntapBaseUrl(host: string, port: number = 443): string {
 	return `https://${host}:${port}`;
 }
 
+/**
+ * Resolve the cluster base URL for a request.
+ * The node's Cluster Host overrides the credential's, so switching the
+ * credential retargets every node that leaves Cluster Host empty.
+ */
+export function resolveOntapBaseUrl(
+	this: IExecuteFunctions | ILoadOptionsFunctions | IHookFunctions | IPollFunctions,
+	credentials: OntapCredentials,
+): string {
+	// Only execute functions take an item index, the other contexts read node parameters directly
+	const getParameter = (name: string, fallback: string | number) =>
+		'getInputData' in this
+			? (this as IExecuteFunctions).getNodeParameter(name, 0, fallback)
+			: (this as IHookFunctions).getNodeParameter(name, fallback);
+
+	const clusterHost = ((getParameter('clusterHost', '') as string) || '').trim();
+	if (clusterHost) {
+		const clusterPort = getParameter('clusterPort', 443) as number;
+		return getOntapBaseUrl(clusterHost, clusterPort);
+	}
+
+	if (credentials.clusterHost) {
+		return getOntapBaseUrl(credentials.clusterHost.trim(), credentials.clusterPort || 443);
+	}
+
+	throw new NodeOperationError(
+		this.getNode(),
+		'No cluster host configured. Set Cluster Host on the node or in the NetApp ONTAP API credential.',
+	);
+}
+
+/**
+ * Request limits per cluster base URL. Module state is shared by every ONTAP
+ * node in the n8n process, so separate workflows targeting one cluster share
+ * the credential's "Max Concurrent Requests" and "Max Requests per Second".
+ */
+const clusterRequestSlots = new Map<string, { inFlight: number; waiting: Array<() => void>; nextStart: number }>();
+
+/**
+ * Wait until a request to the cluster may start, returning a function that
+ * frees its slot once the request has finished. Calling it again is a no-op.
+ */
+async function acquireRequestSlot(baseUrl: string, credentials: OntapCredentials): Promise<() => void> {
+	const maxConcurrent = credentials.maxConcurrentRequests || 0;
+	const maxPerSecond = credentials.maxRequestsPerSecond || 0;
+
+	const slots = clusterRequestSlots.get(baseUrl) ?? { inFlight: 0, waiting: [], nextStart: 0 };
+	clusterRequestSlots.set(baseUrl, slots);
+
+	if (maxConcurrent > 0 && slots.inFlight >= maxConcurrent) {
+		// A finishing request hands its slot over, so inFlight already counts this one
+		await new Promise<void>((resolve) => slots.waiting.push(resolve));
+	} else {
+		slots.inFlight++;
+	}
+
+	if (maxPerSecond > 0) {
+		const now = Date.now();
+		const start = Math.max(now, slots.nextStart);
+		slots.nextStart = start + 1000 / maxPerSecond;
+		if (start > now) {
+			await sleep(start - now);
+		}
+	}
+
+	let released = false;
+	return () => {
+		if (released) {
+			return;
+		}
+		released = true;
+		const next = slots.waiting.shift();
+		if (next) {
+			next();
+		} else {
+			slots.inFlight--;
+		}
+	};
+}
+
+/**
+ * Requests held back by the node's "Dry Run" option, per execution context
+ * until the node collects them with `getDryRunOutput`. `processItems` clears
+ * them before each item, so a failed item's requests don't leak into the next.
+ */
+const dryRunRequests = new WeakMap<object, IDataObject[]>();
+
+/**
+ * Whether the node's "Dry Run" option is on. Only action nodes have it, so
+ * triggers and other contexts always send their requests.
+ */
+function isDryRun(this: IExecuteFunctions | ILoadOptionsFunctions | IHookFunctions | IPollFunctions): boolean {
+	return 'getInputData' in this && (this as IExecuteFunctions).getNodeParameter('dryRun', 0, false) === true;
+}
+
+/**
+ * Replace an item's output with the requests it would have sent when the
+ * node runs as a dry run. Items that only read keep their output.
+ */
+export function getDryRunOutput(
+	this: IExecuteFunctions,
+	responseData: IDataObject | IDataObject[],
+): IDataObject | IDataObject[] {
+	const requests = dryRunRequests.get(this);
+	if (!requests || requests.length === 0) {
+		return responseData;
+	}
+	dryRunRequests.delete(this);
+	return { dryRun: true, requests };
+}
+
+/**
+ * Hand n8n the credential with its OAuth access token cleared once the token
+ * has expired. n8n only fetches a new token when the stored one is empty or was
+ * rejected with a 401, so this refreshes it before the request instead of after.
+ */
+function getExpiredTokenOptions(
+	this: IExecuteFunctions | ILoadOptionsFunctions | IHookFunctions | IPollFunctions,
+	credentials: OntapCredentials,
+): IAdditionalCredentialOptions | undefined {
+	if (
+		credentials.authentication !== 'oauth2'
+		|| !credentials.accessTokenExpiresAt
+		|| Date.now() < credentials.accessTokenExpiresAt
+	) {
+		return undefined;
+	}
+	const nodeCredentials = this.getNode().credentials?.netAppOntapApi;
+	return {
+		credentialsDecrypted: {
+			id: nodeCredentials?.id ?? '',
+			name: nodeCredentials?.name ?? '',
+			type: 'netAppOntapApi',
+			data: { ...credentials, accessToken: '' },
+		},
+	};
+}
+
 /**
  * Make an authenticated request to the ONTAP REST API
  */
 export async function ontapApiRequest(
-	this: IExecuteFunctions | ILoadOptionsFunctions | IHookFunctions,
+	this: IExecuteFunctions | ILoadOptionsFunctions | IHookFunctions | IPollFunctions,
 	method: IHttpRequestMethods,
 	endpoint: string,
 	body: IDataObject = {},
@@ -40,11 +244,7 @@ export async function ontapApiRequest(
 	uri?: string,
 ): Promise<OntapApiResponse> {
 	const credentials = await this.getCredentials('netAppOntapApi') as OntapCredentials;
-
-	// Get cluster host and port from node parameters
-	const clusterHost = this.getNodeParameter('clusterHost', 0) as string;
-	const clusterPort = this.getNodeParameter('clusterPort', 0, 443) as number;
-	const baseUrl = getOntapBaseUrl(clusterHost, clusterPort);
+	const baseUrl = resolveOntapBaseUrl.call(this, credentials);
 
 	const options: IHttpRequestOptions = {
 		method,
@@ -69,42 +269,131 @@ export async function ontapApiRequest(
 		delete options.qs;
 	}
 
-	try {
-		const response = await this.helpers.httpRequestWithAuthentication.call(
-			this,
-			'netAppOntapApi',
-			options,
-		);
-		return response as OntapApiResponse;
-	} catch (error) {
-		throw new NodeApiError(this.getNode(), error as JsonObject, {
-			message: parseOntapError(error),
-		});
+	// A dry run still sends GETs, e.g. to resolve names to UUIDs, but only records changes
+	if (method !== 'GET' && isDryRun.call(this)) {
+		const requests = dryRunRequests.get(this) ?? [];
+		requests.push({ method, url: options.url, query, body: cleanObject(body) });
+		dryRunRequests.set(this, requests);
+		return {};
+	}
+
+	// POST is not idempotent in ONTAP (a retried create may duplicate or conflict),
+	// so it is only retried when the credential explicitly allows it
+	const maxRetries = method === 'POST' && !credentials.retryNonIdempotent
+		? 0
+		: credentials.maxRetries ?? DEFAULT_MAX_RETRIES;
+	const retryDelayMs = credentials.retryDelay ?? DEFAULT_RETRY_DELAY_MS;
+	// Retries read the credential again, which then holds the refreshed token
+	const expiredTokenOptions = getExpiredTokenOptions.call(this, credentials);
+
+	for (let attempt = 0; ; attempt++) {
+		const releaseSlot = await acquireRequestSlot(baseUrl, credentials);
+		try {
+			const response = await this.helpers.httpRequestWithAuthentication.call(
+				this,
+				'netAppOntapApi',
+				options,
+				attempt === 0 ? expiredTokenOptions : undefined,
+			);
+			return response as OntapApiResponse;
+		} catch (error) {
+			// Free the slot before waiting to retry, so other requests can use it meanwhile
+			releaseSlot();
+			if (attempt < maxRetries && isRetryableError(error)) {
+				await sleep(getRetryDelay(error, attempt, retryDelayMs));
+				continue;
+			}
+			const details = getOntapErrorDetails(error);
+			const apiError = new NodeApiError(this.getNode(), error as JsonObject, {
+				message: details.message,
+			});
+			// An error n8n's request helper already wrapped is handed back as is, without the message
+			apiError.message = details.message;
+			apiError.context.ontapError = { ...details, method, endpoint };
+			throw apiError;
+		} finally {
+			releaseSlot();
+		}
+	}
+}
+
+/**
+ * Extract the HTTP status code from a request error, if any
+ */
+function getErrorStatusCode(error: unknown): number | undefined {
+	const err = error as IDataObject;
+	const response = err.response as IDataObject | undefined;
+	const status = err.statusCode ?? err.httpCode ?? response?.status ?? response?.statusCode;
+	return status !== undefined ? Number(status) : undefined;
+}
+
+/**
+ * Check whether a failed request is worth retrying (throttling, service
+ * unavailable, or a connection dropped e.g. during a node takeover)
+ */
+export function isRetryableError(error: unknown): boolean {
+	const statusCode = getErrorStatusCode(error);
+	if (statusCode !== undefined && RETRYABLE_STATUS_CODES.includes(statusCode)) {
+		return true;
 	}
+
+	const err = error as IDataObject;
+	const cause = err.cause as IDataObject | undefined;
+	const code = (err.code ?? cause?.code) as string | undefined;
+	return code !== undefined && RETRYABLE_ERROR_CODES.includes(code);
+}
+
+/**
+ * Compute the delay before the next retry.
+ * Honors a Retry-After header (seconds or HTTP date) when the server sends one,
+ * otherwise uses exponential backoff with jitter.
+ */
+export function getRetryDelay(error: unknown, attempt: number, baseDelayMs: number = DEFAULT_RETRY_DELAY_MS): number {
+	// n8n wraps the axios error in a NodeApiError and keeps the response under cause
+	const err = error as IDataObject;
+	const response = (err.response ?? (err.cause as IDataObject | undefined)?.response) as IDataObject | undefined;
+	const headers = (response?.headers || {}) as IDataObject;
+	const retryAfter = headers['retry-after'] as string | undefined;
+
+	if (retryAfter !== undefined) {
+		const seconds = Number(retryAfter);
+		const delayMs = isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+		if (!isNaN(delayMs)) {
+			return Math.min(Math.max(delayMs, 0), MAX_RETRY_DELAY_MS);
+		}
+	}
+
+	// Equal jitter: half the exponential delay is fixed, the other half is random
+	const exponentialDelay = Math.min(baseDelayMs * 2 ** attempt, MAX_RETRY_DELAY_MS);
+	return Math.floor(exponentialDelay / 2 + Math.random() * (exponentialDelay / 2));
 }
 
 /**
  * Make a paginated request to fetch all items from an ONTAP endpoint
  */
 export async function ontapApiRequestAllItems(
-	this: IExecuteFunctions | ILoadOptionsFunctions,
+	this: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
 	method: IHttpRequestMethods,
 	endpoint: string,
 	body: IDataObject = {},
 	query: IDataObject = {},
 	propertyName = 'records',
 ): Promise<IDataObject[]> {
-	// Get cluster host and port from node parameters
-	const clusterHost = this.getNodeParameter('clusterHost', 0) as string;
-	const clusterPort = this.getNodeParameter('clusterPort', 0, 443) as number;
-	const baseUrl = getOntapBaseUrl(clusterHost, clusterPort);
+	const credentials = await this.getCredentials('netAppOntapApi') as OntapCredentials;
+	const baseUrl = resolveOntapBaseUrl.call(this, credentials);
 
 	const returnData: IDataObject[] = [];
 	let responseData: OntapApiResponse;
 	let nextLink: string | undefined;
 
 	// Set max_records for pagination if not already specified
-	query.max_records = query.max_records || 1000;
+	query.max_records = query.max_records || DEFAULT_PAGE_SIZE;
+
+	// Without records ONTAP only answers with the number of matching records
+	if (query.return_records === false) {
+		const response = await ontapApiRequest.call(this, method, endpoint, body, query);
+		return [{ num_records: response.num_records ?? 0 }];
+	}
 
 	do {
 		if (nextLink) {
@@ -126,15 +415,321 @@ export async function ontapApiRequestAllItems(
 }
 
 /**
- * Poll an ONTAP job until completion
+ * Read a (possibly nested) field from an ONTAP record using a dotted path
+ */
+export function getRecordValue(record: IDataObject, path: string): unknown {
+	return path.split('.').reduce<unknown>(
+		(value, key) => (value !== null && typeof value === 'object' ? (value as IDataObject)[key] : undefined),
+		record,
+	);
+}
+
+/**
+ * Search an ONTAP collection for a resource locator's "From List" mode.
+ * The search text becomes a server-side `<field>=*text*` query and the
+ * pagination token is the HAL `_links.next` href of the previous page.
+ */
+export async function ontapListSearch(
+	this: ILoadOptionsFunctions,
+	endpoint: string,
+	filter?: string,
+	paginationToken?: string,
+	listOptions: OntapListSearchOptions = {},
+): Promise<INodeListSearchResult> {
+	const nameField = listOptions.nameField || 'name';
+	const valueField = listOptions.valueField || 'uuid';
+	const filterField = listOptions.filterField === undefined ? nameField : listOptions.filterField;
+
+	let responseData: OntapApiResponse;
+	if (paginationToken) {
+		const credentials = await this.getCredentials('netAppOntapApi') as OntapCredentials;
+		const baseUrl = resolveOntapBaseUrl.call(this, credentials);
+		responseData = await ontapApiRequest.call(this, 'GET', '', {}, {}, `${baseUrl}${paginationToken}`);
+	} else {
+		const fields = new Set([nameField, valueField, ...(listOptions.fields || [])]);
+		if (listOptions.showSvm) {
+			fields.add('svm.name');
+		}
+		const qs: IDataObject = {
+			...listOptions.query,
+			fields: [...fields].join(','),
+			max_records: LIST_SEARCH_PAGE_SIZE,
+		};
+		if (filterField) {
+			qs.order_by = filterField;
+			if (filter) {
+				qs[filterField] = `*${filter}*`;
+			}
+		}
+		responseData = await ontapApiRequest.call(this, 'GET', endpoint, {}, qs);
+	}
+
+	const records = responseData.records || [];
+	return {
+		results: records.map((record) => {
+			let name = listOptions.getName ? listOptions.getName(record) : String(getRecordValue(record, nameField) ?? '');
+			const svmName = getRecordValue(record, 'svm.name');
+			if (listOptions.showSvm && svmName) {
+				name = `${name} (${svmName})`;
+			}
+			return {
+				name,
+				value: listOptions.getValue ? listOptions.getValue(record) : String(getRecordValue(record, valueField) ?? ''),
+			};
+		}),
+		paginationToken: responseData._links?.next?.href,
+	};
+}
+
+/**
+ * Build the SVM query for scoping a list search to the SVM selected in another
+ * resource locator parameter (empty when nothing is selected yet)
+ */
+export function getSvmScopeQuery(this: ILoadOptionsFunctions, parameterName: string): IDataObject {
+	const locator = this.getCurrentNodeParameter(parameterName) as { mode?: string; value?: string } | undefined;
+	const value = locator?.value;
+	if (!value || value.startsWith('=')) {
+		return {};
+	}
+	return locator.mode === 'uuid' ? { 'svm.uuid': value } : { 'svm.name': value };
+}
+
+/**
+ * Name lookups done by `resolveOntapId`, per execution context. Each entry is
+ * keyed by cluster, collection, SVM scope and name and holds the pending
+ * lookup of the matching UUIDs, so concurrent items share one request.
+ */
+const resolvedIds = new WeakMap<object, Map<string, Promise<string[]>>>();
+
+/**
+ * Resolve the name of an ONTAP object to its UUID. Lookups are cached for
+ * the rest of the execution; call `invalidateOntapIds` once an object of the
+ * collection has been deleted or renamed. Fails the item when no object or
+ * more than one object has the name.
+ * @param endpoint - Collection the object lives in, e.g. `/storage/volumes`
+ * @param label - Object type used in the errors, e.g. `Volume`
+ * @param svmName - Limit the lookup to one SVM
+ */
+export async function resolveOntapId(
+	this: IExecuteFunctions,
+	endpoint: string,
+	name: string,
+	label: string,
+	itemIndex: number,
+	svmName?: string,
+): Promise<string> {
+	const credentials = await this.getCredentials('netAppOntapApi') as OntapCredentials;
+	const key = JSON.stringify([resolveOntapBaseUrl.call(this, credentials), endpoint, svmName ?? '', name]);
+
+	const cache = resolvedIds.get(this) ?? new Map<string, Promise<string[]>>();
+	resolvedIds.set(this, cache);
+
+	let lookup = cache.get(key);
+	if (!lookup) {
+		const query: IDataObject = { name, fields: 'uuid' };
+		if (svmName) query['svm.name'] = svmName;
+		lookup = ontapApiRequestAllItems.call(this, 'GET', endpoint, {}, query)
+			.then((records) => records.map((record) => record.uuid as string));
+		cache.set(key, lookup);
+		lookup.catch(() => cache.delete(key));
+	}
+
+	const uuids = await lookup;
+	if (uuids.length === 0) {
+		// A failed lookup is not cached, the object may be created by a later item
+		cache.delete(key);
+		throw new NodeOperationError(this.getNode(), `${label} "${name}" not found`, { itemIndex });
+	}
+	if (uuids.length > 1) {
+		throw new NodeOperationError(this.getNode(), `More than one ${label} is named "${name}"`, {
+			description: svmName ? 'Select it by UUID instead' : 'Set the SVM as well, or select it by UUID',
+			itemIndex,
+		});
+	}
+	return uuids[0];
+}
+
+/**
+ * Forget the cached names of a collection after one of its objects was
+ * deleted or renamed
+ */
+export function invalidateOntapIds(this: IExecuteFunctions, endpoint: string): void {
+	const cache = resolvedIds.get(this);
+	if (!cache) {
+		return;
+	}
+	for (const key of cache.keys()) {
+		if ((JSON.parse(key) as string[])[1] === endpoint) {
+			cache.delete(key);
+		}
+	}
+}
+
+/**
+ * Cluster versions read by `getOntapVersion`, per execution context and cluster
+ */
+const clusterVersions = new WeakMap<object, Map<string, Promise<OntapVersion>>>();
+
+/**
+ * ONTAP release of the cluster, read from `/cluster` once per execution
+ */
+export async function getOntapVersion(this: IExecuteFunctions): Promise<OntapVersion> {
+	const credentials = await this.getCredentials('netAppOntapApi') as OntapCredentials;
+	const baseUrl = resolveOntapBaseUrl.call(this, credentials);
+
+	const cache = clusterVersions.get(this) ?? new Map<string, Promise<OntapVersion>>();
+	clusterVersions.set(this, cache);
+
+	let probe = cache.get(baseUrl);
+	if (!probe) {
+		probe = ontapApiRequest.call(this, 'GET', '/cluster', {}, { fields: 'version' })
+			.then((cluster) => cluster.version as OntapVersion);
+		cache.set(baseUrl, probe);
+		probe.catch(() => cache.delete(baseUrl));
+	}
+	return await probe;
+}
+
+/**
+ * Compare two releases given as `9.8` or `9.10.1`, returning a negative
+ * number when `a` is older than `b`
+ */
+export function compareOntapVersions(a: string, b: string): number {
+	const partsA = a.split('.').map(Number);
+	const partsB = b.split('.').map(Number);
+	for (let index = 0; index < Math.max(partsA.length, partsB.length); index++) {
+		const difference = (partsA[index] || 0) - (partsB[index] || 0);
+		if (difference !== 0) {
+			return difference;
+		}
+	}
+	return 0;
+}
+
+/**
+ * Fail an item before its request is sent when the cluster is older than the
+ * release the operation needs. Operations without an entry are not checked
+ * and cost no request.
+ */
+export async function assertOntapVersion(
+	this: IExecuteFunctions,
+	minimumVersions: OntapMinimumVersions,
+	resource: string,
+	operation: string,
+	itemIndex: number,
+): Promise<void> {
+	const minimum = minimumVersions[resource]?.[operation];
+	if (!minimum) {
+		return;
+	}
+
+	const version = await getOntapVersion.call(this);
+	const current = `${version.generation}.${version.major}.${version.minor}`;
+	if (compareOntapVersions(current, minimum) < 0) {
+		throw new NodeOperationError(this.getNode(), `This operation requires ONTAP ${minimum} or later`, {
+			description: `The cluster runs ONTAP ${current}`,
+			itemIndex,
+		});
+	}
+}
+
+/**
+ * Fail an item that requests or sets a record field the cluster's release does
+ * not have yet, naming the field. A field matches its own entry and the entries
+ * of the objects it is nested in. The version is only read when a field has an entry.
+ */
+export async function assertOntapFieldVersions(
+	this: IExecuteFunctions,
+	minimumFieldVersions: OntapMinimumVersions,
+	resource: string,
+	fields: string | string[] | undefined,
+	itemIndex: number,
+): Promise<void> {
+	const minimums = minimumFieldVersions[resource];
+	const names = ((buildFieldsQuery(fields).fields as string | undefined) ?? '').split(',');
+	const gated = minimums
+		? names.flatMap((name) => Object.keys(minimums)
+			.filter((field) => name === field || name.startsWith(`${field}.`))
+			.map((field) => ({ field, minimum: minimums[field] })))
+		: [];
+	if (gated.length === 0) {
+		return;
+	}
+
+	const version = await getOntapVersion.call(this);
+	const current = `${version.generation}.${version.major}.${version.minor}`;
+	const unsupported = gated.find(({ minimum }) => compareOntapVersions(current, minimum) < 0);
+	if (unsupported) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`The "${unsupported.field}" field requires ONTAP ${unsupported.minimum} or later`,
+			{ description: `The cluster runs ONTAP ${current}`, itemIndex },
+		);
+	}
+}
+
+/**
+ * Build the job failure (or timeout) error. The job details, and the
+ * history when collected, are kept in the error context so that
+ * `getErrorOutput` can return them with "Continue On Fail".
+ */
+function createJobError(
+	this: IExecuteFunctions,
+	job: OntapJob | undefined,
+	message: string,
+	description: string | undefined,
+	history: OntapJobHistoryEntry[] | undefined,
+	elapsedMs: number,
+): NodeApiError {
+	const details: string[] = description ? [description] : [];
+	if (history?.length) {
+		details.push(
+			'Job history:',
+			...history.map((entry) => `${entry.time} ${entry.state}${entry.message ? `: ${entry.message}` : ''}`),
+		);
+	}
+
+	const error = new NodeApiError(this.getNode(), (job ?? {}) as JsonObject, {
+		message,
+		description: details.length ? details.join('\n') : undefined,
+	});
+	const jobError = job?.error;
+	const code = jobError?.code ?? (job?.code ? job.code : undefined);
+	error.context.ontapError = {
+		message,
+		type: (code !== undefined && ONTAP_ERROR_CODES[String(code)]?.type) || 'unknown',
+		code: code !== undefined ? String(code) : undefined,
+		target: jobError?.target,
+		arguments: jobError?.arguments,
+	};
+	error.context.jobFailure = {
+		job: job ? cleanObject({
+			uuid: job.uuid,
+			state: job.state,
+			message: job.message,
+			code: job.code,
+			error: job.error,
+		}) : undefined,
+		...(history && { _jobHistory: history, _jobElapsedMs: elapsedMs }),
+	};
+	return error;
+}
+
+/**
+ * Poll an ONTAP job until completion. With `includeHistory` every change of
+ * state or message is collected into `_jobHistory`, and the time spent
+ * waiting is returned as `_jobElapsedMs`.
  */
 export async function pollJobUntilComplete(
 	this: IExecuteFunctions,
 	jobUuid: string,
 	timeoutMs: number = DEFAULT_JOB_TIMEOUT_MS,
 	pollIntervalMs: number = DEFAULT_POLL_INTERVAL_MS,
+	includeHistory = false,
 ): Promise<OntapJob> {
 	const startTime = Date.now();
+	const history: OntapJobHistoryEntry[] | undefined = includeHistory ? [] : undefined;
+	let lastJob: OntapJob | undefined;
 
 	while (Date.now() - startTime < timeoutMs) {
 		const jobResponse = await ontapApiRequest.call(
@@ -142,20 +737,40 @@ export async function pollJobUntilComplete(
 			'GET',
 			`/cluster/jobs/${jobUuid}`,
 		) as unknown as OntapJob;
+		lastJob = jobResponse;
 
 		const state = jobResponse.state;
 
+		// Only record polls that show progress, long jobs would otherwise repeat the same entry
+		const previous = history?.[history.length - 1];
+		if (history && (previous?.state !== state || previous?.message !== jobResponse.message)) {
+			history.push(cleanObject({
+				time: new Date().toISOString(),
+				state,
+				message: jobResponse.message,
+				code: jobResponse.code,
+			}) as OntapJobHistoryEntry);
+		}
+
 		// Job completed successfully
 		if (state === 'success') {
-			return jobResponse;
+			return history
+				? { ...jobResponse, _jobHistory: history, _jobElapsedMs: Date.now() - startTime }
+				: jobResponse;
 		}
 
 		// Job failed
 		if (state === 'failure') {
 			const errorMessage = jobResponse.message || 'Job failed without error message';
-			throw new NodeApiError(this.getNode(), { message: errorMessage } as JsonObject, {
-				message: `ONTAP job failed: ${errorMessage}`,
-			});
+			const errorCode = (jobResponse.error?.code as string | undefined) ?? jobResponse.code;
+			throw createJobError.call(
+				this,
+				jobResponse,
+				`ONTAP job failed: ${errorMessage}`,
+				errorCode ? `ONTAP error code ${errorCode}` : undefined,
+				history,
+				Date.now() - startTime,
+			);
 		}
 
 		// Job still running, wait before polling again
@@ -170,38 +785,62 @@ export async function pollJobUntilComplete(
 		});
 	}
 
-	throw new NodeApiError(this.getNode(), {} as JsonObject, {
-		message: `Job ${jobUuid} did not complete within ${timeoutMs / 1000} seconds`,
-	});
+	throw createJobError.call(
+		this,
+		lastJob,
+		`Job ${jobUuid} did not complete within ${timeoutMs / 1000} seconds`,
+		'The job is still running on the cluster. Increase the timeout, or turn off "Wait for Completion" and wait for the job in a later step.',
+		history,
+		Date.now() - startTime,
+	);
+}
+
+/**
+ * Read the "Job Options" collection of an operation that may return a job
+ */
+export function getJobOptions(this: IExecuteFunctions, itemIndex: number): OntapJobOptions {
+	return this.getNodeParameter('jobOptions', itemIndex, {}) as OntapJobOptions;
 }
 
 /**
  * Handle async job responses - if response contains a job, poll until complete
+ * unless the operation was told not to wait
  */
 export async function handleAsyncResponse(
 	this: IExecuteFunctions,
 	response: OntapApiResponse,
-	waitForCompletion = true,
+	jobOptions: OntapJobOptions = {},
 ): Promise<IDataObject> {
 	// Check if response contains a job reference
 	const job = response.job as IDataObject | undefined;
 	
 	if (job && job.uuid) {
-		if (waitForCompletion) {
+		if (jobOptions.waitForCompletion !== false) {
+			const timeoutMs = jobOptions.timeout ? jobOptions.timeout * 1000 : DEFAULT_JOB_TIMEOUT_MS;
+			const pollIntervalMs = jobOptions.pollInterval ? jobOptions.pollInterval * 1000 : DEFAULT_POLL_INTERVAL_MS;
+
 			// Poll the job until completion
-			const completedJob = await pollJobUntilComplete.call(this, job.uuid as string);
+			const { _jobHistory, _jobElapsedMs, ...completedJob } = await pollJobUntilComplete.call(
+				this,
+				job.uuid as string,
+				timeoutMs,
+				pollIntervalMs,
+				jobOptions.includeHistory === true,
+			);
 			
 			// Return the completed job information along with the original response
 			return {
 				...response,
 				job: completedJob,
 				_jobCompleted: true,
+				...(jobOptions.includeHistory && { _jobHistory, _jobElapsedMs }),
 			};
 		}
 		
-		// Return immediately with job info
+		// Return immediately with the job UUID so a later step can wait on it
 		return {
 			...response,
+			jobUuid: job.uuid,
 			_jobCompleted: false,
 		};
 	}
@@ -210,68 +849,568 @@ export async function handleAsyncResponse(
 	return response;
 }
 
+function isPlainObject(value: unknown): value is IDataObject {
+	return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Whether an existing value already has everything a desired value asks for.
+ * Objects and arrays may hold more than desired, e.g. the UUIDs ONTAP adds to
+ * `{ name }` references.
+ */
+function matchesDesiredValue(desired: unknown, existing: unknown): boolean {
+	if (Array.isArray(desired)) {
+		return Array.isArray(existing) &&
+			desired.every((entry) => existing.some((candidate) => matchesDesiredValue(entry, candidate)));
+	}
+	if (isPlainObject(desired)) {
+		return isPlainObject(existing) &&
+			Object.entries(desired).every(([key, value]) => matchesDesiredValue(value, existing[key]));
+	}
+	return existing !== undefined && existing !== null && String(desired) === String(existing);
+}
+
+/**
+ * Compare the body of a create operation with an existing record. Returns the
+ * dotted paths of the fields that differ and a PATCH body with only those
+ * fields; arrays are sent whole.
+ * @param skipFields - Dotted paths that are not compared, e.g. the key fields
+ */
+export function getObjectChanges(
+	desired: IDataObject,
+	existing: IDataObject,
+	skipFields: string[] = [],
+	prefix = '',
+): { changedFields: string[]; patch: IDataObject } {
+	const changedFields: string[] = [];
+	const patch: IDataObject = {};
+
+	for (const [key, value] of Object.entries(desired)) {
+		const path = prefix ? `${prefix}.${key}` : key;
+		if (skipFields.includes(path)) {
+			continue;
+		}
+
+		if (isPlainObject(value)) {
+			const current = isPlainObject(existing[key]) ? existing[key] as IDataObject : {};
+			const nested = getObjectChanges(value, current, skipFields, path);
+			if (nested.changedFields.length > 0) {
+				changedFields.push(...nested.changedFields);
+				patch[key] = nested.patch;
+			}
+		} else if (!matchesDesiredValue(value, existing[key])) {
+			changedFields.push(path);
+			patch[key] = value;
+		}
+	}
+
+	return { changedFields, patch };
+}
+
+function mergeChanges(record: IDataObject, patch: IDataObject): IDataObject {
+	const merged: IDataObject = { ...record };
+	for (const [key, value] of Object.entries(patch)) {
+		merged[key] = isPlainObject(value) && isPlainObject(record[key])
+			? mergeChanges(record[key] as IDataObject, value)
+			: value;
+	}
+	return merged;
+}
+
+/**
+ * Create an object, honoring the "If Exists" option of create operations.
+ * Unless the option is `error`, the object is first looked up by its key
+ * fields. `skip` returns an existing object as is, `update` PATCHes only the
+ * fields that differ from the body. With either, the result's `_action` is
+ * `created`, `updated` or `unchanged`, updates also list `_changedFields`.
+ * `error` creates the object and returns the response unchanged.
+ */
+export async function ensureOntapObject(
+	this: IExecuteFunctions,
+	ifExists: OntapIfExists,
+	target: OntapEnsureTarget,
+	body: IDataObject,
+	jobOptions: OntapJobOptions,
+	itemIndex: number,
+): Promise<IDataObject> {
+	if (ifExists !== 'error') {
+		const createOnlyFields = target.createOnlyFields ?? [];
+		const query: IDataObject = {};
+		for (const field of target.keyFields) {
+			const value = getRecordValue(body, field);
+			if (value === undefined || value === null || value === '') {
+				throw new NodeOperationError(this.getNode(), `The "${field}" field is needed to look up an existing object`, {
+					description: 'Set the parameter that fills in this field, or set "If Exists" to "Error" to create the object without a lookup',
+					itemIndex,
+				});
+			}
+			query[field] = escapeOntapQueryValue(String(value));
+		}
+		const fields = new Set([
+			...target.idFields,
+			...target.keyFields,
+			...Object.keys(body).filter((field) => !createOnlyFields.includes(field)),
+		]);
+		query.fields = [...fields].join(',');
+
+		const lookup = await ontapApiRequest.call(this, 'GET', target.endpoint, {}, query) as OntapApiResponse;
+		const existing = lookup.records?.[0];
+
+		if (existing) {
+			if (ifExists === 'skip') {
+				return { ...existing, _action: 'unchanged' };
+			}
+
+			const { changedFields, patch } = getObjectChanges(body, existing, [...target.keyFields, ...createOnlyFields]);
+			if (changedFields.length === 0) {
+				return { ...existing, _action: 'unchanged' };
+			}
+
+			const response = await ontapApiRequest.call(this, 'PATCH', `${target.endpoint}/${target.getPath(existing)}`, patch);
+			const result = await handleAsyncResponse.call(this, response, jobOptions);
+			return { ...mergeChanges(existing, patch), ...result, _action: 'updated', _changedFields: changedFields };
+		}
+	}
+
+	const response = await ontapApiRequest.call(this, 'POST', target.endpoint, body);
+	const result = await handleAsyncResponse.call(this, response, jobOptions);
+	return ifExists === 'error' ? result : { ...result, _action: 'created' };
+}
+
+/**
+ * Read a JSON parameter that may arrive as a string or an already-parsed object
+ */
+export function getJsonParameter(this: IExecuteFunctions, parameterName: string, itemIndex: number): IDataObject {
+	const value = this.getNodeParameter(parameterName, itemIndex, {}) as string | IDataObject;
+	if (typeof value !== 'string') {
+		return value;
+	}
+	if (value.trim() === '') {
+		return {};
+	}
+	return jsonParse<IDataObject>(value, {
+		errorMessage: `Parameter "${parameterName}" is not valid JSON`,
+	});
+}
+
+/**
+ * Execute the "Custom API Call" resource: send an arbitrary request to the
+ * ONTAP REST API with the node's credentials, pagination and job handling
+ */
+export async function executeCustomApiCall(
+	this: IExecuteFunctions,
+	itemIndex: number,
+	qs: IDataObject = {},
+): Promise<IDataObject | IDataObject[]> {
+	const method = this.getNodeParameter('customMethod', itemIndex) as IHttpRequestMethods;
+	const path = (this.getNodeParameter('customPath', itemIndex) as string).trim();
+	const callOptions = this.getNodeParameter('customCallOptions', itemIndex, {}) as IDataObject;
+
+	let query: IDataObject;
+	let body: IDataObject = {};
+	try {
+		query = { ...qs, ...getJsonParameter.call(this, 'customQuery', itemIndex) };
+		if (method === 'POST' || method === 'PATCH') {
+			body = getJsonParameter.call(this, 'customBody', itemIndex);
+		}
+	} catch (error) {
+		throw new NodeOperationError(this.getNode(), error as Error, { itemIndex });
+	}
+
+	// Accept paths with or without the /api prefix
+	let endpoint = path.startsWith('/') ? path : `/${path}`;
+	endpoint = endpoint.replace(/^\/api(?=\/|$)/, '');
+
+	if (method === 'GET' && callOptions.returnAll) {
+		return await ontapApiRequestAllItems.call(this, 'GET', endpoint, {}, query);
+	}
+
+	const response = await ontapApiRequest.call(this, method, endpoint, body, query);
+	if (!response || typeof response !== 'object') {
+		return { success: true };
+	}
+	return await handleAsyncResponse.call(this, response, callOptions as OntapJobOptions);
+}
+
+/**
+ * CLI verbs that map to a specific HTTP method in the private CLI passthrough.
+ * Any other trailing verb (offline, reboot, ...) is an action and maps to POST.
+ */
+const CLI_VERB_METHODS: Record<string, IHttpRequestMethods> = {
+	show: 'GET',
+	create: 'POST',
+	modify: 'PATCH',
+	delete: 'DELETE',
+};
+
+/**
+ * Split a CLI command line into tokens, honoring single and double quotes
+ */
+function tokenizeCliCommand(command: string): string[] {
+	const tokens: string[] = [];
+	const pattern = /"((?:[^"\\]|\\.)*)"|'([^']*)'|(\S+)/g;
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(command)) !== null) {
+		tokens.push(match[1] !== undefined ? match[1].replace(/\\(.)/g, '$1') : match[2] ?? match[3]);
+	}
+	return tokens;
+}
+
+/**
+ * Whether the node runs as a tool of an AI agent. n8n appends "Tool" to the
+ * node type of nodes attached to an agent.
+ */
+export function isToolExecution(this: IExecuteFunctions): boolean {
+	return this.getNode().type.endsWith('Tool');
+}
+
+/**
+ * Block a destructive operation when an AI agent runs the node, unless the
+ * node's "Allow Destructive Operations for AI Agents" option is on. Each node
+ * lists its operations that remove or overwrite data or cut access. Custom API
+ * calls and CLI commands count as destructive unless they only read. Checked
+ * per item, as the parameters may differ between items.
+ */
+export function assertToolOperationAllowed(
+	this: IExecuteFunctions,
+	destructiveOperations: OntapToolOperations,
+	itemIndex: number,
+): void {
+	if (!isToolExecution.call(this) || this.getNodeParameter('allowDestructiveToolOperations', itemIndex, false)) {
+		return;
+	}
+
+	const resource = this.getNodeParameter('resource', itemIndex) as string;
+	const operation = this.getNodeParameter('operation', itemIndex) as string;
+	let destructive = destructiveOperations[resource]?.includes(operation) ?? false;
+	if (resource === 'customApiCall') {
+		destructive = this.getNodeParameter('customMethod', itemIndex) !== 'GET';
+	} else if (resource === 'cli') {
+		destructive = parseCliCommand(this.getNodeParameter('cliCommand', itemIndex) as string).method !== 'GET';
+	}
+
+	if (destructive) {
+		throw new NodeOperationError(this.getNode(), `The "${operation}" operation is not allowed for AI agents`, {
+			description: 'It can remove or overwrite data or cut access. Turn on "Allow Destructive Operations for AI Agents" on the node to let an agent run it.',
+			itemIndex,
+		});
+	}
+}
+
+/**
+ * Map an ONTAP CLI command to its /api/private/cli passthrough request.
+ * Example: "volume show -vserver svm1 -fields size" becomes
+ * GET /private/cli/volume with { vserver: 'svm1', fields: 'size' }.
+ * Parameter names use underscores in the passthrough (-is-constituent -> is_constituent).
+ */
+export function parseCliCommand(command: string): {
+	method: IHttpRequestMethods;
+	endpoint: string;
+	args: IDataObject;
+} {
+	const tokens = tokenizeCliCommand(command.trim());
+	const words: string[] = [];
+	const args: IDataObject = {};
+
+	let index = 0;
+	while (index < tokens.length && !tokens[index].startsWith('-')) {
+		words.push(tokens[index]);
+		index++;
+	}
+
+	while (index < tokens.length) {
+		const token = tokens[index];
+		if (!token.startsWith('-') || token.length < 2) {
+			throw new Error(`Unexpected argument "${token}". Pass parameters as -name value pairs.`);
+		}
+		const name = token.substring(1).replace(/-/g, '_');
+		const next = tokens[index + 1];
+		if (next === undefined || (next.startsWith('-') && next.length > 1 && isNaN(Number(next)))) {
+			// Switch without a value, e.g. -force
+			args[name] = true;
+			index++;
+		} else {
+			args[name] = next;
+			index += 2;
+		}
+	}
+
+	if (words.length === 0) {
+		throw new Error('CLI command is empty');
+	}
+
+	// Positional values after the verb (e.g. "volume show vol1") are not supported
+	const verbIndex = words.findIndex((word) => CLI_VERB_METHODS[word] !== undefined);
+	if (verbIndex !== -1 && verbIndex < words.length - 1) {
+		throw new Error(`Unexpected argument "${words[verbIndex + 1]}". Pass parameters as -name value pairs.`);
+	}
+
+	const verb = words[words.length - 1];
+	const mappedMethod = CLI_VERB_METHODS[verb];
+	const pathWords = mappedMethod ? words.slice(0, -1) : words;
+	if (pathWords.length === 0) {
+		throw new Error(`CLI command "${command}" has no command directory`);
+	}
+
+	return {
+		method: mappedMethod || 'POST',
+		endpoint: `/private/cli/${pathWords.map((w) => encodeURIComponent(w)).join('/')}`,
+		args,
+	};
+}
+
+/**
+ * Run an ONTAP CLI command through the private CLI passthrough.
+ * "records" mode maps the command onto its REST equivalent and returns the records;
+ * "raw" mode sends the command text to /private/cli and returns the CLI output.
+ */
+export async function ontapCliRequest(
+	this: IExecuteFunctions,
+	command: string,
+	outputMode: 'records' | 'raw',
+	privilegeLevel = 'admin',
+	extraBody: IDataObject = {},
+): Promise<IDataObject | IDataObject[]> {
+	const query: IDataObject = {};
+	if (privilegeLevel && privilegeLevel !== 'admin') {
+		query.privilege_level = privilegeLevel;
+	}
+
+	try {
+		if (outputMode === 'raw') {
+			const response = await ontapApiRequest.call(this, 'POST', '/private/cli', { input: command }, query);
+			return { command, output: response.output as string };
+		}
+
+		let request: ReturnType<typeof parseCliCommand>;
+		try {
+			request = parseCliCommand(command);
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), (error as Error).message);
+		}
+
+		if (request.method === 'GET') {
+			return await ontapApiRequestAllItems.call(this, 'GET', request.endpoint, {}, { ...request.args, ...query });
+		}
+		if (request.method === 'DELETE') {
+			return await ontapApiRequest.call(this, 'DELETE', request.endpoint, {}, { ...request.args, ...query });
+		}
+		if (request.method === 'PATCH') {
+			// Arguments select the records to modify; the new values come from the body
+			return await ontapApiRequest.call(this, 'PATCH', request.endpoint, extraBody, { ...request.args, ...query });
+		}
+		return await ontapApiRequest.call(this, 'POST', request.endpoint, { ...request.args, ...extraBody }, query);
+	} catch (error) {
+		const apiError = error as NodeApiError;
+		if (apiError.httpCode === '403' || /not authorized|insufficient privilege|permission denied/i.test(apiError.message)) {
+			throw new NodeOperationError(
+				this.getNode(),
+				'The ONTAP account is not allowed to use the CLI passthrough (/api/private/cli)',
+				{
+					description: `Grant the account's role access to the "${command.split(/\s+-/)[0]}" command directory (and the requested privilege level), or use an account with the admin role. ONTAP said: ${apiError.message}`,
+				},
+			);
+		}
+		throw error;
+	}
+}
+
+/**
+ * Run an operation for every input item, with up to the node's "Concurrency"
+ * items in flight. Output is returned in item order, whatever order the items
+ * finish in. Dry runs process one item at a time, as their requests are
+ * collected per execution.
+ */
+export async function processItems(
+	this: IExecuteFunctions,
+	processItem: (itemIndex: number) => Promise<INodeExecutionData[]>,
+): Promise<INodeExecutionData[]> {
+	const itemCount = this.getInputData().length;
+	const concurrency = isDryRun.call(this) ? 1 : Math.max(this.getNodeParameter('concurrency', 0, 1) as number, 1);
+	const results: INodeExecutionData[][] = new Array(itemCount);
+	let nextIndex = 0;
+	let failed = false;
+
+	// Each worker takes the next item until none are left or one item failed the node
+	const worker = async () => {
+		while (!failed && nextIndex < itemCount) {
+			const itemIndex = nextIndex++;
+			// Drop requests a previous dry-run item recorded before it failed
+			dryRunRequests.delete(this);
+			try {
+				results[itemIndex] = await processItem(itemIndex);
+			} catch (error) {
+				failed = true;
+				throw error;
+			}
+		}
+	};
+
+	await Promise.all(Array.from({ length: Math.min(concurrency, itemCount) }, worker));
+	return results.flat();
+}
+
+/**
+ * Output item for a failed item when "Continue On Fail" is enabled. ONTAP
+ * errors add their code, target, arguments, type, HTTP status, method and
+ * endpoint so that workflows can branch on them.
+ */
+export function getErrorOutput(error: Error): IDataObject {
+	const context = (error as NodeApiError).context as IDataObject | undefined;
+	const ontapError = context?.ontapError as OntapErrorDetails | undefined;
+
+	return {
+		error: error.message,
+		...(ontapError && cleanObject({
+			type: ontapError.type,
+			code: ontapError.code,
+			target: ontapError.target,
+			arguments: ontapError.arguments,
+			status: ontapError.status,
+			method: ontapError.method,
+			endpoint: ontapError.endpoint,
+		})),
+		...(context?.jobFailure as IDataObject | undefined),
+	};
+}
+
+/**
+ * Known ONTAP error codes and what they mean. The table is not exhaustive,
+ * other codes are classified by the HTTP status of the response.
+ */
+const ONTAP_ERROR_CODES: Record<string, { type: OntapErrorType; description: string }> = {
+	// Generic codes shared by most endpoints
+	'1': { type: 'duplicate', description: 'An object with the same name or key already exists' },
+	'4': { type: 'notFound', description: 'The object does not exist' },
+	'6': { type: 'permissionDenied', description: 'The ONTAP account is not authorized for this operation' },
+	'13003': { type: 'permissionDenied', description: 'The role of the ONTAP account does not grant access to this API' },
+	'13115': { type: 'invalidArgument', description: 'Invalid input for this operation' },
+	'15661': { type: 'notFound', description: 'The object does not exist' },
+	'65536': { type: 'notFound', description: 'Resource not found' },
+	'262179': { type: 'invalidArgument', description: 'A field is not supported by this endpoint or ONTAP version' },
+	'262185': { type: 'invalidArgument', description: 'A field is not recognized by this endpoint' },
+	'262186': { type: 'invalidArgument', description: 'A field cannot be combined with another field in this request' },
+	'262196': { type: 'invalidArgument', description: 'A field cannot be set in this operation' },
+	'262197': { type: 'invalidArgument', description: 'Invalid value for a field' },
+	// Storage
+	'917536': { type: 'conflict', description: 'The volume is busy with another operation, try again once it finishes' },
+	'917927': { type: 'notFound', description: 'Volume not found or does not exist' },
+	'1376259': { type: 'notFound', description: 'Aggregate not found' },
+	'13434908': { type: 'duplicate', description: 'A volume with the same name already exists in the SVM' },
+	'13303850': { type: 'notFound', description: 'Snapshot policy not found' },
+	// SVM and network
+	'1254269': { type: 'notFound', description: 'Network interface not found' },
+	'2621462': { type: 'notFound', description: 'SVM not found or not configured' },
+	'2621601': { type: 'invalidArgument', description: 'The operation is not allowed for this type of SVM, e.g. on the admin SVM instead of a data SVM' },
+	'2621706': { type: 'notFound', description: 'Export policy not found' },
+	// SAN
+	'6619139': { type: 'notFound', description: 'LUN not found' },
+	// Security
+	'5636129': { type: 'duplicate', description: 'A login for this user, application and authentication method already exists' },
+	// SnapMirror
+	'13303812': { type: 'conflict', description: 'A SnapMirror transfer or operation is already in progress for this relationship' },
+	// Licensing
+	'1115127': { type: 'notLicensed', description: 'The feature needs a license that is not installed on the cluster' },
+};
+
+/**
+ * Error type for an HTTP status when the ONTAP error code is not known
+ */
+function getStatusErrorType(status: number | undefined): OntapErrorType {
+	switch (status) {
+	case 400:
+		return 'invalidArgument';
+	case 401:
+		return 'authentication';
+	case 403:
+		return 'permissionDenied';
+	case 404:
+		return 'notFound';
+	case 409:
+		return 'conflict';
+	case 429:
+	case 502:
+	case 503:
+	case 504:
+		return 'unavailable';
+	default:
+		return status !== undefined && status >= 500 ? 'serverError' : 'unknown';
+	}
+}
+
+/**
+ * Find the ONTAP `error` body of a failed request, whether the request
+ * library exposes it on the response or on the error itself
+ */
+function getOntapErrorBody(error: unknown): IDataObject | IDataObject[] | undefined {
+	const err = error as IDataObject;
+	const response = (err.response ?? (err.cause as IDataObject | undefined)?.response) as IDataObject | undefined;
+	const data = (response?.data ?? response?.body) as IDataObject | undefined;
+	const body = (data && typeof data === 'object' ? data.error : undefined) ?? err.error;
+	return body && typeof body === 'object' ? body as IDataObject | IDataObject[] : undefined;
+}
+
+/**
+ * Structured details of a failed ONTAP request
+ */
+export function getOntapErrorDetails(error: unknown): OntapErrorDetails {
+	const body = getOntapErrorBody(error);
+	const ontapError = Array.isArray(body) ? body[0] : body;
+	const status = getErrorStatusCode(error);
+	const code = ontapError?.code !== undefined ? String(ontapError.code) : undefined;
+
+	return {
+		message: parseOntapError(error),
+		type: (code && ONTAP_ERROR_CODES[code]?.type) || getStatusErrorType(status),
+		code,
+		target: ontapError?.target as string | undefined,
+		arguments: ontapError?.arguments as IDataObject[] | undefined,
+		status,
+	};
+}
+
 /**
  * Parse ONTAP error responses into user-friendly messages
  */
 export function parseOntapError(error: unknown): string {
 	const err = error as IDataObject;
+	const ontapError = getOntapErrorBody(error);
 	
-	// Try to extract ONTAP-specific error structure
-	if (err.error) {
-		const ontapError = err.error as IDataObject;
-		
-		// Handle error object with message and code
-		if (ontapError.message) {
-			const code = ontapError.code ? ` (Error code: ${ontapError.code})` : '';
-			return `${ontapError.message}${code}`;
-		}
-		
-		// Handle array of errors
-		if (Array.isArray(ontapError)) {
-			const messages = ontapError.map((e: IDataObject) => e.message || 'Unknown error');
-			return messages.join('; ');
-		}
-	}
-
-	// Common error code mappings
-	const errorCodeMap: Record<string, string> = {
-		'4': 'Invalid input parameters',
-		'65536': 'Resource not found',
-		'917927': 'Volume not found or does not exist',
-		'1376259': 'Aggregate not found',
-		'2621462': 'SVM not found or not configured',
-		'6619139': 'LUN not found',
-		'13303850': 'Snapshot policy not found',
-		'262179': 'Permission denied - check credentials',
-		'1254269': 'Network interface not found',
-		'2621706': 'Export policy not found',
-	};
+	// Handle array of errors
+	if (Array.isArray(ontapError)) {
+		const messages = ontapError.map((e: IDataObject) => e.message || 'Unknown error');
+		return messages.join('; ');
+	}
+
+	const code = ontapError?.code !== undefined ? String(ontapError.code) : undefined;
+	const known = code ? ONTAP_ERROR_CODES[code] : undefined;
+
+	// Handle error object with message and code, prefixed with what a known code means
+	if (ontapError?.message) {
+		const message = `${ontapError.message}${code ? ` (Error code: ${code})` : ''}`;
+		return known ? `${known.description}: ${message}` : message;
+	}
+	if (known) {
+		return `${known.description} (Error code: ${code})`;
+	}
 
 	// Check for HTTP status codes
-	if (err.statusCode) {
-		const statusCode = err.statusCode as number;
-		switch (statusCode) {
-			case 400:
-				return 'Bad request - Invalid parameters provided';
-			case 401:
-				return 'Authentication failed - Invalid username or password';
-			case 403:
-				return 'Access denied - Insufficient permissions';
-			case 404:
-				return 'Resource not found';
-			case 409:
-				return 'Conflict - Resource already exists or operation conflicts with current state';
-			case 500:
-				return 'ONTAP internal server error';
-			case 503:
-				return 'ONTAP service temporarily unavailable';
-		}
-	}
-
-	// Try to get code from error
-	const code = err.code as string | undefined;
-	if (code && errorCodeMap[code]) {
-		return errorCodeMap[code];
+	const statusCode = getErrorStatusCode(error);
+	switch (statusCode) {
+	case 400:
+		return 'Bad request - Invalid parameters provided';
+	case 401:
+		return 'Authentication failed - Invalid username or password';
+	case 403:
+		return 'Access denied - Insufficient permissions';
+	case 404:
+		return 'Resource not found';
+	case 409:
+		return 'Conflict - Resource already exists or operation conflicts with current state';
+	case 500:
+		return 'ONTAP internal server error';
+	case 503:
+		return 'ONTAP service temporarily unavailable';
 	}
 
 	// Fallback to raw error message
@@ -284,13 +1423,35 @@ export function parseOntapError(error: unknown): string {
 
 /**
  * Build common field query parameters for ONTAP requests
- * @param fields - Array of field names to include in response
+ * @param fields - Field names to include in the response, or a comma-separated
+ * list as stored by workflows saved before the "Fields" option was a picker
  */
-export function buildFieldsQuery(fields?: string[]): IDataObject {
-	if (!fields || fields.length === 0) {
+export function buildFieldsQuery(fields?: string | string[]): IDataObject {
+	const names = (typeof fields === 'string' ? fields.split(',') : fields ?? [])
+		.map((field) => field.trim())
+		.filter((field) => field);
+	if (names.length === 0) {
 		return {};
 	}
-	return { fields: fields.join(',') };
+	return { fields: names.join(',') };
+}
+
+/**
+ * Options of the "Fields" picker for the selected resource, from the field catalog
+ * @param collections - Catalog collection of each resource of the node
+ */
+export async function getCatalogFieldOptions(
+	this: ILoadOptionsFunctions,
+	collections: Record<string, string>,
+): Promise<INodePropertyOptions[]> {
+	const resource = this.getCurrentNodeParameter('resource') as string;
+	const fields = ONTAP_FIELD_CATALOG[collections[resource]] ?? [];
+
+	return [
+		{ name: 'All Fields (*)', value: '*', description: 'Every field that is cheap to retrieve' },
+		{ name: 'All Fields Including Expensive (**)', value: '**', description: 'Every field, including statistics and metrics' },
+		...[...fields].sort().map((field) => ({ name: field, value: field })),
+	];
 }
 
 /**
@@ -320,10 +1481,80 @@ export function formatBytes(bytes: number): string {
 	if (bytes === 0) return '0 B';
 	const k = 1024;
 	const sizes = ['B', 'KB', 'MB', 'GB', 'TB', 'PB'];
-	const i = Math.floor(Math.log(bytes) / Math.log(k));
+	const i = Math.min(Math.max(Math.floor(Math.log(Math.abs(bytes)) / Math.log(k)), 0), sizes.length - 1);
 	return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`;
 }
 
+/**
+ * Record fields (dotted paths) that hold a number of bytes. A trailing `*`
+ * covers every byte count of an object, skipping its percentages.
+ */
+const SIZE_FIELDS = [
+	'size',
+	'usable_size',
+	'physical_size',
+	'autosize.maximum',
+	'autosize.minimum',
+	'space.size',
+	'space.used',
+	'space.used.total',
+	'space.available',
+	'space.footprint',
+	'space.hard_limit',
+	'space.soft_limit',
+	'space.logical_space.used',
+	'space.logical_space.available',
+	'space.snapshot.used',
+	'space.snapshot.reserve_size',
+	'space.block_storage.*',
+];
+
+/**
+ * Objects that get a percent used, from `used` and `size` (or `used` + `available`)
+ */
+const PERCENT_USED_OBJECTS = ['space', 'space.block_storage'];
+
+/**
+ * Add a human-readable `<field>_formatted` companion, e.g. "1.5 TB", next to
+ * every known size field of a record, and a `percent_used_formatted` to its
+ * space objects. The raw numbers are left as they are.
+ */
+export function formatSizeFields(record: IDataObject): IDataObject {
+	const formatted = jsonParse<IDataObject>(JSON.stringify(record));
+
+	for (const field of SIZE_FIELDS) {
+		const separator = field.lastIndexOf('.');
+		const parent = separator === -1 ? formatted : getRecordValue(formatted, field.slice(0, separator));
+		if (!isPlainObject(parent)) {
+			continue;
+		}
+		const key = field.slice(separator + 1);
+		const keys = key === '*'
+			? Object.keys(parent).filter((name) => !name.includes('percent') && !name.endsWith('_formatted'))
+			: [key];
+		for (const name of keys) {
+			if (typeof parent[name] === 'number') {
+				parent[`${name}_formatted`] = formatBytes(parent[name] as number);
+			}
+		}
+	}
+
+	for (const path of PERCENT_USED_OBJECTS) {
+		const space = getRecordValue(formatted, path);
+		if (!isPlainObject(space) || typeof space.used !== 'number') {
+			continue;
+		}
+		const total = typeof space.size === 'number'
+			? space.size
+			: typeof space.available === 'number' ? space.used + space.available : undefined;
+		if (total) {
+			space.percent_used_formatted = `${parseFloat((space.used / total * 100).toFixed(1))}%`;
+		}
+	}
+
+	return formatted;
+}
+
 /**
  * Convert human-readable size to bytes
  * Supports: B, KB, MB, GB, TB, PB (case-insensitive)
@@ -349,11 +1580,90 @@ export function parseSize(sizeStr: string): number {
 	return Math.floor(value * multipliers[unit]);
 }
 
+/**
+ * Comparison written between field and value in an API filter string, mapped
+ * to the prefix ONTAP expects on the query value
+ */
+const FILTER_STRING_OPERATORS: Array<[string, string]> = [
+	['!=', '!'],
+	['>=', '>='],
+	['<=', '<='],
+	['=', ''],
+	['>', '>'],
+	['<', '<'],
+];
+
+/**
+ * Value prefixes for the comparison operators of the filter builder
+ */
+const FILTER_CONDITION_PREFIXES: Record<string, string> = {
+	equals: '',
+	notEquals: '!',
+	greaterThan: '>',
+	greaterThanOrEqual: '>=',
+	lessThan: '<',
+	lessThanOrEqual: '<=',
+};
+
+/**
+ * Start of a `field<operator>` expression, used to tell a comma that starts
+ * the next filter from a comma inside a value
+ */
+const FILTER_START_PATTERN = /^\s*[\w.-]+\s*(!=|>=|<=|=|>|<)/;
+
+/**
+ * Split text on a separator outside of single or double quotes. Quotes group
+ * characters and are removed, a backslash escapes the next character inside
+ * quotes. With `splitBefore`, a separator only splits when the text after it
+ * matches the pattern.
+ */
+function splitOutsideQuotes(text: string, separator: string, splitBefore?: RegExp): string[] {
+	const parts: string[] = [];
+	let current = '';
+	let quote: string | undefined;
+
+	for (let index = 0; index < text.length; index++) {
+		const char = text[index];
+
+		if (quote) {
+			if (char === '\\' && index + 1 < text.length) {
+				current += text[++index];
+			} else if (char === quote) {
+				quote = undefined;
+			} else {
+				current += char;
+			}
+			continue;
+		}
+
+		if (char === '"' || char === '\'') {
+			quote = char;
+		} else if (char === separator && (!splitBefore || splitBefore.test(text.slice(index + 1)))) {
+			parts.push(current);
+			current = '';
+		} else {
+			current += char;
+		}
+	}
+
+	if (quote) {
+		throw new Error(`Unterminated quote in "${text}"`);
+	}
+	parts.push(current);
+
+	return parts.map((part) => part.trim()).filter((part) => part !== '');
+}
+
 /**
  * Parse API filter string into query parameters
  * Format: "field1=value1,field2=value2,field3=!excludeValue"
  * Supports ONTAP query operators: =, !=, <, >, <=, >=, *, |
- * Example: "type=rw,state=!offline,size=>1073741824"
+ * Example: "type=rw,state!=offline,size>=1073741824,comment=\"a,b\""
+ *
+ * A comma only starts a new filter when it is followed by `field=` (or
+ * another comparison), so values may contain commas. Quote a value to keep
+ * a comma followed by such text. Entries without a comparison are skipped,
+ * as they always have been, so that saved workflows keep running.
  */
 export function parseApiFilters(filterString: string): IDataObject {
 	const qs: IDataObject = {};
@@ -362,23 +1672,115 @@ export function parseApiFilters(filterString: string): IDataObject {
 		return qs;
 	}
 	
-	// Split by comma, but handle values that might contain commas in quotes
-	const filters = filterString.split(',').map(f => f.trim()).filter(f => f);
+	for (const filter of splitOutsideQuotes(filterString, ',', FILTER_START_PATTERN)) {
+		const match = filter.match(/^([\w.-]+)\s*(!=|>=|<=|=|>|<)\s*(.*)$/s);
+		if (!match) {
+			continue;
+		}
+
+		const [, field, operator, value] = match;
+		const prefix = FILTER_STRING_OPERATORS.find(([written]) => written === operator)![1];
+		qs[field] = `${prefix}${value}`;
+	}
 	
-	for (const filter of filters) {
-		// Find the first = sign (the operator)
-		const eqIndex = filter.indexOf('=');
-		if (eqIndex === -1) {
-			continue; // Skip invalid filters
+	return qs;
+}
+
+/**
+ * Quote a query value that contains ONTAP query syntax (`*`, `|`, `!`, `<`,
+ * `>`, `..`) or a list separator so that ONTAP matches it literally
+ */
+export function escapeOntapQueryValue(value: string): string {
+	if (value !== '' && !/[*|!<>",]|\.\.|^\s|\s$/.test(value)) {
+		return value;
+	}
+	return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+/**
+ * Build query parameters from the conditions of the filter builder
+ */
+export function buildFilterConditions(conditions: IDataObject[]): IDataObject {
+	const qs: IDataObject = {};
+
+	for (const condition of conditions) {
+		const field = ((condition.field as string) || '').trim();
+		const operator = (condition.operator as string) || 'equals';
+		const value = String(condition.value ?? '');
+
+		// A condition added in the editor but left empty does not filter
+		if (field === '') {
+			continue;
 		}
-		
-		const field = filter.substring(0, eqIndex).trim();
-		const value = filter.substring(eqIndex + 1).trim();
-		
-		if (field && value !== undefined) {
+		if (!/^[\w.-]+$/.test(field)) {
+			throw new Error(`Invalid filter field "${field}"`);
+		}
+		if (field in qs) {
+			throw new Error(`Field "${field}" is used by more than one filter`);
+		}
+
+		if (operator === 'matches') {
+			// The pattern is passed through so that * works as a wildcard
 			qs[field] = value;
+		} else if (operator === 'oneOf') {
+			qs[field] = splitOutsideQuotes(value, ',').map(escapeOntapQueryValue).join('|');
+		} else {
+			qs[field] = `${FILTER_CONDITION_PREFIXES[operator] ?? ''}${escapeOntapQueryValue(value)}`;
 		}
 	}
-	
+
+	return qs;
+}
+
+/**
+ * Query parameters for sorting, page size and the other list options
+ */
+export function buildListQuery(options: OntapListOptions): IDataObject {
+	const qs = buildFieldsQuery(options.fields);
+	if (options.orderBy?.length) {
+		qs.order_by = options.orderBy.join(',');
+	}
+	if (options.returnTimeout) {
+		qs.return_timeout = options.returnTimeout;
+	}
+	if (options.maxRecords) {
+		qs.max_records = options.maxRecords;
+	}
+	if (options.returnRecords === false) {
+		qs.return_records = false;
+	}
+	return qs;
+}
+
+/**
+ * Query parameters for the "Filters" collection of a getMany operation,
+ * combining the filter builder with the API Filters string and the list
+ * controls. The page size only applies when all results are returned, the
+ * node sets `max_records` to the limit otherwise.
+ */
+export function getFilterQuery(filters: IDataObject): IDataObject {
+	const sortFields = ((filters.sort as IDataObject | undefined)?.sortField as IDataObject[] | undefined) ?? [];
+	const qs = buildListQuery({
+		orderBy: sortFields
+			.filter((sort) => ((sort.field as string | undefined) ?? '').trim())
+			.map((sort) => `${(sort.field as string).trim()} ${(sort.direction as string | undefined) ?? 'asc'}`),
+		returnTimeout: filters.returnTimeout as number | undefined,
+		maxRecords: filters.returnAll === false ? undefined : filters.pageSize as number | undefined,
+		returnRecords: filters.returnAll === false ? undefined : filters.returnRecords as boolean | undefined,
+	});
+
+	const conditions = ((filters.conditions as IDataObject | undefined)?.condition as IDataObject[] | undefined) ?? [];
+	const filterEntries = [
+		...Object.entries(buildFilterConditions(conditions)),
+		...Object.entries(parseApiFilters((filters.apiFilters as string) || '')),
+	];
+
+	for (const [field, value] of filterEntries) {
+		if (field in qs) {
+			throw new Error(`Field "${field}" is used by more than one filter`);
+		}
+		qs[field] = value;
+	}
+
 	return qs;
 }
@@ -0,0 +1,38 @@
+import type { INodeProperties } from 'n8n-workflow';
+
+/**
+ * "If Exists" option for create operations, shown for the create operation
+ * of the given resources. See `ensureOntapObject`.
+ */
+export function ifExistsProperty(resources: string[]): INodeProperties {
+	return {
+		displayName: 'If Exists',
+		name: 'ifExists',
+		type: 'options',
+		displayOptions: {
+			show: {
+				resource: resources,
+				operation: ['create'],
+			},
+		},
+		options: [
+			{
+				name: 'Error',
+				value: 'error',
+				description: 'Create the object and fail if ONTAP reports that it already exists',
+			},
+			{
+				name: 'Skip',
+				value: 'skip',
+				description: 'Return the existing object without changing it',
+			},
+			{
+				name: 'Update to Match',
+				value: 'update',
+				description: 'Change the fields of the existing object that differ from the parameters',
+			},
+		],
+		default: 'error',
+		description: 'What to do when an object with the same name already exists. The output\'s _action field says whether the object was created, updated or unchanged.',
+	};
+}
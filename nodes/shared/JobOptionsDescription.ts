@@ -0,0 +1,57 @@
+import type { INodeProperties } from 'n8n-workflow';
+
+/**
+ * "Job Options" collection for operations that may answer with an ONTAP job,
+ * one property per resource keyed by the operations that can return a job
+ */
+export function jobOptionsProperties(operationsByResource: Record<string, string[]>): INodeProperties[] {
+	return Object.entries(operationsByResource).map(([resource, operations]) => ({
+		displayName: 'Job Options',
+		name: 'jobOptions',
+		type: 'collection',
+		placeholder: 'Add Option',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: [resource],
+				operation: operations,
+			},
+		},
+		options: [
+			{
+				displayName: 'Include Job History',
+				name: 'includeHistory',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to return each state and message seen while waiting as _jobHistory, along with the elapsed time. On failure they are added to the error output.',
+			},
+			{
+				displayName: 'Poll Interval (Seconds)',
+				name: 'pollInterval',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 2,
+				description: 'How often to check the state of the job while waiting',
+			},
+			{
+				displayName: 'Timeout (Seconds)',
+				name: 'timeout',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 300,
+				description: 'Maximum time to wait for the job to finish before failing',
+			},
+			{
+				displayName: 'Wait for Completion',
+				name: 'waitForCompletion',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to poll the job until it finishes. When disabled the node returns the job UUID right away so a later Job → Wait step can pick it up.',
+			},
+		],
+	}));
+}
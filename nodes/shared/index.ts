@@ -1,3 +1,9 @@
 // Shared exports
+export * from './CustomApiCallDescription';
+export * from './FieldCatalog';
+export * from './FieldsDescription';
+export * from './FilterDescription';
 export * from './GenericFunctions';
+export * from './IfExistsDescription';
+export * from './JobOptionsDescription';
 export * from './types';
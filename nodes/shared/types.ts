@@ -4,11 +4,32 @@ import type { IDataObject } from 'n8n-workflow';
  * ONTAP API credentials structure
  */
 export interface OntapCredentials {
-	username: string;
-	password: string;
+	authentication?: 'basic' | 'certificate' | 'oauth2';
+	username?: string;
+	password?: string;
+	certificateFormat?: 'pem' | 'pkcs12';
+	clientCertificate?: string;
+	clientKey?: string;
+	pkcs12Bundle?: string;
+	certificatePassphrase?: string;
+	oauthTokenUrl?: string;
+	oauthClientId?: string;
+	oauthClientSecret?: string;
+	oauthScope?: string;
+	oauthAudience?: string;
+	accessToken?: string;
+	/** Epoch milliseconds after which the OAuth access token is refreshed, 0 when unknown */
+	accessTokenExpiresAt?: number;
 	allowUnauthorizedCerts: boolean;
+	caCertificate?: string;
+	certificateFingerprint?: string;
 	clusterHost?: string;
 	clusterPort?: number;
+	maxRetries?: number;
+	retryDelay?: number;
+	retryNonIdempotent?: boolean;
+	maxRequestsPerSecond?: number;
+	maxConcurrentRequests?: number;
 }
 
 /**
@@ -35,23 +56,100 @@ export interface OntapJob extends IDataObject {
 	start_time?: string;
 	end_time?: string;
 	code?: number;
+	error?: IDataObject;
 	_links?: {
 		self?: { href: string };
 	};
 }
 
+/**
+ * A state change of a job observed while polling it
+ */
+export interface OntapJobHistoryEntry extends IDataObject {
+	time: string;
+	state: string;
+	message?: string;
+	code?: number;
+}
+
+/**
+ * How an operation handles a job returned by ONTAP ("Job Options" collection)
+ */
+export interface OntapJobOptions {
+	/** Poll the job until it finishes, defaults to `true` */
+	waitForCompletion?: boolean;
+	/** Maximum time to wait in seconds */
+	timeout?: number;
+	/** Delay between job polls in seconds */
+	pollInterval?: number;
+	/** Return every observed state and message as `_jobHistory` */
+	includeHistory?: boolean;
+}
+
+/**
+ * Broad class of an ONTAP error, from the error code or else the HTTP status
+ */
+export type OntapErrorType =
+	| 'duplicate'
+	| 'notFound'
+	| 'invalidArgument'
+	| 'permissionDenied'
+	| 'notLicensed'
+	| 'authentication'
+	| 'conflict'
+	| 'unavailable'
+	| 'serverError'
+	| 'unknown';
+
+/**
+ * Details of a failed ONTAP request, kept on the NodeApiError context and
+ * returned by "Continue On Fail"
+ */
+export interface OntapErrorDetails extends IDataObject {
+	message: string;
+	type: OntapErrorType;
+	/** ONTAP error code, e.g. `4` for "entry doesn't exist" */
+	code?: string;
+	/** Field or object the error refers to */
+	target?: string;
+	/** Values ONTAP substituted into the message */
+	arguments?: IDataObject[];
+	/** HTTP status of the response */
+	status?: number;
+	method?: string;
+	endpoint?: string;
+}
+
+/**
+ * ONTAP release a cluster runs, as reported by `/cluster`
+ */
+export interface OntapVersion {
+	full: string;
+	generation: number;
+	major: number;
+	minor: number;
+}
+
+/**
+ * Minimum ONTAP release per resource and operation, e.g. `{ cifsSession: { getMany: '9.8' } }`,
+ * or per resource and record field, e.g. `{ keyManager: { policy: '9.9' } }`.
+ * See `assertOntapVersion` and `assertOntapFieldVersions`.
+ */
+export type OntapMinimumVersions = Record<string, Record<string, string>>;
+
+/**
+ * Operations per resource, e.g. `{ volume: ['delete', 'resize'] }`.
+ * See `assertToolOperationAllowed`.
+ */
+export type OntapToolOperations = Record<string, string[]>;
+
 /**
  * ONTAP Cluster information
  */
 export interface OntapCluster {
 	uuid: string;
 	name: string;
-	version?: {
-		full: string;
-		generation: number;
-		major: number;
-		minor: number;
-	};
+	version?: OntapVersion;
 	contact?: string;
 	location?: string;
 	dns_domains?: string[];
@@ -524,15 +622,64 @@ export interface OntapEmsEvent {
 }
 
 /**
- * Common options for list operations
+ * Common options for list operations, see `buildListQuery`
  */
 export interface OntapListOptions {
+	/** Page size (`max_records`) */
 	maxRecords?: number;
+	/** Seconds ONTAP may spend on a page (`return_timeout`) */
 	returnTimeout?: number;
+	/** Set to `false` to only count the matching records (`return_records`) */
+	returnRecords?: boolean;
 	fields?: string[];
+	/** Fields with an optional direction, e.g. `name` or `space.used desc` */
 	orderBy?: string[];
 }
 
+/**
+ * Describes how records of an ONTAP collection map to "From List" entries
+ * of a resource locator
+ */
+export interface OntapListSearchOptions {
+	/** Record field shown in the list (dotted path), defaults to `name` */
+	nameField?: string;
+	/** Record field used as the parameter value (dotted path), defaults to `uuid` */
+	valueField?: string;
+	/** Field matched against the search text, defaults to `nameField`; `null` disables server-side filtering */
+	filterField?: string | null;
+	/** Additional fields to request, e.g. for a custom display name */
+	fields?: string[];
+	/** Additional query parameters, e.g. an SVM scope */
+	query?: IDataObject;
+	/** Append the owning SVM name to each entry, for collections listed across SVMs */
+	showSvm?: boolean;
+	/** Build the displayed name from the record instead of `nameField` */
+	getName?: (record: IDataObject) => string;
+	/** Build the parameter value from the record instead of `valueField` */
+	getValue?: (record: IDataObject) => string;
+}
+
+/**
+ * What a create operation does when the object already exists ("If Exists" option)
+ */
+export type OntapIfExists = 'error' | 'skip' | 'update';
+
+/**
+ * Describes how a create operation finds an existing object, see `ensureOntapObject`
+ */
+export interface OntapEnsureTarget {
+	/** Collection the object is looked up in and created in */
+	endpoint: string;
+	/** Body fields (dotted paths) that identify the object, e.g. `name` and `svm.name` */
+	keyFields: string[];
+	/** Record fields needed to address an existing object, e.g. `uuid` */
+	idFields: string[];
+	/** Path of an existing object relative to `endpoint` */
+	getPath: (record: IDataObject) => string;
+	/** Body fields that can only be set on create and are not compared */
+	createOnlyFields?: string[];
+}
+
 /**
  * SVM name and UUID reference (commonly used in nested objects)
  */
@@ -0,0 +1,706 @@
+import { randomUUID } from 'crypto';
+import type { IDataObject, IHttpRequestOptions, INode, JsonObject } from 'n8n-workflow';
+import { NodeApiError } from 'n8n-workflow';
+
+/**
+ * Query parameters that control the response instead of filtering records
+ */
+const RESERVED_QUERY_KEYS = [
+	'fields',
+	'max_records',
+	'order_by',
+	'return_records',
+	'return_timeout',
+	'start.index',
+	'privilege_level',
+	'force',
+];
+
+/**
+ * Node that request errors are attributed to, as n8n does with the calling node
+ */
+const MOCK_NODE: INode = {
+	id: 'mock-ontap-node',
+	name: 'ONTAP',
+	type: 'n8n-nodes-netapp-ontap.netAppOntap',
+	typeVersion: 1,
+	position: [0, 0],
+	parameters: {},
+};
+
+/**
+ * Collections whose create/modify/delete requests return an async job, as on a real cluster
+ */
+const DEFAULT_ASYNC_PATHS: RegExp[] = [
+	/^\/storage\/volumes(\/|$)/,
+	/^\/storage\/aggregates(\/|$)/,
+	/^\/storage\/flexcache\//,
+	/^\/svm\/svms(\/|$)/,
+	/^\/snapmirror\/relationships(\/|$)/,
+	/^\/cluster\/nodes\/[^/]+$/,
+];
+
+/**
+ * Collections used by the nodes. They exist from the start, so a request for a record
+ * of an empty collection is answered with 404 instead of an empty list.
+ */
+const ONTAP_COLLECTIONS = [
+	'/cluster/jobs',
+	'/cluster/licensing/licenses',
+	'/cluster/nodes',
+	'/cluster/schedules',
+	'/network/ethernet/broadcast-domains',
+	'/network/ethernet/ports',
+	'/network/fc/interfaces',
+	'/network/ip/interfaces',
+	'/network/ip/routes',
+	'/network/ipspaces',
+	'/protocols/cifs/services',
+	'/protocols/cifs/sessions',
+	'/protocols/cifs/shares',
+	'/protocols/nfs/export-policies',
+	'/protocols/nfs/services',
+	'/protocols/san/fcp/services',
+	'/protocols/san/igroups',
+	'/protocols/san/iscsi/services',
+	'/protocols/san/lun-maps',
+	'/security/accounts',
+	'/security/certificates',
+	'/security/key-managers',
+	'/security/login/messages',
+	'/security/roles',
+	'/snapmirror/policies',
+	'/snapmirror/relationships',
+	'/storage/aggregates',
+	'/storage/disks',
+	'/storage/luns',
+	'/storage/quota/reports',
+	'/storage/quota/rules',
+	'/storage/volumes',
+	'/support/ems/destinations',
+	'/support/ems/events',
+	'/support/ems/filters',
+	'/svm/peers',
+	'/svm/svms',
+];
+
+/**
+ * Collections whose records are addressed by more than one path segment,
+ * e.g. /security/accounts/{owner.uuid}/{name}
+ */
+const COMPOUND_KEYS: Record<string, string[]> = {
+	'/protocols/cifs/sessions': ['svm.uuid', 'identifier', 'connection_id'],
+	'/protocols/cifs/shares': ['svm.uuid', 'name'],
+	'/protocols/san/lun-maps': ['lun.uuid', 'igroup.uuid'],
+	'/security/accounts': ['owner.uuid', 'name'],
+	'/security/roles': ['owner.uuid', 'name'],
+};
+
+/**
+ * An ONTAP error body, e.g. { message: 'entry doesn\'t exist', code: '4', target: 'uuid' }
+ */
+export interface OntapMockErrorBody {
+	message: string;
+	code: string;
+	target?: string;
+	arguments?: Array<{ code: string; message: string }>;
+}
+
+/**
+ * A failure to return for the next request(s) matching method and path
+ */
+export interface OntapMockFailure {
+	method?: string;
+	path?: string | RegExp;
+	status?: number;
+	error?: OntapMockErrorBody;
+	headers?: Record<string, string>;
+	/** Fail at the connection level with this error code (e.g. ECONNRESET) instead of an HTTP error */
+	networkError?: string;
+	/** How many matching requests fail before the failure is used up */
+	times?: number;
+}
+
+/**
+ * How jobs created by async requests finish
+ */
+export interface OntapMockJobOutcome {
+	/** Number of job GETs that still report the job as running */
+	pendingPolls: number;
+	state: 'success' | 'failure';
+	message?: string;
+	code?: number;
+	/** Messages reported by the running job, one per pending poll (the last one repeats) */
+	progress?: string[];
+}
+
+/**
+ * A request received by the mock server, for assertions on request shapes
+ */
+export interface OntapMockRequest {
+	method: string;
+	path: string;
+	query: IDataObject;
+	body?: IDataObject;
+	/** Authentication the credential applied: headers, basic auth and TLS agent options */
+	headers?: IHttpRequestOptions['headers'];
+	auth?: IHttpRequestOptions['auth'];
+	agentOptions?: IHttpRequestOptions['agentOptions'];
+}
+
+/**
+ * Error thrown for non-2xx responses. Mirrors the axios errors thrown by the n8n HTTP helpers,
+ * so NodeApiError and the retry logic see the same shape as against a real cluster.
+ */
+export class AxiosError extends Error {
+	isAxiosError = true;
+
+	code?: string;
+
+	response?: {
+		status: number;
+		statusText: string;
+		headers: Record<string, string>;
+		data: IDataObject;
+	};
+
+	constructor(message: string, code?: string, response?: AxiosError['response']) {
+		super(message);
+		this.name = 'AxiosError';
+		this.code = code;
+		this.response = response;
+	}
+}
+
+/**
+ * Custom response for a method and path, for endpoints that are not plain collections
+ */
+export type OntapMockHandler = (request: OntapMockRequest) => IDataObject | Promise<IDataObject>;
+
+/**
+ * Stateful in-process stand-in for the ONTAP REST API.
+ *
+ * Collections are keyed by their path below /api. Nested collections such as
+ * /storage/volumes/{uuid}/snapshots are created by the first POST or seed, without registration.
+ * Records are addressed by uuid, name, id or index, or by several path segments for
+ * collections such as /security/accounts/{owner.uuid}/{name}. Supports ONTAP query filters
+ * (wildcards, alternatives, negation and comparisons), order_by, HAL pagination
+ * through _links.next, async job responses and ONTAP error bodies.
+ */
+export class OntapMockServer {
+	readonly requests: OntapMockRequest[] = [];
+
+	jobOutcome: OntapMockJobOutcome = { pendingPolls: 0, state: 'success' };
+
+	private readonly collections = new Map<string, IDataObject[]>();
+
+	private readonly singletons = new Map<string, IDataObject>();
+
+	private readonly jobPollCounts = new Map<string, number>();
+
+	private readonly failures: OntapMockFailure[] = [];
+
+	private readonly handlers: Array<{ method: string; path: string | RegExp; handler: OntapMockHandler }> = [];
+
+	private readonly asyncPaths: RegExp[];
+
+	constructor(options: { asyncPaths?: RegExp[] } = {}) {
+		this.asyncPaths = options.asyncPaths ?? DEFAULT_ASYNC_PATHS;
+		for (const path of ONTAP_COLLECTIONS) {
+			this.collections.set(path, []);
+		}
+		this.singletons.set('/cluster', {
+			name: 'cluster1',
+			uuid: '11111111-1111-1111-1111-111111111111',
+			version: { full: 'NetApp Release 9.14.1', generation: 9, major: 14, minor: 1 },
+		});
+	}
+
+	/**
+	 * Add records to a collection, assigning a uuid to records that have no key of their own
+	 */
+	seed(path: string, records: IDataObject[]): IDataObject[] {
+		const collection = this.getCollection(normalizePath(path));
+		const seeded = records.map((record) => withKey(record));
+		collection.push(...seeded);
+		return seeded;
+	}
+
+	/**
+	 * Replace a singleton resource such as /cluster or /protocols/nfs/services
+	 */
+	setSingleton(path: string, resource: IDataObject): void {
+		this.singletons.set(normalizePath(path), resource);
+	}
+
+	/**
+	 * Current records of a collection
+	 */
+	records(path: string): IDataObject[] {
+		return this.collections.get(normalizePath(path)) ?? [];
+	}
+
+	/**
+	 * Current state of a singleton resource
+	 */
+	singleton(path: string): IDataObject | undefined {
+		return this.singletons.get(normalizePath(path));
+	}
+
+	/**
+	 * Fail the next matching request(s)
+	 */
+	fail(failure: OntapMockFailure): void {
+		this.failures.push({ times: 1, ...failure });
+	}
+
+	/**
+	 * Answer matching requests with a custom handler instead of the collection store
+	 */
+	on(method: string, path: string | RegExp, handler: OntapMockHandler): void {
+		this.handlers.push({ method, path, handler });
+	}
+
+	/**
+	 * Requests received so far for a method and path
+	 */
+	requestsTo(method: string, path: string | RegExp): OntapMockRequest[] {
+		return this.requests.filter((request) => request.method === method && matchesPath(request.path, path));
+	}
+
+	/**
+	 * Handle a request built by the n8n HTTP helpers and return the response body
+	 */
+	async handle(options: IHttpRequestOptions): Promise<IDataObject> {
+		const url = new URL(options.url);
+		const path = normalizePath(url.pathname.replace(/^\/api(?=\/|$)/, ''));
+		const method = (options.method || 'GET').toUpperCase();
+		const query: IDataObject = {};
+		url.searchParams.forEach((value, key) => {
+			query[key] = value;
+		});
+		Object.assign(query, (options.qs || {}) as IDataObject);
+		const body = options.body as IDataObject | undefined;
+
+		const request: OntapMockRequest = {
+			method,
+			path,
+			query,
+			body,
+			headers: options.headers,
+			auth: options.auth,
+			agentOptions: options.agentOptions,
+		};
+		this.requests.push(request);
+
+		try {
+			const failure = this.takeFailure(method, path);
+			if (failure) {
+				throw createFailure(failure);
+			}
+
+			const custom = this.handlers.find((entry) => entry.method === method && matchesPath(path, entry.path));
+			if (custom) {
+				return await custom.handler(request);
+			}
+
+			return this.route(method, path, query, body ?? {});
+		} catch (error) {
+			// n8n's httpRequestWithAuthentication wraps request errors, keeping the axios error as cause
+			throw new NodeApiError(MOCK_NODE, error as JsonObject);
+		}
+	}
+
+	private route(method: string, path: string, query: IDataObject, body: IDataObject): IDataObject {
+		const jobMatch = /^\/cluster\/jobs\/([^/]+)$/.exec(path);
+		if (jobMatch && method === 'GET') {
+			return this.getJob(jobMatch[1]);
+		}
+
+		const singleton = this.singletons.get(path);
+		if (singleton) {
+			if (method === 'GET') {
+				return clone(singleton);
+			}
+			if (method === 'PATCH') {
+				deepMerge(singleton, body);
+				return this.mutationResponse(path);
+			}
+		}
+
+		const { collectionPath, key, keyFields } = this.resolvePath(path);
+
+		if (key === undefined) {
+			if (method === 'GET') {
+				return this.list(collectionPath, query);
+			}
+			if (method === 'POST') {
+				return this.create(collectionPath, query, body);
+			}
+			if (method === 'PATCH' || method === 'DELETE') {
+				return this.bulkUpdate(method, collectionPath, query, body);
+			}
+		} else {
+			const collection = this.collections.get(collectionPath) ?? [];
+			const record = collection.find((entry) => recordMatchesKey(entry, key, keyFields));
+			if (!record) {
+				throw httpError(404, { message: 'entry doesn\'t exist', code: '4', target: 'uuid' });
+			}
+			if (method === 'GET') {
+				return clone(record);
+			}
+			if (method === 'PATCH') {
+				deepMerge(record, body);
+				return this.mutationResponse(path);
+			}
+			if (method === 'DELETE') {
+				collection.splice(collection.indexOf(record), 1);
+				return this.mutationResponse(path);
+			}
+		}
+
+		throw httpError(405, { message: `The method ${method} is not supported on ${path}`, code: '3' });
+	}
+
+	/**
+	 * Decide whether a path addresses a collection or one record of its parent collection
+	 */
+	private resolvePath(path: string): { collectionPath: string; key?: string[]; keyFields?: string[] } {
+		for (const [collectionPath, keyFields] of Object.entries(COMPOUND_KEYS)) {
+			if (path.startsWith(`${collectionPath}/`)) {
+				const segments = path.slice(collectionPath.length + 1).split('/').map(decodeURIComponent);
+				if (segments.length === keyFields.length) {
+					return { collectionPath, key: segments, keyFields };
+				}
+			}
+		}
+
+		const separator = path.lastIndexOf('/');
+		const parentPath = path.slice(0, separator);
+		const lastSegment = decodeURIComponent(path.slice(separator + 1));
+
+		if (parentPath && this.collections.has(parentPath) && !this.collections.has(path)) {
+			return { collectionPath: parentPath, key: [lastSegment] };
+		}
+		return { collectionPath: path };
+	}
+
+	private list(collectionPath: string, query: IDataObject): IDataObject {
+		let records = (this.collections.get(collectionPath) ?? []).filter((record) => recordMatchesQuery(record, query));
+
+		if (query.order_by) {
+			records = sortRecords(records, query.order_by as string);
+		}
+
+		// ONTAP counts every matching record instead of returning a page
+		if (query.return_records === false || query.return_records === 'false') {
+			return { num_records: records.length };
+		}
+
+		const start = Number(query['start.index'] ?? 0);
+		const maxRecords = query.max_records !== undefined ? Number(query.max_records) : records.length;
+		const page = records.slice(start, start + maxRecords);
+
+		const response: IDataObject = {
+			records: page.map((record) => clone(record)),
+			num_records: page.length,
+			_links: {
+				self: { href: `/api${collectionPath}` },
+			},
+		};
+
+		if (start + maxRecords < records.length) {
+			const nextQuery = new URLSearchParams();
+			for (const [name, value] of Object.entries(query)) {
+				if (name !== 'start.index' && value !== undefined) {
+					nextQuery.set(name, String(value));
+				}
+			}
+			nextQuery.set('start.index', String(start + maxRecords));
+			(response._links as IDataObject).next = { href: `/api${collectionPath}?${nextQuery.toString()}` };
+		}
+
+		return response;
+	}
+
+	private create(collectionPath: string, query: IDataObject, body: IDataObject): IDataObject {
+		const collection = this.getCollection(collectionPath);
+
+		if (body.name !== undefined && collection.some((record) => isDuplicate(record, body))) {
+			throw httpError(409, { message: 'duplicate entry', code: '1', target: 'name' });
+		}
+
+		const record = withKey(clone(body));
+		collection.push(record);
+
+		if (this.isAsync(collectionPath)) {
+			return this.createJob(`/api${collectionPath}/${record.uuid ?? ''}`);
+		}
+		if (query.return_records === true || query.return_records === 'true') {
+			return { num_records: 1, records: [clone(record)] };
+		}
+		return {};
+	}
+
+	private bulkUpdate(method: string, collectionPath: string, query: IDataObject, body: IDataObject): IDataObject {
+		const collection = this.collections.get(collectionPath) ?? [];
+		const matched = collection.filter((record) => recordMatchesQuery(record, query));
+
+		for (const record of matched) {
+			if (method === 'PATCH') {
+				deepMerge(record, body);
+			} else {
+				collection.splice(collection.indexOf(record), 1);
+			}
+		}
+
+		if (this.isAsync(collectionPath)) {
+			return this.createJob(`/api${collectionPath}`);
+		}
+		return { num_records: matched.length };
+	}
+
+	private mutationResponse(path: string): IDataObject {
+		return this.isAsync(path) ? this.createJob(`/api${path}`) : {};
+	}
+
+	private isAsync(path: string): boolean {
+		return this.asyncPaths.some((pattern) => pattern.test(path));
+	}
+
+	private createJob(target: string): IDataObject {
+		const uuid = randomUUID();
+		this.getCollection('/cluster/jobs').push({
+			uuid,
+			state: 'running',
+			description: target,
+			start_time: new Date().toISOString(),
+		});
+		return {
+			job: {
+				uuid,
+				_links: { self: { href: `/api/cluster/jobs/${uuid}` } },
+			},
+		};
+	}
+
+	/**
+	 * Return a job, advancing running jobs towards the configured outcome on every poll
+	 */
+	private getJob(uuid: string): IDataObject {
+		const job = this.getCollection('/cluster/jobs').find((entry) => entry.uuid === uuid);
+		if (!job) {
+			throw httpError(404, { message: 'entry doesn\'t exist', code: '4', target: 'uuid' });
+		}
+
+		const polls = (this.jobPollCounts.get(uuid) ?? 0) + 1;
+		this.jobPollCounts.set(uuid, polls);
+
+		if (job.state === 'running' && polls > this.jobOutcome.pendingPolls) {
+			job.state = this.jobOutcome.state;
+			job.end_time = new Date().toISOString();
+			job.message = this.jobOutcome.message ?? (job.state === 'success' ? 'success' : 'Job failed');
+			job.code = this.jobOutcome.code ?? 0;
+			if (job.state === 'failure') {
+				job.error = { message: job.message, code: String(job.code) };
+			}
+		} else if (job.state === 'running' && this.jobOutcome.progress?.length) {
+			const progress = this.jobOutcome.progress;
+			job.message = progress[Math.min(polls, progress.length) - 1];
+		}
+		return clone(job);
+	}
+
+	private getCollection(path: string): IDataObject[] {
+		let collection = this.collections.get(path);
+		if (!collection) {
+			collection = [];
+			this.collections.set(path, collection);
+		}
+		return collection;
+	}
+
+	private takeFailure(method: string, path: string): OntapMockFailure | undefined {
+		const index = this.failures.findIndex((failure) =>
+			(!failure.method || failure.method === method) && (!failure.path || matchesPath(path, failure.path)),
+		);
+		if (index === -1) {
+			return undefined;
+		}
+
+		const failure = this.failures[index];
+		failure.times = (failure.times ?? 1) - 1;
+		if (failure.times <= 0) {
+			this.failures.splice(index, 1);
+		}
+		return failure;
+	}
+}
+
+function normalizePath(path: string): string {
+	const trimmed = path.replace(/\/+$/, '');
+	return trimmed.startsWith('/') || trimmed === '' ? trimmed : `/${trimmed}`;
+}
+
+function matchesPath(path: string, pattern: string | RegExp): boolean {
+	return typeof pattern === 'string' ? path === normalizePath(pattern) : pattern.test(path);
+}
+
+function clone<T>(value: T): T {
+	return JSON.parse(JSON.stringify(value)) as T;
+}
+
+function withKey(record: IDataObject): IDataObject {
+	if (record.uuid === undefined && record.id === undefined && record.index === undefined) {
+		return { uuid: randomUUID(), ...record };
+	}
+	return record;
+}
+
+function recordMatchesKey(record: IDataObject, key: string[], keyFields?: string[]): boolean {
+	if (keyFields) {
+		return keyFields.every((field, index) =>
+			getValues(record, field.split('.')).some((value) => String(value) === key[index]),
+		);
+	}
+	return ['uuid', 'name', 'id', 'index'].some((field) => record[field] !== undefined && String(record[field]) === key[0]);
+}
+
+/**
+ * Names only have to be unique within their SVM
+ */
+function isDuplicate(record: IDataObject, body: IDataObject): boolean {
+	if (record.name !== body.name) {
+		return false;
+	}
+	const recordSvm = (record.svm as IDataObject | undefined)?.name;
+	const bodySvm = (body.svm as IDataObject | undefined)?.name;
+	return recordSvm === bodySvm;
+}
+
+function deepMerge(target: IDataObject, source: IDataObject): void {
+	for (const [key, value] of Object.entries(source)) {
+		const current = target[key];
+		if (isPlainObject(value) && isPlainObject(current)) {
+			deepMerge(current as IDataObject, value as IDataObject);
+		} else {
+			target[key] = clone(value);
+		}
+	}
+}
+
+function isPlainObject(value: unknown): boolean {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Collect the values at a dotted path, flattening arrays along the way (e.g. aggregates.name)
+ */
+function getValues(value: unknown, path: string[]): unknown[] {
+	if (path.length === 0) {
+		return Array.isArray(value) ? value : [value];
+	}
+	if (Array.isArray(value)) {
+		return value.flatMap((entry) => getValues(entry, path));
+	}
+	if (!isPlainObject(value)) {
+		return [];
+	}
+	return getValues((value as IDataObject)[path[0]], path.slice(1));
+}
+
+function recordMatchesQuery(record: IDataObject, query: IDataObject): boolean {
+	return Object.entries(query).every(([field, pattern]) => {
+		if (RESERVED_QUERY_KEYS.includes(field) || pattern === undefined) {
+			return true;
+		}
+		const values = getValues(record, field.split('.'));
+		return splitAlternatives(String(pattern)).some((alternative) => values.some((value) => valueMatches(value, alternative)));
+	});
+}
+
+/**
+ * Split a query value on "|" outside of double-quoted literals
+ */
+function splitAlternatives(pattern: string): string[] {
+	return pattern.match(/(?:"(?:\\.|[^"\\])*"|[^|])+/g) ?? [''];
+}
+
+/**
+ * Remove the quotes of a double-quoted literal, or return undefined for other values
+ */
+function unquote(pattern: string): string | undefined {
+	const literal = /^"((?:\\.|[^"\\])*)"$/.exec(pattern);
+	return literal ? literal[1].replace(/\\(.)/g, '$1') : undefined;
+}
+
+/**
+ * Match a single value against one ONTAP query alternative: "!x", ">5", "<=5", "vol*",
+ * a double-quoted literal or an exact value
+ */
+function valueMatches(value: unknown, pattern: string): boolean {
+	if (pattern.startsWith('!')) {
+		return !valueMatches(value, pattern.slice(1));
+	}
+
+	const comparison = /^(>=|<=|>|<)(.+)$/.exec(pattern);
+	if (comparison) {
+		const left = Number(value);
+		const right = Number(unquote(comparison[2]) ?? comparison[2]);
+		switch (comparison[1]) {
+			case '>=':
+				return left >= right;
+			case '<=':
+				return left <= right;
+			case '>':
+				return left > right;
+			default:
+				return left < right;
+		}
+	}
+
+	if (value === undefined || value === null) {
+		return false;
+	}
+	const literal = unquote(pattern);
+	if (literal !== undefined) {
+		return String(value) === literal;
+	}
+	if (pattern.includes('*')) {
+		const source = pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+		return new RegExp(`^${source}$`, 'i').test(String(value));
+	}
+	return String(value) === pattern;
+}
+
+function sortRecords(records: IDataObject[], orderBy: string): IDataObject[] {
+	const [field, direction] = orderBy.split(',')[0].trim().split(/\s+/);
+	const factor = direction === 'desc' ? -1 : 1;
+	return [...records].sort((a, b) => {
+		const left = getValues(a, field.split('.'))[0] as string | number | undefined;
+		const right = getValues(b, field.split('.'))[0] as string | number | undefined;
+		if (left === right) return 0;
+		if (left === undefined) return 1;
+		if (right === undefined) return -1;
+		return (left < right ? -1 : 1) * factor;
+	});
+}
+
+function httpError(status: number, error: OntapMockErrorBody, headers: Record<string, string> = {}): AxiosError {
+	return new AxiosError(
+		`Request failed with status code ${status}`,
+		status >= 500 ? 'ERR_BAD_RESPONSE' : 'ERR_BAD_REQUEST',
+		{ status, statusText: '', headers, data: { error } },
+	);
+}
+
+function createFailure(failure: OntapMockFailure): Error {
+	if (failure.networkError) {
+		return new AxiosError(`socket hang up (${failure.networkError})`, failure.networkError);
+	}
+	return httpError(
+		failure.status ?? 500,
+		failure.error ?? { message: 'Internal error', code: '1' },
+		failure.headers,
+	);
+}
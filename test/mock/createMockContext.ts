@@ -0,0 +1,304 @@
+import type {
+	IAdditionalCredentialOptions,
+	ICredentialDataDecryptedObject,
+	IDataObject,
+	IExecuteFunctions,
+	IHookFunctions,
+	IHttpRequestHelper,
+	IHttpRequestOptions,
+	ILoadOptionsFunctions,
+	INode,
+	INodeExecutionData,
+	INodeParameterResourceLocator,
+	INodeParameters,
+	INodeType,
+	IPollFunctions,
+	IWebhookFunctions,
+	NodeApiError,
+	WorkflowExecuteMode,
+} from 'n8n-workflow';
+import { NodeHelpers } from 'n8n-workflow';
+
+import { NetAppOntapApi } from '../../credentials/NetAppOntapApi.credentials';
+import type { OntapCredentials } from '../../nodes/shared/types';
+import type { OntapMockServer } from './OntapMockServer';
+
+/**
+ * Credentials used by default, pointing at the mock cluster with fast retries
+ */
+export const MOCK_CREDENTIALS: OntapCredentials = {
+	authentication: 'basic',
+	username: 'admin',
+	password: 'secret',
+	allowUnauthorizedCerts: true,
+	clusterHost: 'cluster.test',
+	clusterPort: 443,
+	maxRetries: 2,
+	retryDelay: 1,
+};
+
+export interface MockContextOptions {
+	server: OntapMockServer;
+	/** Node parameters as set in the editor; defaults from the node description are filled in */
+	parameters: INodeParameters | ((itemIndex: number) => INodeParameters);
+	items?: INodeExecutionData[];
+	credentials?: Partial<OntapCredentials>;
+	continueOnFail?: boolean;
+	mode?: WorkflowExecuteMode;
+	staticData?: IDataObject;
+	webhookUrl?: string;
+	/** Body of the incoming webhook request */
+	body?: IDataObject | IDataObject[];
+	/** Query string of the incoming webhook request */
+	query?: IDataObject;
+	/** Run the node as an AI agent tool, whose node type n8n suffixes with "Tool" */
+	asTool?: boolean;
+}
+
+/**
+ * Read a dotted parameter path, e.g. "options.fields"
+ */
+function getParameterValue(parameters: INodeParameters, name: string): unknown {
+	return name.split('.').reduce<unknown>(
+		(value, key) => (value && typeof value === 'object' ? (value as IDataObject)[key] : undefined),
+		parameters,
+	);
+}
+
+/**
+ * Replace $fromAI() expressions with the argument of the same key in the
+ * agent's tool call, which reaches the tool node as its input item
+ */
+function resolveFromAI(value: unknown, toolArguments: IDataObject): unknown {
+	if (typeof value === 'string') {
+		const match = /^=\{\{\s*\$fromAI\(\s*'([^']+)'/.exec(value);
+		return match ? toolArguments[match[1]] : value;
+	}
+	if (Array.isArray(value)) {
+		return value.map((entry) => resolveFromAI(entry, toolArguments));
+	}
+	if (value && typeof value === 'object') {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, entry]) => [key, resolveFromAI(entry, toolArguments)]),
+		);
+	}
+	return value;
+}
+
+/**
+ * Credential type the nodes authenticate with
+ */
+const credentialType = new NetAppOntapApi();
+
+/**
+ * Credential property n8n fills in through preAuthentication when it is empty
+ */
+const expirableProperty = credentialType.properties.find((property) => property.typeOptions?.expirable)!.name;
+
+/**
+ * Send a request the way n8n's httpRequestWithAuthentication does. Credentials
+ * passed as credentialsDecrypted replace the stored ones. An empty expirable
+ * token is filled in through the credential's preAuthentication first, and a
+ * 401 fetches a new one and retries once. Tokens are saved to the stored
+ * credentials, as n8n does. The credential's authenticate is applied to a copy
+ * of the request options. Token requests go to the mock server as well.
+ */
+async function requestWithAuthentication(
+	server: OntapMockServer,
+	credentials: OntapCredentials,
+	requestOptions: IHttpRequestOptions,
+	additionalCredentialOptions?: IAdditionalCredentialOptions,
+): Promise<IDataObject> {
+	const authenticate = credentialType.authenticate as (
+		credentials: ICredentialDataDecryptedObject,
+		requestOptions: IHttpRequestOptions,
+	) => Promise<IHttpRequestOptions>;
+	const tokenHelper = {
+		helpers: { httpRequest: async (options: IHttpRequestOptions) => await server.handle(options) },
+	} as unknown as IHttpRequestHelper;
+
+	const refreshToken = async (data: ICredentialDataDecryptedObject): Promise<ICredentialDataDecryptedObject> => {
+		const token = await credentialType.preAuthentication!.call(tokenHelper, data) as IDataObject;
+		Object.assign(credentials, token);
+		return { ...data, ...token } as ICredentialDataDecryptedObject;
+	};
+	const send = async (data: ICredentialDataDecryptedObject) =>
+		await server.handle(await authenticate(data, { ...requestOptions, headers: { ...requestOptions.headers } }));
+
+	let data = (additionalCredentialOptions?.credentialsDecrypted?.data
+		?? credentials) as unknown as ICredentialDataDecryptedObject;
+	if (!data[expirableProperty]) {
+		data = await refreshToken(data);
+	}
+	try {
+		return await send(data);
+	} catch (error) {
+		if ((error as NodeApiError).httpCode !== '401') {
+			throw error;
+		}
+		return await send(await refreshToken(data));
+	}
+}
+
+/**
+ * Build the function contexts n8n passes to nodes, backed by the mock ONTAP server
+ */
+function createBaseContext(nodeType: INodeType, options: MockContextOptions) {
+	const description = nodeType.description;
+	const node: INode = {
+		id: 'a1b2c3d4-0000-4000-8000-000000000001',
+		name: description.defaults.name as string,
+		type: options.asTool ? `${description.name}Tool` : description.name,
+		typeVersion: 1,
+		position: [0, 0],
+		parameters: {},
+		webhookId: 'f0e1d2c3-1111-4222-8333-444455556666',
+	};
+	const credentials = { ...MOCK_CREDENTIALS, ...options.credentials };
+	const staticData = options.staticData ?? {};
+
+	const resolveParameters = (itemIndex: number): INodeParameters => {
+		const raw = typeof options.parameters === 'function' ? options.parameters(itemIndex) : options.parameters;
+		const toolArguments = options.items?.[itemIndex]?.json ?? {};
+		const resolved = resolveFromAI(raw, toolArguments) as INodeParameters;
+		return NodeHelpers.getNodeParameters(description.properties, resolved, true, false, node, description) ?? {};
+	};
+
+	const readParameter = (name: string, itemIndex: number, fallbackValue?: unknown): unknown => {
+		const value = getParameterValue(resolveParameters(itemIndex), name);
+		if (value !== undefined) {
+			return value;
+		}
+		if (fallbackValue !== undefined) {
+			return fallbackValue;
+		}
+		throw new Error(`Could not get parameter "${name}"`);
+	};
+
+	return {
+		getNode: () => node,
+		getMode: () => options.mode ?? 'trigger',
+		getCredentials: async () => credentials,
+		getWorkflowStaticData: () => staticData,
+		continueOnFail: () => options.continueOnFail ?? false,
+		readParameter,
+		helpers: {
+			httpRequestWithAuthentication: async (
+				_credentialsType: string,
+				requestOptions: IHttpRequestOptions,
+				additionalCredentialOptions?: IAdditionalCredentialOptions,
+			) => await requestWithAuthentication(options.server, credentials, requestOptions, additionalCredentialOptions),
+			returnJsonArray: (data: IDataObject | IDataObject[]) =>
+				(Array.isArray(data) ? data : [data]).map((json) => ({ json })),
+			constructExecutionMetaData: (
+				inputData: INodeExecutionData[],
+				metadata: { itemData: { item: number } },
+			) => inputData.map((item) => ({ ...item, pairedItem: metadata.itemData })),
+		},
+	};
+}
+
+/**
+ * Create an IExecuteFunctions context for running a node's execute method
+ */
+export function createExecuteContext(nodeType: INodeType, options: MockContextOptions): IExecuteFunctions {
+	const base = createBaseContext(nodeType, options);
+	return {
+		...base,
+		getInputData: () => options.items ?? [{ json: {} }],
+		getNodeParameter: (name: string, itemIndex: number, fallbackValue?: unknown) =>
+			base.readParameter(name, itemIndex, fallbackValue),
+	} as unknown as IExecuteFunctions;
+}
+
+/**
+ * Create an ILoadOptionsFunctions context for running list search methods
+ */
+export function createLoadOptionsContext(nodeType: INodeType, options: MockContextOptions): ILoadOptionsFunctions {
+	const base = createBaseContext(nodeType, options);
+	return {
+		...base,
+		getNodeParameter: (name: string, fallbackValue?: unknown) => base.readParameter(name, 0, fallbackValue),
+		getCurrentNodeParameter: (name: string, parameterOptions?: { extractValue?: boolean }) => {
+			const value = base.readParameter(name, 0, null);
+			if (parameterOptions?.extractValue && value && typeof value === 'object') {
+				return (value as IDataObject).value;
+			}
+			return value;
+		},
+	} as unknown as ILoadOptionsFunctions;
+}
+
+/**
+ * Create an IPollFunctions context for running a polling trigger
+ */
+export function createPollContext(nodeType: INodeType, options: MockContextOptions): IPollFunctions {
+	const base = createBaseContext(nodeType, options);
+	return {
+		...base,
+		getNodeParameter: (name: string, fallbackValue?: unknown) => base.readParameter(name, 0, fallbackValue),
+	} as unknown as IPollFunctions;
+}
+
+/**
+ * Create an IHookFunctions context for running webhook lifecycle methods
+ */
+export function createHookContext(nodeType: INodeType, options: MockContextOptions): IHookFunctions {
+	const base = createBaseContext(nodeType, options);
+	return {
+		...base,
+		getNodeParameter: (name: string, fallbackValue?: unknown) => base.readParameter(name, 0, fallbackValue),
+		getNodeWebhookUrl: () => options.webhookUrl ?? 'https://n8n.example.com/webhook/ems',
+	} as unknown as IHookFunctions;
+}
+
+/**
+ * Create an IWebhookFunctions context for handling an incoming webhook request
+ */
+export function createWebhookContext(nodeType: INodeType, options: MockContextOptions): IWebhookFunctions {
+	const base = createBaseContext(nodeType, options);
+	// Records what the node sends when it answers the request itself
+	const response = {
+		statusCode: 200,
+		body: undefined as unknown,
+		status(code: number) {
+			response.statusCode = code;
+			return response;
+		},
+		send(body: unknown) {
+			response.body = body;
+			return response;
+		},
+		end: () => response,
+	};
+	return {
+		...base,
+		getNodeParameter: (name: string, fallbackValue?: unknown) => base.readParameter(name, 0, fallbackValue),
+		getBodyData: () => options.body ?? {},
+		getQueryData: () => options.query ?? {},
+		getResponseObject: () => response,
+	} as unknown as IWebhookFunctions;
+}
+
+/**
+ * Run a node's execute method against the mock server and return the items of its first output
+ */
+export async function executeNode(nodeType: INodeType, options: MockContextOptions): Promise<INodeExecutionData[]> {
+	const context = createExecuteContext(nodeType, options);
+	const output = await nodeType.execute!.call(context);
+	return (output as INodeExecutionData[][])[0];
+}
+
+/**
+ * Build a resource locator value as stored by the editor
+ */
+export function locator(mode: 'list' | 'name' | 'uuid' | 'id' | 'url', value: string): INodeParameterResourceLocator {
+	return { __rl: true, mode, value };
+}
+
+/**
+ * Build the $fromAI() expression n8n stores for a parameter the agent fills in
+ */
+export function fromAI(key: string, description: string): string {
+	return `={{ $fromAI('${key}', '${description}', 'string') }}`;
+}
@@ -0,0 +1,189 @@
+import { NetAppOntapCluster } from '../../nodes/NetAppOntapCluster/NetAppOntapCluster.node';
+import { executeNode, locator } from '../mock/createMockContext';
+import { OntapMockServer } from '../mock/OntapMockServer';
+
+describe('NetAppOntapCluster', () => {
+	const node = new NetAppOntapCluster();
+	let server: OntapMockServer;
+
+	beforeEach(() => {
+		server = new OntapMockServer();
+		server.seed('/cluster/nodes', [
+			{ uuid: 'node-1', name: 'cluster1-01', location: 'rack 1' },
+			{ uuid: 'node-2', name: 'cluster1-02', location: 'rack 2' },
+		]);
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	describe('cluster', () => {
+		it('gets the cluster', async () => {
+			const items = await executeNode(node, {
+				server,
+				parameters: { resource: 'cluster', operation: 'get' },
+			});
+
+			expect(items[0].json).toMatchObject({ name: 'cluster1' });
+		});
+
+		it('splits comma separated lists when updating the cluster', async () => {
+			await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'cluster',
+					operation: 'update',
+					updateFields: { location: 'DC2', ntp_servers: 'ntp1.example.com, ntp2.example.com' },
+				},
+			});
+
+			expect(server.requestsTo('PATCH', '/cluster')[0].body).toEqual({
+				location: 'DC2',
+				ntp_servers: ['ntp1.example.com', 'ntp2.example.com'],
+			});
+			expect(server.singleton('/cluster')).toMatchObject({ location: 'DC2' });
+		});
+	});
+
+	describe('node', () => {
+		it('looks up a node by name', async () => {
+			const items = await executeNode(node, {
+				server,
+				parameters: { resource: 'node', operation: 'get', nodeId: locator('name', 'cluster1-02') },
+			});
+
+			expect(items[0].json).toMatchObject({ uuid: 'node-2', location: 'rack 2' });
+			expect(server.requests.map((request) => request.path)).toEqual(['/cluster/nodes', '/cluster/nodes/node-2']);
+		});
+	});
+
+	describe('job', () => {
+		it('waits for a running job to finish', async () => {
+			jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+			server.seed('/cluster/jobs', [{ uuid: 'job-1', state: 'running', description: 'PATCH /api/storage/volumes' }]);
+			server.jobOutcome = { pendingPolls: 2, state: 'success' };
+
+			const execution = executeNode(node, {
+				server,
+				parameters: { resource: 'job', operation: 'wait', jobUuid: 'job-1', waitTimeout: 60 },
+			});
+			await jest.advanceTimersByTimeAsync(10000);
+			const items = await execution;
+
+			expect(items[0].json).toMatchObject({ uuid: 'job-1', state: 'success' });
+			expect(server.requestsTo('GET', '/cluster/jobs/job-1')).toHaveLength(3);
+		});
+	});
+
+	describe('cli', () => {
+		it('maps a show command to a GET on the CLI passthrough', async () => {
+			server.seed('/private/cli/volume', [
+				{ vserver: 'svm1', volume: 'vol1', size: '1GB' },
+				{ vserver: 'svm2', volume: 'vol2', size: '2GB' },
+			]);
+
+			const items = await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'cli',
+					operation: 'runCommand',
+					cliCommand: 'volume show -vserver svm1 -fields size',
+				},
+			});
+
+			expect(server.requests[0]).toMatchObject({
+				method: 'GET',
+				path: '/private/cli/volume',
+				query: { vserver: 'svm1', fields: 'size' },
+			});
+			expect(items.map((item) => item.json.volume)).toEqual(['vol1']);
+		});
+
+		it('sends raw commands as CLI input', async () => {
+			server.on('POST', '/private/cli', () => ({ output: 'Last login time: 10/19/2026\n' }));
+
+			const items = await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'cli',
+					operation: 'runCommand',
+					cliCommand: 'security login show',
+					cliOutput: 'raw',
+				},
+			});
+
+			expect(server.requests[0].body).toEqual({ input: 'security login show' });
+			expect(items[0].json).toEqual({ command: 'security login show', output: 'Last login time: 10/19/2026\n' });
+		});
+
+		it('rejects values to set that are not valid JSON', async () => {
+			await expect(executeNode(node, {
+				server,
+				parameters: {
+					resource: 'cli',
+					operation: 'runCommand',
+					cliCommand: 'volume modify -vserver svm1 -volume vol1',
+					cliBody: '{ "comment": ',
+				},
+			})).rejects.toThrow('Values to Set (JSON) is not valid JSON');
+			expect(server.requests).toHaveLength(0);
+		});
+
+		it('reports invalid values to set on the failed item', async () => {
+			const items = await executeNode(node, {
+				server,
+				continueOnFail: true,
+				parameters: {
+					resource: 'cli',
+					operation: 'runCommand',
+					cliCommand: 'volume modify -vserver svm1 -volume vol1',
+					cliBody: '{ "comment": ',
+				},
+			});
+
+			expect(items[0].json.error).toBe('Values to Set (JSON) is not valid JSON');
+			expect(items[0].pairedItem).toEqual({ item: 0 });
+		});
+
+		it('lets an AI agent run show commands only', async () => {
+			const runCommand = (cliCommand: string) => executeNode(node, {
+				server,
+				asTool: true,
+				parameters: { resource: 'cli', operation: 'runCommand', cliCommand },
+			});
+
+			await runCommand('volume show -vserver svm1');
+			await expect(runCommand('volume offline -vserver svm1 -volume vol1'))
+				.rejects.toThrow('The "runCommand" operation is not allowed for AI agents');
+			expect(server.requests.map((request) => request.method)).toEqual(['GET']);
+		});
+
+		it('checks each item of an AI agent run on its own', async () => {
+			server.seed('/private/cli/volume', [{ vserver: 'svm1', volume: 'vol1' }]);
+			const commands = ['', 'volume offline -vserver svm1 -volume vol1', 'volume show -vserver svm1'];
+
+			const items = await executeNode(node, {
+				server,
+				asTool: true,
+				continueOnFail: true,
+				items: commands.map(() => ({ json: {} })),
+				parameters: (itemIndex) => ({ resource: 'cli', operation: 'runCommand', cliCommand: commands[itemIndex] }),
+			});
+
+			expect(items[0].json.error).toBe('CLI command is empty');
+			expect(items[1].json.error).toBe('The "runCommand" operation is not allowed for AI agents');
+			expect(items[2].json).toMatchObject({ volume: 'vol1' });
+			expect(server.requests.map((request) => request.method)).toEqual(['GET']);
+		});
+
+		it('explains a missing CLI passthrough permission', async () => {
+			server.fail({ path: '/private/cli/volume', status: 403, error: { message: 'not authorized for that command', code: '6' } });
+
+			await expect(executeNode(node, {
+				server,
+				parameters: { resource: 'cli', operation: 'runCommand', cliCommand: 'volume show' },
+			})).rejects.toThrow('The ONTAP account is not allowed to use the CLI passthrough (/api/private/cli)');
+		});
+	});
+});
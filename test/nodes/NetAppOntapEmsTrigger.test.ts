@@ -0,0 +1,72 @@
+import type { IDataObject, INodeParameters } from 'n8n-workflow';
+
+import { NetAppOntapEmsTrigger } from '../../nodes/NetAppOntapEmsTrigger/NetAppOntapEmsTrigger.node';
+import { createPollContext } from '../mock/createMockContext';
+import { OntapMockServer } from '../mock/OntapMockServer';
+
+describe('NetAppOntapEmsTrigger', () => {
+	const node = new NetAppOntapEmsTrigger();
+	let server: OntapMockServer;
+	let staticData: IDataObject;
+
+	const poll = async (parameters: INodeParameters = {}, mode: 'trigger' | 'manual' = 'trigger') =>
+		await node.poll.call(createPollContext(node, { server, parameters, staticData, mode }));
+
+	beforeEach(() => {
+		server = new OntapMockServer();
+		staticData = {};
+		server.seed('/support/ems/events', [
+			{ index: 1, time: '2026-10-19T08:00:00Z', node: { name: 'cluster1-01' }, message: { name: 'wafl.vol.full', severity: 'error' } },
+			{ index: 2, time: '2026-10-19T08:01:00Z', node: { name: 'cluster1-02' }, message: { name: 'mgmtgwd.rotatelog', severity: 'informational' } },
+		]);
+	});
+
+	it('starts from the newest event on the first poll', async () => {
+		expect(await poll()).toBeNull();
+		expect(staticData.lastIndexByCluster).toEqual({ 'https://cluster.test:443': 2 });
+	});
+
+	it('emits only events logged since the previous poll', async () => {
+		await poll();
+		server.seed('/support/ems/events', [
+			{ index: 3, time: '2026-10-19T08:02:00Z', node: { name: 'cluster1-01' }, message: { name: 'wafl.vol.autoSize.done', severity: 'notice' } },
+			{ index: 4, time: '2026-10-19T08:03:00Z', node: { name: 'cluster1-01' }, message: { name: 'callhome.spares.low', severity: 'alert' } },
+		]);
+
+		const output = await poll();
+
+		expect(output![0].map((item) => item.json.index)).toEqual([3, 4]);
+		expect(server.requests[1].query).toMatchObject({ index: '>2', order_by: 'index asc' });
+		expect(await poll()).toBeNull();
+	});
+
+	it('passes severity, message and node filters to ONTAP', async () => {
+		staticData.lastIndexByCluster = { 'https://cluster.test:443': 0 };
+
+		const output = await poll({
+			filters: { severities: ['error', 'alert'], messageName: 'wafl.*', nodeName: 'cluster1-01' },
+		});
+
+		expect(server.requests[0].query).toMatchObject({
+			'message.severity': 'error|alert',
+			'message.name': 'wafl.*',
+			'node.name': 'cluster1-01',
+		});
+		expect(output![0].map((item) => item.json.index)).toEqual([1]);
+	});
+
+	it('lets ONTAP search the event log for longer', async () => {
+		staticData.lastIndexByCluster = { 'https://cluster.test:443': 0 };
+
+		await poll({ options: { returnTimeout: 60 } });
+
+		expect(server.requests[0].query).toMatchObject({ index: '>0', return_timeout: 60 });
+	});
+
+	it('returns recent events without moving the cursor in manual mode', async () => {
+		const output = await poll({}, 'manual');
+
+		expect(output![0].map((item) => item.json.index)).toEqual([1, 2]);
+		expect(staticData.lastIndexByCluster).toBeUndefined();
+	});
+});
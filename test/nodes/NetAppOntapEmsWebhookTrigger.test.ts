@@ -0,0 +1,123 @@
+import type { IDataObject, INodeParameters } from 'n8n-workflow';
+
+import { NetAppOntapEmsWebhookTrigger } from '../../nodes/NetAppOntapEmsWebhookTrigger/NetAppOntapEmsWebhookTrigger.node';
+import { createHookContext, createWebhookContext } from '../mock/createMockContext';
+import { OntapMockServer } from '../mock/OntapMockServer';
+
+describe('NetAppOntapEmsWebhookTrigger', () => {
+	const node = new NetAppOntapEmsWebhookTrigger();
+	const objectName = 'n8n_f0e1d2c3111142228333444455556666';
+	let server: OntapMockServer;
+	let staticData: IDataObject;
+
+	const hook = (parameters: INodeParameters = {}) => createHookContext(node, { server, parameters, staticData });
+
+	beforeEach(() => {
+		server = new OntapMockServer();
+		staticData = {};
+	});
+
+	it('creates the EMS filter and destination on activation', async () => {
+		const context = hook({ severities: ['emergency', 'alert'], messageName: 'wafl.*' });
+
+		expect(await node.webhookMethods.default.checkExists.call(context)).toBe(false);
+		expect(await node.webhookMethods.default.create.call(context)).toBe(true);
+
+		expect(server.records('/support/ems/filters')).toEqual([
+			expect.objectContaining({
+				name: objectName,
+				rules: [{ index: 1, type: 'include', message_criteria: { name_pattern: 'wafl.*', severities: 'emergency,alert' } }],
+			}),
+		]);
+		expect(server.records('/support/ems/destinations')).toEqual([
+			expect.objectContaining({
+				name: objectName,
+				type: 'rest_api',
+				destination: `https://n8n.example.com/webhook/ems?token=${staticData.secret as string}`,
+				filters: [{ name: objectName }],
+			}),
+		]);
+		expect(staticData.secret).toMatch(/^[0-9a-f]{48}$/);
+		expect(await node.webhookMethods.default.checkExists.call(context)).toBe(true);
+	});
+
+	it('rebuilds the EMS filter once the severities or message name pattern change', async () => {
+		await node.webhookMethods.default.create.call(hook({ severities: ['emergency', 'alert'], messageName: 'wafl.*' }));
+		// ONTAP appends a default rule and may report the severities in another order
+		server.records('/support/ems/filters')[0].rules = [
+			{ index: 1, type: 'include', message_criteria: { name_pattern: 'wafl.*', severities: 'alert,emergency' } },
+			{ index: 2, type: 'exclude', message_criteria: { name_pattern: '*', severities: '*' } },
+		];
+
+		expect(await node.webhookMethods.default.checkExists.call(hook({ severities: ['alert', 'emergency'], messageName: 'wafl.*' }))).toBe(true);
+		expect(await node.webhookMethods.default.checkExists.call(hook({ severities: ['emergency'], messageName: 'wafl.*' }))).toBe(false);
+		expect(await node.webhookMethods.default.checkExists.call(hook({ severities: ['emergency', 'alert'], messageName: 'disk.*' }))).toBe(false);
+	});
+
+	it('removes the destination before the filter on deactivation', async () => {
+		const context = hook();
+		await node.webhookMethods.default.create.call(context);
+
+		expect(await node.webhookMethods.default.delete.call(context)).toBe(true);
+
+		expect(server.requests.filter((request) => request.method === 'DELETE').slice(-2).map((request) => request.path)).toEqual([
+			`/support/ems/destinations/${objectName}`,
+			`/support/ems/filters/${objectName}`,
+		]);
+		expect(server.records('/support/ems/destinations')).toHaveLength(0);
+		expect(server.records('/support/ems/filters')).toHaveLength(0);
+	});
+
+	it('removes the filter again when the destination cannot be created', async () => {
+		server.fail({ method: 'POST', path: '/support/ems/destinations', status: 400, error: { message: 'Invalid URL', code: '983148' } });
+
+		await expect(node.webhookMethods.default.create.call(hook())).rejects.toThrow();
+
+		expect(server.records('/support/ems/filters')).toHaveLength(0);
+	});
+
+	it('emits incoming events as EMS event items', async () => {
+		staticData.secret = 'cluster-secret';
+		const context = createWebhookContext(node, {
+			server,
+			parameters: {},
+			staticData,
+			query: { token: 'cluster-secret' },
+			body: {
+				index: 57,
+				time: '2026-10-19T08:05:00Z',
+				node: { name: 'cluster1-01', uuid: 'node-1' },
+				message: { name: 'wafl.vol.full', severity: 'alert' },
+				log_message: 'wafl.vol.full: Volume vol1@vserver:svm1 is full (using or reserving 98% of space).',
+			},
+		});
+
+		const response = await node.webhook.call(context);
+
+		expect(response.workflowData![0][0].json).toEqual({
+			index: 57,
+			time: '2026-10-19T08:05:00Z',
+			node: { name: 'cluster1-01', uuid: 'node-1' },
+			message: { name: 'wafl.vol.full', severity: 'alert' },
+			log_message: 'wafl.vol.full: Volume vol1@vserver:svm1 is full (using or reserving 98% of space).',
+		});
+	});
+
+	it('rejects requests without the secret token of the destination', async () => {
+		staticData.secret = 'cluster-secret';
+		for (const query of [{}, { token: 'guessed-secret' }]) {
+			const context = createWebhookContext(node, {
+				server,
+				parameters: {},
+				staticData,
+				query,
+				body: { index: 1, message: { name: 'wafl.vol.full', severity: 'alert' } },
+			});
+
+			const response = await node.webhook.call(context);
+
+			expect(response).toEqual({ noWebhookResponse: true });
+			expect(context.getResponseObject().statusCode).toBe(401);
+		}
+	});
+});
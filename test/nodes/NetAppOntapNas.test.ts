@@ -0,0 +1,164 @@
+import { NetAppOntapNas } from '../../nodes/NetAppOntapNas/NetAppOntapNas.node';
+import { executeNode, locator } from '../mock/createMockContext';
+import { OntapMockServer } from '../mock/OntapMockServer';
+
+describe('NetAppOntapNas', () => {
+	const node = new NetAppOntapNas();
+	let server: OntapMockServer;
+
+	beforeEach(() => {
+		server = new OntapMockServer();
+		server.seed('/svm/svms', [{ uuid: 'svm-1', name: 'svm_nas' }]);
+		server.seed('/protocols/cifs/shares', [
+			{ name: 'projects', path: '/projects', svm: { name: 'svm_nas', uuid: 'svm-1' } },
+		]);
+		server.seed('/protocols/nfs/export-policies', [{ id: 42, name: 'default_rw', svm: { name: 'svm_nas' } }]);
+	});
+
+	describe('CIFS share', () => {
+		it('addresses a share by SVM UUID and share name', async () => {
+			const items = await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'cifsShare',
+					operation: 'get',
+					shareSvm: locator('name', 'svm_nas'),
+					shareName: locator('name', 'projects'),
+				},
+			});
+
+			expect(server.requests.map((request) => request.path)).toEqual([
+				'/svm/svms',
+				'/protocols/cifs/shares/svm-1/projects',
+			]);
+			expect(items[0].json).toMatchObject({ name: 'projects', path: '/projects' });
+		});
+
+		it('creates a share with its options', async () => {
+			await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'cifsShare',
+					operation: 'create',
+					newShareName: 'home',
+					newShareSvm: locator('name', 'svm_nas'),
+					sharePath: '/home',
+					shareCreateOptions: { comment: 'Home directories', oplocks: false },
+				},
+			});
+
+			expect(server.requestsTo('POST', '/protocols/cifs/shares')[0].body).toEqual({
+				name: 'home',
+				svm: { name: 'svm_nas' },
+				path: '/home',
+				comment: 'Home directories',
+				oplocks: false,
+			});
+		});
+
+		it('skips or updates a share that already exists', async () => {
+			const parameters = {
+				resource: 'cifsShare',
+				operation: 'create',
+				newShareName: 'projects',
+				newShareSvm: locator('name', 'svm_nas'),
+				sharePath: '/projects_v2',
+			};
+
+			const skipped = await executeNode(node, { server, parameters: { ...parameters, ifExists: 'skip' } });
+			const updated = await executeNode(node, { server, parameters: { ...parameters, ifExists: 'update' } });
+
+			expect(skipped[0].json).toMatchObject({ path: '/projects', _action: 'unchanged' });
+			expect(updated[0].json).toMatchObject({ path: '/projects_v2', _action: 'updated', _changedFields: ['path'] });
+			expect(server.requestsTo('PATCH', '/protocols/cifs/shares/svm-1/projects')[0].body).toEqual({ path: '/projects_v2' });
+			expect(server.requestsTo('POST', '/protocols/cifs/shares')).toHaveLength(0);
+		});
+
+		it('reports an unknown SVM', async () => {
+			await expect(executeNode(node, {
+				server,
+				parameters: {
+					resource: 'cifsShare',
+					operation: 'delete',
+					shareSvm: locator('name', 'svm_missing'),
+					shareName: locator('name', 'projects'),
+				},
+			})).rejects.toThrow('SVM "svm_missing" not found');
+		});
+	});
+
+	describe('CIFS session', () => {
+		const parameters = { resource: 'cifsSession', operation: 'getMany', filters: { returnAll: true } };
+
+		it('reads the cluster version once for all items', async () => {
+			await executeNode(node, { server, parameters, items: [{ json: {} }, { json: {} }] });
+
+			expect(server.requestsTo('GET', '/cluster')).toHaveLength(1);
+			expect(server.requestsTo('GET', '/protocols/cifs/sessions')).toHaveLength(2);
+		});
+
+		it('fails before sending the request when the cluster is too old', async () => {
+			server.setSingleton('/cluster', {
+				name: 'cluster1',
+				version: { full: 'NetApp Release 9.7P4', generation: 9, major: 7, minor: 0 },
+			});
+
+			await expect(executeNode(node, { server, parameters })).rejects.toThrow('This operation requires ONTAP 9.8 or later');
+			expect(server.requestsTo('GET', '/protocols/cifs/sessions')).toHaveLength(0);
+		});
+
+		it('fails each item on its own with Continue On Fail when the cluster is too old', async () => {
+			server.setSingleton('/cluster', {
+				name: 'cluster1',
+				version: { full: 'NetApp Release 9.7P4', generation: 9, major: 7, minor: 0 },
+			});
+
+			const items = await executeNode(node, { server, parameters, continueOnFail: true, items: [{ json: {} }, { json: {} }] });
+
+			expect(items.map((item) => item.json.error)).toEqual([
+				'This operation requires ONTAP 9.8 or later',
+				'This operation requires ONTAP 9.8 or later',
+			]);
+			expect(server.requestsTo('GET', '/protocols/cifs/sessions')).toHaveLength(0);
+		});
+	});
+
+	describe('export policy', () => {
+		it('renames a policy by ID', async () => {
+			await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'exportPolicy',
+					operation: 'update',
+					exportPolicyId: locator('list', '42'),
+					exportPolicyNewName: 'projects_rw',
+				},
+			});
+
+			expect(server.records('/protocols/nfs/export-policies')[0].name).toBe('projects_rw');
+		});
+	});
+
+	describe('export rule', () => {
+		it('adds a rule with one client match per entry', async () => {
+			await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'exportRule',
+					operation: 'create',
+					ruleExportPolicy: locator('list', '42'),
+					ruleClients: '10.0.0.0/24, 10.0.1.0/24',
+					ruleRwRule: ['sys'],
+				},
+			});
+
+			expect(server.records('/protocols/nfs/export-policies/42/rules')).toEqual([
+				expect.objectContaining({
+					clients: [{ match: '10.0.0.0/24' }, { match: '10.0.1.0/24' }],
+					ro_rule: ['sys'],
+					rw_rule: ['sys'],
+				}),
+			]);
+		});
+	});
+});
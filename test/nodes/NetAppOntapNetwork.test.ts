@@ -0,0 +1,123 @@
+import { NetAppOntapNetwork } from '../../nodes/NetAppOntapNetwork/NetAppOntapNetwork.node';
+import { executeNode, locator } from '../mock/createMockContext';
+import { OntapMockServer } from '../mock/OntapMockServer';
+
+describe('NetAppOntapNetwork', () => {
+	const node = new NetAppOntapNetwork();
+	let server: OntapMockServer;
+
+	beforeEach(() => {
+		server = new OntapMockServer();
+		server.seed('/network/ip/interfaces', [
+			{
+				uuid: 'lif-1',
+				name: 'lif_data1',
+				svm: { name: 'svm1' },
+				ip: { address: '10.0.0.10', netmask: '24' },
+				location: { home_node: { name: 'cluster1-01' }, home_port: { name: 'e0c' }, is_home: true },
+			},
+		]);
+	});
+
+	describe('IP interface', () => {
+		it('creates an interface with its home location', async () => {
+			await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'ipInterface',
+					operation: 'create',
+					ipInterfaceName: 'lif_data2',
+					ipInterfaceSvm: locator('name', 'svm1'),
+					ipAddress: '10.0.0.11',
+					homeNode: locator('name', 'cluster1-02'),
+					homePort: 'e0d',
+				},
+			});
+
+			expect(server.requestsTo('POST', '/network/ip/interfaces')[0].body).toEqual({
+				name: 'lif_data2',
+				svm: { name: 'svm1' },
+				ip: { address: '10.0.0.11', netmask: 24 },
+				location: {
+					home_node: { name: 'cluster1-02' },
+					home_port: { name: 'e0d' },
+				},
+			});
+			expect(server.records('/network/ip/interfaces')).toHaveLength(2);
+		});
+
+		it('migrates an interface resolved by name', async () => {
+			await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'ipInterface',
+					operation: 'migrate',
+					ipInterfaceId: locator('name', 'lif_data1'),
+					destNode: locator('name', 'cluster1-02'),
+					destPort: 'e0c',
+				},
+			});
+
+			expect(server.requestsTo('PATCH', '/network/ip/interfaces/lif-1')[0].body).toEqual({
+				location: { node: { name: 'cluster1-02' }, port: { name: 'e0c' } },
+			});
+		});
+
+		it('reverts an interface to its home port', async () => {
+			await executeNode(node, {
+				server,
+				parameters: { resource: 'ipInterface', operation: 'revert', ipInterfaceId: locator('list', 'lif-1') },
+			});
+
+			expect(server.requestsTo('PATCH', '/network/ip/interfaces/lif-1')[0].body).toEqual({
+				location: { is_home: true },
+			});
+		});
+
+		it('reports an unknown interface name', async () => {
+			await expect(executeNode(node, {
+				server,
+				parameters: { resource: 'ipInterface', operation: 'get', ipInterfaceId: locator('name', 'lif_missing') },
+			})).rejects.toThrow('IP interface "lif_missing" not found');
+		});
+	});
+
+	describe('port', () => {
+		it('returns only the ports matching the API filters', async () => {
+			server.seed('/network/ethernet/ports', [
+				{ uuid: 'port-1', name: 'e0a', state: 'up', node: { name: 'cluster1-01' } },
+				{ uuid: 'port-2', name: 'e0b', state: 'down', node: { name: 'cluster1-01' } },
+				{ uuid: 'port-3', name: 'e0a', state: 'up', node: { name: 'cluster1-02' } },
+			]);
+
+			const items = await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'port',
+					operation: 'getMany',
+					filters: { apiFilters: 'state=up,node.name=cluster1-01' },
+				},
+			});
+
+			expect(items.map((item) => item.json.uuid)).toEqual(['port-1']);
+		});
+
+		it('fails a port update before sending it to a cluster older than 9.8', async () => {
+			server.setSingleton('/cluster', {
+				name: 'cluster1',
+				version: { full: 'NetApp Release 9.7P4', generation: 9, major: 7, minor: 0 },
+			});
+
+			await expect(executeNode(node, {
+				server,
+				parameters: {
+					resource: 'port',
+					operation: 'update',
+					portId: locator('uuid', 'port-1'),
+					portUpdateFields: { mtu: 9000 },
+				},
+			})).rejects.toThrow('This operation requires ONTAP 9.8 or later');
+			expect(server.requestsTo('PATCH', '/network/ethernet/ports/port-1')).toHaveLength(0);
+		});
+	});
+});
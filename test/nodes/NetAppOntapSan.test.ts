@@ -0,0 +1,145 @@
+import { NetAppOntapSan } from '../../nodes/NetAppOntapSan/NetAppOntapSan.node';
+import { executeNode, locator } from '../mock/createMockContext';
+import { OntapMockServer } from '../mock/OntapMockServer';
+
+describe('NetAppOntapSan', () => {
+	const node = new NetAppOntapSan();
+	let server: OntapMockServer;
+
+	beforeEach(() => {
+		server = new OntapMockServer();
+		server.seed('/storage/luns', [
+			{
+				uuid: 'lun-1',
+				name: '/vol/vol_san/lun1',
+				svm: { name: 'svm_san' },
+				location: { volume: { name: 'vol_san' } },
+				status: { state: 'online' },
+			},
+		]);
+		server.seed('/protocols/san/igroups', [
+			{ uuid: 'ig-1', name: 'esx_hosts', svm: { name: 'svm_san' }, protocol: 'iscsi', os_type: 'vmware' },
+		]);
+	});
+
+	describe('LUN', () => {
+		it('builds the LUN path from volume and name', async () => {
+			await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'lun',
+					operation: 'create',
+					lunName: 'lun2',
+					lunSvm: locator('name', 'svm_san'),
+					lunVolume: locator('name', 'vol_san'),
+					lunSize: '500GB',
+					lunOsType: 'vmware',
+				},
+			});
+
+			expect(server.requestsTo('POST', '/storage/luns')[0].body).toEqual({
+				name: '/vol/vol_san/lun2',
+				svm: { name: 'svm_san' },
+				space: { size: 536870912000 },
+				os_type: 'vmware',
+			});
+		});
+
+		it('resolves a LUN by path before taking it offline', async () => {
+			await executeNode(node, {
+				server,
+				parameters: { resource: 'lun', operation: 'offline', lunId: locator('name', '/vol/vol_san/lun1') },
+			});
+
+			expect(server.requests[0].query).toMatchObject({ name: '/vol/vol_san/lun1' });
+			expect(server.records('/storage/luns')[0].status).toEqual({ state: 'offline' });
+		});
+
+		it('clones a LUN into the source LUN\'s volume', async () => {
+			await executeNode(node, {
+				server,
+				parameters: { resource: 'lun', operation: 'clone', lunId: locator('uuid', 'lun-1'), lunCloneName: 'lun1_clone' },
+			});
+
+			expect(server.requestsTo('POST', '/storage/luns')[0].body).toEqual({
+				name: '/vol/vol_san/lun1_clone',
+				svm: { name: 'svm_san' },
+				clone: { source: { uuid: 'lun-1' } },
+			});
+		});
+	});
+
+	describe('igroup', () => {
+		it('creates an igroup with its initiators', async () => {
+			await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'igroup',
+					operation: 'create',
+					igroupName: 'linux_hosts',
+					igroupSvm: locator('name', 'svm_san'),
+					igroupProtocol: 'iscsi',
+					igroupOsType: 'linux',
+					igroupInitiators: 'iqn.1994-05.com.redhat:host1, iqn.1994-05.com.redhat:host2',
+				},
+			});
+
+			expect(server.requestsTo('POST', '/protocols/san/igroups')[0].body).toEqual({
+				name: 'linux_hosts',
+				svm: { name: 'svm_san' },
+				protocol: 'iscsi',
+				os_type: 'linux',
+				initiators: [{ name: 'iqn.1994-05.com.redhat:host1' }, { name: 'iqn.1994-05.com.redhat:host2' }],
+			});
+		});
+
+		it('removes an initiator addressed by its encoded name', async () => {
+			server.seed('/protocols/san/igroups/ig-1/initiators', [{ name: 'iqn.1998-01.com.vmware:esx1' }]);
+
+			const items = await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'igroup',
+					operation: 'removeInitiator',
+					igroupId: locator('name', 'esx_hosts'),
+					initiator: 'iqn.1998-01.com.vmware:esx1',
+				},
+			});
+
+			expect(items[0].json).toEqual({ success: true, removed: 'iqn.1998-01.com.vmware:esx1' });
+			expect(server.records('/protocols/san/igroups/ig-1/initiators')).toHaveLength(0);
+		});
+	});
+
+	describe('LUN map', () => {
+		it('maps a LUN to an igroup and unmaps it again', async () => {
+			await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'lunMap',
+					operation: 'create',
+					lunMapLun: locator('list', 'lun-1'),
+					lunMapIgroup: locator('list', 'ig-1'),
+					lunMapId: 3,
+				},
+			});
+
+			expect(server.records('/protocols/san/lun-maps')).toEqual([
+				expect.objectContaining({ lun: { uuid: 'lun-1' }, igroup: { uuid: 'ig-1' }, logical_unit_number: 3 }),
+			]);
+
+			await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'lunMap',
+					operation: 'delete',
+					lunMapLun: locator('list', 'lun-1'),
+					lunMapIgroup: locator('list', 'ig-1'),
+				},
+			});
+
+			expect(server.requestsTo('DELETE', '/protocols/san/lun-maps/lun-1/ig-1')).toHaveLength(1);
+			expect(server.records('/protocols/san/lun-maps')).toHaveLength(0);
+		});
+	});
+});
@@ -0,0 +1,136 @@
+import { NetAppOntapSecurity } from '../../nodes/NetAppOntapSecurity/NetAppOntapSecurity.node';
+import { executeNode, locator } from '../mock/createMockContext';
+import { OntapMockServer } from '../mock/OntapMockServer';
+
+describe('NetAppOntapSecurity', () => {
+	const node = new NetAppOntapSecurity();
+	let server: OntapMockServer;
+
+	beforeEach(() => {
+		server = new OntapMockServer();
+		server.seed('/security/accounts', [
+			{ name: 'monitor', owner: { uuid: 'cluster-uuid', name: 'cluster1' }, locked: false },
+		]);
+		server.seed('/security/roles', [{ name: 'readonly_ops', owner: { uuid: 'cluster-uuid', name: 'cluster1' } }]);
+	});
+
+	describe('account', () => {
+		it('creates an account with one entry per application', async () => {
+			await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'account',
+					operation: 'create',
+					accountName: 'automation',
+					accountOwner: locator('list', 'cluster-uuid'),
+					accountRole: locator('list', 'cluster-uuid/readonly_ops'),
+					accountApplications: ['http', 'ontapi'],
+					authMethod: 'password',
+					accountCreateOptions: { password: 'Netapp1!' },
+				},
+			});
+
+			expect(server.requestsTo('POST', '/security/accounts')[0].body).toMatchObject({
+				name: 'automation',
+				owner: { uuid: 'cluster-uuid' },
+				role: { name: 'readonly_ops' },
+				applications: [
+					{ application: 'http', authentication_methods: ['password'] },
+					{ application: 'ontapi', authentication_methods: ['password'] },
+				],
+				password: 'Netapp1!',
+			});
+		});
+
+		it('locks an account addressed by owner and name', async () => {
+			await executeNode(node, {
+				server,
+				parameters: { resource: 'account', operation: 'lock', accountId: locator('list', 'cluster-uuid/monitor') },
+			});
+
+			expect(server.requestsTo('PATCH', '/security/accounts/cluster-uuid/monitor')).toHaveLength(1);
+			expect(server.records('/security/accounts')[0].locked).toBe(true);
+		});
+
+		it('confirms a password change', async () => {
+			const items = await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'account',
+					operation: 'setPassword',
+					accountId: locator('list', 'cluster-uuid/monitor'),
+					newPassword: 'N3w-Secret',
+				},
+			});
+
+			expect(items[0].json).toEqual({ success: true, message: 'Password updated' });
+		});
+
+		it('fails for an unknown account', async () => {
+			await expect(executeNode(node, {
+				server,
+				parameters: { resource: 'account', operation: 'get', accountId: locator('list', 'cluster-uuid/nobody') },
+			})).rejects.toMatchObject({ httpCode: '404' });
+		});
+	});
+
+	describe('role', () => {
+		it('adds a privilege to a role', async () => {
+			await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'role',
+					operation: 'addPrivilege',
+					roleId: locator('list', 'cluster-uuid/readonly_ops'),
+					privilegePath: '/api/storage/volumes',
+					privilegeAccess: 'readonly',
+				},
+			});
+
+			expect(server.records('/security/roles/cluster-uuid/readonly_ops/privileges')).toEqual([
+				expect.objectContaining({ path: '/api/storage/volumes', access: 'readonly' }),
+			]);
+		});
+	});
+
+	describe('ONTAP version', () => {
+		const clusterVersion = (major: number) => server.setSingleton('/cluster', {
+			name: 'cluster1',
+			version: { full: `NetApp Release 9.${major}.1`, generation: 9, major, minor: 1 },
+		});
+
+		beforeEach(() => {
+			server.seed('/security/key-managers', [{ uuid: 'km-1', onboard: { enabled: true } }]);
+			server.setSingleton('/security/ssh', { ciphers: ['aes256_ctr'] });
+		});
+
+		it('fails an item requesting a key manager field the cluster does not have yet', async () => {
+			clusterVersion(8);
+
+			await expect(executeNode(node, {
+				server,
+				parameters: {
+					resource: 'keyManager',
+					operation: 'get',
+					keyManagerId: locator('uuid', 'km-1'),
+					options: { fields: ['uuid', 'policy.name'] },
+				},
+			})).rejects.toThrow('The "policy" field requires ONTAP 9.9 or later');
+			expect(server.requestsTo('GET', '/security/key-managers/km-1')).toHaveLength(0);
+		});
+
+		it('checks the fields an operation sets against the cluster version', async () => {
+			const parameters = { resource: 'ssh', operation: 'update', sshUpdateFields: { perSourceLimit: 8 } };
+			clusterVersion(9);
+
+			await expect(executeNode(node, { server, parameters }))
+				.rejects.toThrow('The "connections_per_second" field requires ONTAP 9.10 or later');
+
+			clusterVersion(14);
+			await executeNode(node, { server, parameters });
+			expect(server.requestsTo('PATCH', '/security/ssh')).toEqual([
+				expect.objectContaining({ body: { connections_per_second: 8 } }),
+			]);
+		});
+	});
+});
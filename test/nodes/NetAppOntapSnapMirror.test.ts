@@ -0,0 +1,89 @@
+import { NetAppOntapSnapMirror } from '../../nodes/NetAppOntapSnapMirror/NetAppOntapSnapMirror.node';
+import { executeNode, locator } from '../mock/createMockContext';
+import { OntapMockServer } from '../mock/OntapMockServer';
+
+describe('NetAppOntapSnapMirror', () => {
+	const node = new NetAppOntapSnapMirror();
+	let server: OntapMockServer;
+
+	beforeEach(() => {
+		server = new OntapMockServer();
+		server.seed('/snapmirror/relationships', [
+			{
+				uuid: 'rel-1',
+				source: { path: 'svm_src:vol1' },
+				destination: { path: 'svm_dst:vol1_dp' },
+				state: 'snapmirrored',
+			},
+		]);
+	});
+
+	describe('relationship', () => {
+		it('prefixes volume paths with their SVM', async () => {
+			await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'relationship',
+					operation: 'create',
+					sourceSvm: locator('name', 'svm_src'),
+					sourcePath: 'vol2',
+					destSvm: locator('name', 'svm_dst'),
+					destPath: 'svm_dst:vol2_dp',
+				},
+			});
+
+			expect(server.requestsTo('POST', '/snapmirror/relationships')[0].body).toEqual({
+				source: { path: 'svm_src:vol2' },
+				destination: { path: 'svm_dst:vol2_dp' },
+			});
+		});
+
+		it('breaks a relationship', async () => {
+			const items = await executeNode(node, {
+				server,
+				parameters: { resource: 'relationship', operation: 'break', relationshipId: locator('list', 'rel-1') },
+			});
+
+			expect(server.records('/snapmirror/relationships')[0].state).toBe('broken_off');
+			expect(items[0].json._jobCompleted).toBe(true);
+		});
+
+		it('swaps source and destination for a reverse resync', async () => {
+			await executeNode(node, {
+				server,
+				parameters: { resource: 'relationship', operation: 'reverseResync', relationshipId: locator('uuid', 'rel-1') },
+			});
+
+			expect(server.requestsTo('PATCH', '/snapmirror/relationships/rel-1')[0].body).toEqual({
+				source: { path: 'svm_dst:vol1_dp' },
+				destination: { path: 'svm_src:vol1' },
+				state: 'snapmirrored',
+			});
+		});
+
+		it('aborts the active transfer', async () => {
+			server.seed('/snapmirror/relationships/rel-1/transfers', [
+				{ uuid: 'xfer-1', state: 'success' },
+				{ uuid: 'xfer-2', state: 'transferring' },
+			]);
+
+			await executeNode(node, {
+				server,
+				parameters: { resource: 'relationship', operation: 'abort', relationshipId: locator('uuid', 'rel-1') },
+			});
+
+			expect(server.requestsTo('PATCH', '/snapmirror/relationships/rel-1/transfers/xfer-2')[0].body).toEqual({
+				state: 'aborted',
+			});
+		});
+
+		it('reports when there is no transfer to abort', async () => {
+			const items = await executeNode(node, {
+				server,
+				parameters: { resource: 'relationship', operation: 'abort', relationshipId: locator('uuid', 'rel-1') },
+			});
+
+			expect(items[0].json).toEqual({ message: 'No active transfer to abort' });
+		});
+	});
+});
@@ -0,0 +1,693 @@
+import { NodeOperationError } from 'n8n-workflow';
+
+import { NetAppOntapStorage } from '../../nodes/NetAppOntapStorage/NetAppOntapStorage.node';
+import { createLoadOptionsContext, executeNode, fromAI, locator } from '../mock/createMockContext';
+import { OntapMockServer } from '../mock/OntapMockServer';
+
+describe('NetAppOntapStorage', () => {
+	const node = new NetAppOntapStorage();
+	let server: OntapMockServer;
+
+	beforeEach(() => {
+		server = new OntapMockServer();
+		server.seed('/storage/aggregates', [{ uuid: 'aggr-1', name: 'aggr1' }]);
+		server.seed('/storage/volumes', [
+			{ uuid: 'vol-1', name: 'vol1', svm: { name: 'svm1' }, state: 'online', size: 1073741824 },
+			{ uuid: 'vol-2', name: 'vol2', svm: { name: 'svm1' }, state: 'offline', size: 2147483648 },
+			{ uuid: 'vol-3', name: 'vol1', svm: { name: 'svm2' }, state: 'online', size: 1073741824 },
+		]);
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	describe('volume', () => {
+		it('follows _links.next to return every page', async () => {
+			for (let index = 0; index < 2500; index++) {
+				server.seed('/storage/volumes', [{ name: `bulk${index}`, svm: { name: 'svm3' } }]);
+			}
+
+			const items = await executeNode(node, {
+				server,
+				parameters: { resource: 'volume', operation: 'getMany', filters: { apiFilters: 'svm.name=svm3' } },
+			});
+
+			expect(items).toHaveLength(2500);
+			expect(server.requestsTo('GET', '/storage/volumes')).toHaveLength(3);
+		});
+
+		it('returns a single page when a limit is set', async () => {
+			const items = await executeNode(node, {
+				server,
+				parameters: { resource: 'volume', operation: 'getMany', filters: { returnAll: false, limit: 2 } },
+			});
+
+			expect(items).toHaveLength(2);
+			expect(server.requests[0].query).toMatchObject({ max_records: 2 });
+		});
+
+		it('sorts with the chosen page size and return timeout across pages', async () => {
+			const items = await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'volume',
+					operation: 'getMany',
+					filters: {
+						sort: { sortField: [{ field: 'name', direction: 'desc' }, { field: 'size' }] },
+						returnTimeout: 60,
+						pageSize: 2,
+					},
+				},
+			});
+
+			expect(items.map((item) => item.json.uuid)).toEqual(['vol-2', 'vol-1', 'vol-3']);
+			expect(server.requestsTo('GET', '/storage/volumes')).toHaveLength(2);
+			expect(server.requests[0].query).toEqual({ order_by: 'name desc,size asc', return_timeout: 60, max_records: 2 });
+			expect(server.requests[1].query).toMatchObject({ order_by: 'name desc,size asc', return_timeout: '60', 'start.index': '2' });
+		});
+
+		it('counts the matching volumes without returning them', async () => {
+			const items = await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'volume',
+					operation: 'getMany',
+					filters: { apiFilters: 'svm.name=svm1', returnRecords: false },
+				},
+			});
+
+			expect(items.map((item) => item.json)).toEqual([{ num_records: 2 }]);
+			expect(server.requests[0].query).toMatchObject({ 'svm.name': 'svm1', return_records: false });
+		});
+
+		it('passes API filters through as ONTAP query parameters', async () => {
+			const items = await executeNode(node, {
+				server,
+				parameters: { resource: 'volume', operation: 'getMany', filters: { apiFilters: 'state=!offline,name=vol*' } },
+			});
+
+			expect(items.map((item) => item.json.uuid)).toEqual(['vol-1', 'vol-3']);
+			expect(server.requests[0].query).toMatchObject({ state: '!offline', name: 'vol*' });
+		});
+
+		it('builds ONTAP queries from filter conditions', async () => {
+			server.seed('/storage/volumes', [
+				{ uuid: 'vol-4', name: 'vol4', svm: { name: 'svm1' }, state: 'online', comment: 'db|logs' },
+				{ uuid: 'vol-5', name: 'vol5', svm: { name: 'svm1' }, state: 'online', comment: 'db' },
+			]);
+
+			const items = await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'volume',
+					operation: 'getMany',
+					filters: {
+						conditions: {
+							condition: [
+								{ field: 'comment', operator: 'equals', value: 'db|logs' },
+								{ field: 'svm.name', operator: 'oneOf', value: 'svm1,svm2' },
+							],
+						},
+					},
+				},
+			});
+
+			expect(items.map((item) => item.json.uuid)).toEqual(['vol-4']);
+			expect(server.requests[0].query).toMatchObject({ comment: '"db|logs"', 'svm.name': 'svm1|svm2' });
+		});
+
+		it('formats sizes when asked to', async () => {
+			const items = await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'volume',
+					operation: 'getMany',
+					filters: { apiFilters: 'name=vol2' },
+					options: { formatSizes: true },
+				},
+			});
+
+			expect(items[0].json).toMatchObject({ size: 2147483648, size_formatted: '2 GB' });
+		});
+
+		it('resolves a volume name to its UUID within the given SVM', async () => {
+			const items = await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'volume',
+					operation: 'get',
+					volumeId: locator('name', 'vol1'),
+					volumeSvm: locator('name', 'svm2'),
+				},
+			});
+
+			expect(items[0].json.uuid).toBe('vol-3');
+			expect(server.requests[0]).toMatchObject({
+				method: 'GET',
+				path: '/storage/volumes',
+				query: { name: 'vol1', 'svm.name': 'svm2' },
+			});
+			expect(server.requests[1].path).toBe('/storage/volumes/vol-3');
+		});
+
+		it('creates a volume and waits for the job to finish', async () => {
+			const items = await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'volume',
+					operation: 'create',
+					volumeName: 'vol_new',
+					createSvm: locator('name', 'svm1'),
+					volumeSize: '10GB',
+					volumeAggregate: locator('name', 'aggr1'),
+				},
+			});
+
+			expect(server.requestsTo('POST', '/storage/volumes')[0].body).toEqual({
+				name: 'vol_new',
+				svm: { name: 'svm1' },
+				size: 10737418240,
+				aggregates: [{ name: 'aggr1' }],
+			});
+			expect(items[0].json).toMatchObject({ _jobCompleted: true, job: { state: 'success' } });
+			expect(items[0].json._action).toBeUndefined();
+			expect(server.records('/storage/volumes').some((volume) => volume.name === 'vol_new')).toBe(true);
+		});
+
+		it('updates only the differing fields of an existing volume', async () => {
+			const items = await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'volume',
+					operation: 'create',
+					volumeName: 'vol1',
+					createSvm: locator('name', 'svm1'),
+					volumeSize: '2GB',
+					volumeAggregate: locator('name', 'aggr1'),
+					volumeCreateOptions: { comment: 'database' },
+					ifExists: 'update',
+				},
+			});
+
+			expect(server.requests[0].query).toMatchObject({ name: 'vol1', 'svm.name': 'svm1' });
+			expect(server.requestsTo('POST', '/storage/volumes')).toHaveLength(0);
+			expect(server.requestsTo('PATCH', '/storage/volumes/vol-1')[0].body).toEqual({
+				size: 2147483648,
+				comment: 'database',
+			});
+			expect(items[0].json).toMatchObject({
+				uuid: 'vol-1',
+				size: 2147483648,
+				_action: 'updated',
+				_changedFields: ['size', 'comment'],
+			});
+		});
+
+		it('leaves a matching volume alone and creates a missing one', async () => {
+			const parameters = {
+				resource: 'volume',
+				operation: 'create',
+				createSvm: locator('name', 'svm1'),
+				volumeSize: '1GB',
+				volumeAggregate: locator('name', 'aggr1'),
+				ifExists: 'update',
+			};
+
+			const unchanged = await executeNode(node, { server, parameters: { ...parameters, volumeName: 'vol1' } });
+			const created = await executeNode(node, { server, parameters: { ...parameters, volumeName: 'vol_new' } });
+
+			expect(unchanged[0].json).toMatchObject({ uuid: 'vol-1', _action: 'unchanged' });
+			expect(created[0].json).toMatchObject({ _action: 'created', _jobCompleted: true });
+			expect(server.requestsTo('PATCH', /^\/storage\/volumes\//)).toHaveLength(0);
+			expect(server.requestsTo('POST', '/storage/volumes')).toHaveLength(1);
+		});
+
+		it('names a key field that is missing before looking the volume up', async () => {
+			const error = await executeNode(node, {
+				server,
+				items: [{ json: {} }, { json: {} }],
+				parameters: (itemIndex) => ({
+					resource: 'volume',
+					operation: 'create',
+					volumeName: 'vol1',
+					createSvm: locator('name', itemIndex === 0 ? 'svm1' : ''),
+					volumeSize: '1GB',
+					volumeAggregate: locator('name', 'aggr1'),
+					ifExists: 'skip',
+				}),
+			}).catch((caught: NodeOperationError) => caught);
+
+			expect(error).toBeInstanceOf(NodeOperationError);
+			expect((error as NodeOperationError).message).toBe('The "svm.name" field is needed to look up an existing object');
+			expect((error as NodeOperationError).context.itemIndex).toBe(1);
+			expect(server.requestsTo('GET', '/storage/volumes')).toHaveLength(1);
+		});
+
+		it('fails with the job message when the job fails', async () => {
+			server.jobOutcome = { pendingPolls: 0, state: 'failure', message: 'Insufficient space in aggregate' };
+
+			await expect(executeNode(node, {
+				server,
+				parameters: {
+					resource: 'volume',
+					operation: 'create',
+					volumeName: 'vol_big',
+					createSvm: locator('name', 'svm1'),
+					volumeSize: '100TB',
+					volumeAggregate: locator('name', 'aggr1'),
+				},
+			})).rejects.toThrow('ONTAP job failed: Insufficient space in aggregate');
+		});
+
+		it('returns the job UUID without waiting when asked to', async () => {
+			server.jobOutcome = { pendingPolls: 5, state: 'success' };
+
+			const items = await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'volume',
+					operation: 'move',
+					volumeId: locator('uuid', 'vol-1'),
+					destAggregate: locator('name', 'aggr1'),
+					jobOptions: { waitForCompletion: false },
+				},
+			});
+
+			expect(items[0].json).toMatchObject({ _jobCompleted: false, jobUuid: expect.any(String) });
+			expect(server.requestsTo('GET', `/cluster/jobs/${items[0].json.jobUuid}`)).toHaveLength(0);
+		});
+
+		it('gives up on a job after the configured timeout', async () => {
+			jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+			server.jobOutcome = { pendingPolls: 100, state: 'success' };
+
+			const execution = executeNode(node, {
+				server,
+				parameters: {
+					resource: 'volume',
+					operation: 'move',
+					volumeId: locator('uuid', 'vol-1'),
+					destAggregate: locator('name', 'aggr1'),
+					jobOptions: { timeout: 5, pollInterval: 1 },
+				},
+			});
+			const assertion = expect(execution).rejects.toThrow('did not complete within 5 seconds');
+			await jest.advanceTimersByTimeAsync(10000);
+			await assertion;
+
+			expect(server.requests.filter((request) => request.path.startsWith('/cluster/jobs/'))).toHaveLength(5);
+		});
+
+		it('collects the job history while waiting', async () => {
+			jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+			server.jobOutcome = { pendingPolls: 3, state: 'success', progress: ['Preparing', 'Transferring', 'Transferring'] };
+
+			const execution = executeNode(node, {
+				server,
+				parameters: {
+					resource: 'volume',
+					operation: 'move',
+					volumeId: locator('uuid', 'vol-1'),
+					destAggregate: locator('name', 'aggr1'),
+					jobOptions: { pollInterval: 1, includeHistory: true },
+				},
+			});
+			await jest.advanceTimersByTimeAsync(5000);
+			const items = await execution;
+
+			expect(items[0].json._jobHistory).toEqual([
+				{ time: expect.any(String), state: 'running', message: 'Preparing' },
+				{ time: expect.any(String), state: 'running', message: 'Transferring' },
+				{ time: expect.any(String), state: 'success', message: 'success', code: 0 },
+			]);
+			expect(items[0].json._jobElapsedMs).toBe(3000);
+			expect(items[0].json.job).not.toHaveProperty('_jobHistory');
+		});
+
+		it('returns the failed job and its history with continue on fail', async () => {
+			server.jobOutcome = { pendingPolls: 0, state: 'failure', message: 'Aggregate is offline', code: 917536 };
+
+			const items = await executeNode(node, {
+				server,
+				continueOnFail: true,
+				parameters: {
+					resource: 'volume',
+					operation: 'move',
+					volumeId: locator('uuid', 'vol-1'),
+					destAggregate: locator('name', 'aggr1'),
+					jobOptions: { includeHistory: true },
+				},
+			});
+
+			expect(items[0].json).toMatchObject({
+				error: 'ONTAP job failed: Aggregate is offline',
+				job: { state: 'failure', code: 917536, error: { message: 'Aggregate is offline', code: '917536' } },
+				_jobHistory: [{ state: 'failure', message: 'Aggregate is offline', code: 917536 }],
+				_jobElapsedMs: expect.any(Number),
+			});
+		});
+
+		it('takes a volume offline with a PATCH', async () => {
+			await executeNode(node, {
+				server,
+				parameters: { resource: 'volume', operation: 'offline', volumeId: locator('uuid', 'vol-1') },
+			});
+
+			expect(server.requestsTo('PATCH', '/storage/volumes/vol-1')[0].body).toEqual({ state: 'offline' });
+			expect(server.records('/storage/volumes')[0].state).toBe('offline');
+		});
+
+		it('returns the requests instead of sending them on a dry run', async () => {
+			const items = await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'volume',
+					operation: 'offline',
+					volumeId: locator('name', 'vol1'),
+					volumeSvm: locator('name', 'svm2'),
+					dryRun: true,
+				},
+			});
+
+			expect(items[0].json).toEqual({
+				dryRun: true,
+				requests: [{
+					method: 'PATCH',
+					url: 'https://cluster.test:443/api/storage/volumes/vol-3',
+					query: {},
+					body: { state: 'offline' },
+				}],
+			});
+			expect(server.requests.map((request) => request.method)).toEqual(['GET']);
+			expect(server.records('/storage/volumes')[2].state).toBe('online');
+		});
+
+		it('looks up a volume name once per execution', async () => {
+			const items = await executeNode(node, {
+				server,
+				items: Array.from({ length: 3 }, () => ({ json: {} })),
+				parameters: {
+					resource: 'volume',
+					operation: 'get',
+					volumeId: locator('name', 'vol1'),
+					volumeSvm: locator('name', 'svm2'),
+					concurrency: 3,
+				},
+			});
+
+			expect(items.map((item) => item.json.uuid)).toEqual(['vol-3', 'vol-3', 'vol-3']);
+			expect(server.requestsTo('GET', '/storage/volumes')).toHaveLength(1);
+			expect(server.requestsTo('GET', '/storage/volumes/vol-3')).toHaveLength(3);
+		});
+
+		it('looks a volume name up again after deleting the volume', async () => {
+			const items = await executeNode(node, {
+				server,
+				items: [{ json: {} }, { json: {} }],
+				continueOnFail: true,
+				parameters: {
+					resource: 'volume',
+					operation: 'delete',
+					volumeId: locator('name', 'vol2'),
+					volumeSvm: locator('name', 'svm1'),
+				},
+			});
+
+			expect(items[0].json).toMatchObject({ _jobCompleted: true });
+			expect(items[1].json).toMatchObject({ error: 'Volume "vol2" not found' });
+			expect(server.requestsTo('GET', '/storage/volumes')).toHaveLength(2);
+		});
+
+		it('reports an unknown volume name on its item', async () => {
+			const error = await executeNode(node, {
+				server,
+				parameters: { resource: 'volume', operation: 'delete', volumeId: locator('name', 'missing') },
+			}).catch((caught: NodeOperationError) => caught);
+
+			expect(error).toBeInstanceOf(NodeOperationError);
+			expect((error as NodeOperationError).message).toBe('Volume "missing" not found');
+			expect((error as NodeOperationError).context.itemIndex).toBe(0);
+		});
+
+		it('refuses a volume name used in more than one SVM', async () => {
+			await expect(executeNode(node, {
+				server,
+				parameters: { resource: 'volume', operation: 'delete', volumeId: locator('name', 'vol1') },
+			})).rejects.toThrow('More than one Volume is named "vol1"');
+			expect(server.requestsTo('DELETE', /^\/storage\/volumes\//)).toHaveLength(0);
+		});
+
+		it('returns the error per item with continueOnFail', async () => {
+			server.fail({ method: 'GET', path: '/storage/volumes/vol-2', status: 403, error: { message: 'not authorized for that command', code: '6' } });
+
+			const items = await executeNode(node, {
+				server,
+				continueOnFail: true,
+				items: [{ json: {} }, { json: {} }],
+				parameters: (itemIndex) => ({
+					resource: 'volume',
+					operation: 'get',
+					volumeId: locator('uuid', itemIndex === 0 ? 'vol-1' : 'vol-2'),
+				}),
+			});
+
+			expect(items).toHaveLength(2);
+			expect(items[0]).toMatchObject({ json: { uuid: 'vol-1' }, pairedItem: { item: 0 } });
+			expect(items[1].json.error).toBeDefined();
+			expect(items[1].pairedItem).toEqual({ item: 1 });
+		});
+	});
+
+	describe('snapshot', () => {
+		it('creates a snapshot in the volume\'s snapshot collection', async () => {
+			await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'snapshot',
+					operation: 'create',
+					snapshotVolume: locator('list', 'vol-1'),
+					snapshotName: 'before_upgrade',
+				},
+			});
+
+			expect(server.records('/storage/volumes/vol-1/snapshots')).toEqual([
+				expect.objectContaining({ name: 'before_upgrade' }),
+			]);
+		});
+
+		it('resolves a snapshot name before deleting it', async () => {
+			server.seed('/storage/volumes/vol-1/snapshots', [{ uuid: 'snap-1', name: 'daily.0' }]);
+
+			const items = await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'snapshot',
+					operation: 'delete',
+					snapshotVolume: locator('uuid', 'vol-1'),
+					snapshotId: locator('name', 'daily.0'),
+				},
+			});
+
+			expect(server.requestsTo('DELETE', '/storage/volumes/vol-1/snapshots/snap-1')).toHaveLength(1);
+			expect(server.records('/storage/volumes/vol-1/snapshots')).toHaveLength(0);
+			expect(items[0].json._jobCompleted).toBe(true);
+		});
+
+		it('lists the snapshots of a volume selected by name in its SVM', async () => {
+			server.seed('/storage/volumes/vol-3/snapshots', [{ uuid: 'snap-3', name: 'hourly.0' }]);
+
+			const items = await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'snapshot',
+					operation: 'getMany',
+					snapshotVolume: locator('name', 'vol1'),
+					snapshotSvm: locator('name', 'svm2'),
+				},
+			});
+
+			expect(server.requests[0].query).toMatchObject({ name: 'vol1', 'svm.name': 'svm2' });
+			expect(items.map((item) => item.json.name)).toEqual(['hourly.0']);
+		});
+
+		it('needs the SVM of a volume selected by name', async () => {
+			await expect(executeNode(node, {
+				server,
+				parameters: { resource: 'snapshot', operation: 'delete', snapshotVolume: locator('name', 'vol1'), snapshotId: locator('uuid', 'snap-1') },
+			})).rejects.toThrow('Set the SVM of a volume selected by name');
+			expect(server.requests).toHaveLength(0);
+		});
+
+		it('searches the snapshots of a volume selected by name in its SVM', async () => {
+			server.seed('/storage/volumes/vol-3/snapshots', [{ uuid: 'snap-3', name: 'hourly.0' }]);
+			const context = createLoadOptionsContext(node, {
+				server,
+				parameters: { resource: 'snapshot', snapshotVolume: locator('name', 'vol1'), snapshotSvm: locator('list', 'svm2') },
+			});
+
+			const result = await node.methods!.listSearch!.searchSnapshots.call(context);
+
+			expect(result.results).toEqual([{ name: 'hourly.0', value: 'snap-3' }]);
+		});
+	});
+
+	describe('concurrency', () => {
+		it('processes items in parallel and keeps their order', async () => {
+			let inFlight = 0;
+			let maxInFlight = 0;
+			server.on('POST', '/storage/volumes/vol-1/qtrees', async (request) => {
+				inFlight++;
+				maxInFlight = Math.max(maxInFlight, inFlight);
+				// Later items answer sooner, so they finish out of order
+				const index = Number(String(request.body?.name).replace('qtree', ''));
+				await new Promise((resolve) => setTimeout(resolve, 30 - index * 5));
+				inFlight--;
+				return { name: request.body?.name };
+			});
+
+			const items = await executeNode(node, {
+				server,
+				items: Array.from({ length: 6 }, () => ({ json: {} })),
+				parameters: (itemIndex) => ({
+					resource: 'qtree',
+					operation: 'create',
+					qtreeVolume: locator('uuid', 'vol-1'),
+					qtreeName: `qtree${itemIndex}`,
+					concurrency: 3,
+				}),
+			});
+
+			expect(maxInFlight).toBe(3);
+			expect(items.map((item) => item.json.name)).toEqual(['qtree0', 'qtree1', 'qtree2', 'qtree3', 'qtree4', 'qtree5']);
+			expect(items.map((item) => item.pairedItem)).toEqual([0, 1, 2, 3, 4, 5].map((item) => ({ item })));
+		});
+
+		it('stops taking new items once one fails', async () => {
+			server.fail({ path: '/storage/volumes/vol-1/qtrees', status: 400, error: { message: 'Invalid name', code: '262197' } });
+
+			await expect(executeNode(node, {
+				server,
+				items: Array.from({ length: 6 }, () => ({ json: {} })),
+				parameters: (itemIndex) => ({
+					resource: 'qtree',
+					operation: 'create',
+					qtreeVolume: locator('uuid', 'vol-1'),
+					qtreeName: `qtree${itemIndex}`,
+					concurrency: 2,
+				}),
+			})).rejects.toThrow('Invalid name');
+			expect(server.requestsTo('POST', '/storage/volumes/vol-1/qtrees').length).toBeLessThan(6);
+		});
+	});
+
+	describe('AI agent tool', () => {
+		const deleteVolume = { resource: 'volume', operation: 'delete', volumeId: locator('uuid', 'vol-1') };
+
+		it('blocks destructive operations unless they are allowed', async () => {
+			await expect(executeNode(node, { server, asTool: true, parameters: deleteVolume }))
+				.rejects.toThrow('The "delete" operation is not allowed for AI agents');
+			expect(server.requests).toHaveLength(0);
+
+			await executeNode(node, {
+				server,
+				asTool: true,
+				parameters: { ...deleteVolume, allowDestructiveToolOperations: true },
+			});
+			expect(server.requestsTo('DELETE', '/storage/volumes/vol-1')).toHaveLength(1);
+		});
+
+		it('blocks a resize, which can shrink the volume', async () => {
+			await expect(executeNode(node, {
+				server,
+				asTool: true,
+				parameters: { ...deleteVolume, operation: 'resize', newSize: '100MB' },
+			})).rejects.toThrow('The "resize" operation is not allowed for AI agents');
+			expect(server.requests).toHaveLength(0);
+		});
+
+		it('runs read operations and regular workflows unchanged', async () => {
+			await executeNode(node, { server, asTool: true, parameters: { ...deleteVolume, operation: 'get' } });
+			await executeNode(node, { server, parameters: deleteVolume });
+
+			expect(server.requestsTo('GET', '/storage/volumes/vol-1')).toHaveLength(1);
+			expect(server.requestsTo('DELETE', '/storage/volumes/vol-1')).toHaveLength(1);
+		});
+
+		it('reads the parameters an agent fills in with $fromAI', async () => {
+			const items = await executeNode(node, {
+				server,
+				asTool: true,
+				items: [{ json: { volume: 'vol1', svm: 'svm2' } }, { json: { volume: 'vol2', svm: 'svm1' } }],
+				parameters: {
+					resource: 'volume',
+					operation: 'get',
+					volumeId: locator('name', fromAI('volume', 'Name of the volume')),
+					volumeSvm: locator('name', fromAI('svm', 'SVM that owns the volume')),
+				},
+			});
+
+			expect(items.map((item) => item.json.uuid)).toEqual(['vol-3', 'vol-2']);
+		});
+
+		it('passes $fromAI filter values to the query', async () => {
+			const items = await executeNode(node, {
+				server,
+				asTool: true,
+				items: [{ json: { state: 'offline' } }],
+				parameters: {
+					resource: 'volume',
+					operation: 'getMany',
+					filters: {
+						conditions: {
+							condition: [{ field: 'state', operator: 'equals', value: fromAI('state', 'Volume state to list') }],
+						},
+					},
+				},
+			});
+
+			expect(items.map((item) => item.json.name)).toEqual(['vol2']);
+			expect(server.requestsTo('GET', '/storage/volumes')[0].query).toMatchObject({ state: 'offline' });
+		});
+	});
+
+	describe('fields option', () => {
+		it('lists the catalog fields of the selected resource', async () => {
+			const context = createLoadOptionsContext(node, { server, parameters: { resource: 'volume' } });
+
+			const options = await node.methods!.loadOptions!.getFields.call(context);
+
+			expect(options.slice(0, 2).map((option) => option.value)).toEqual(['*', '**']);
+			expect(options.map((option) => option.value)).toContain('space.logical_space.used');
+		});
+
+		it('requests the chosen fields, or a comma list from older workflows', async () => {
+			for (const fields of [['name', 'space.used'], 'name, space.used']) {
+				await executeNode(node, {
+					server,
+					parameters: { resource: 'volume', operation: 'getMany', options: { fields } },
+				});
+			}
+
+			expect(server.requests.map((request) => request.query.fields)).toEqual(['name,space.used', 'name,space.used']);
+		});
+	});
+
+	describe('custom API call', () => {
+		it('sends the request to the given path and strips a leading /api', async () => {
+			const items = await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'customApiCall',
+					operation: 'call',
+					customMethod: 'GET',
+					customPath: '/api/storage/aggregates',
+					customQuery: '{"name": "aggr1"}',
+				},
+			});
+
+			expect(server.requests[0]).toMatchObject({ path: '/storage/aggregates', query: { name: 'aggr1' } });
+			expect(items[0].json).toMatchObject({ num_records: 1 });
+		});
+	});
+});
@@ -0,0 +1,127 @@
+import { NetAppOntapSvm } from '../../nodes/NetAppOntapSvm/NetAppOntapSvm.node';
+import { createLoadOptionsContext, executeNode, locator } from '../mock/createMockContext';
+import { OntapMockServer } from '../mock/OntapMockServer';
+
+describe('NetAppOntapSvm', () => {
+	const node = new NetAppOntapSvm();
+	let server: OntapMockServer;
+
+	beforeEach(() => {
+		server = new OntapMockServer();
+		server.seed('/svm/svms', [
+			{ uuid: 'svm-1', name: 'svm_prod', state: 'running' },
+			{ uuid: 'svm-2', name: 'svm_test', state: 'running' },
+			{ uuid: 'svm-3', name: 'backup', state: 'stopped' },
+		]);
+	});
+
+	describe('svm', () => {
+		it('creates an SVM with protocols and aggregates', async () => {
+			const items = await executeNode(node, {
+				server,
+				parameters: {
+					resource: 'svm',
+					operation: 'create',
+					svmName: 'svm_new',
+					protocols: { nfsEnabled: true, cifsEnabled: false },
+					aggregates: 'aggr1, aggr2',
+				},
+			});
+
+			expect(server.requestsTo('POST', '/svm/svms')[0].body).toMatchObject({
+				name: 'svm_new',
+				nfs: { enabled: true },
+				cifs: { enabled: false },
+				aggregates: [{ name: 'aggr1' }, { name: 'aggr2' }],
+			});
+			expect(items[0].json._jobCompleted).toBe(true);
+		});
+
+		it('rejects a duplicate SVM name with the ONTAP error', async () => {
+			await expect(executeNode(node, {
+				server,
+				parameters: { resource: 'svm', operation: 'create', svmName: 'svm_prod' },
+			})).rejects.toMatchObject({ httpCode: '409', description: 'duplicate entry' });
+			expect(server.records('/svm/svms')).toHaveLength(3);
+		});
+
+		it('returns the ONTAP error details with continue on fail', async () => {
+			const items = await executeNode(node, {
+				server,
+				continueOnFail: true,
+				parameters: { resource: 'svm', operation: 'create', svmName: 'svm_prod' },
+			});
+
+			expect(items[0].json).toEqual({
+				error: 'An object with the same name or key already exists: duplicate entry (Error code: 1)',
+				type: 'duplicate',
+				code: '1',
+				target: 'name',
+				status: 409,
+				method: 'POST',
+				endpoint: '/svm/svms',
+			});
+		});
+
+		it('stops an SVM resolved by name', async () => {
+			await executeNode(node, {
+				server,
+				parameters: { resource: 'svm', operation: 'stop', svmId: locator('name', 'svm_test') },
+			});
+
+			expect(server.requestsTo('PATCH', '/svm/svms/svm-2')[0].body).toEqual({ state: 'stopped' });
+			expect(server.records('/svm/svms')[1].state).toBe('stopped');
+		});
+
+		it('deletes an SVM and keeps the job details', async () => {
+			const items = await executeNode(node, {
+				server,
+				parameters: { resource: 'svm', operation: 'delete', svmId: locator('uuid', 'svm-3') },
+			});
+
+			expect(items[0].json).toMatchObject({ _jobCompleted: true, job: { state: 'success' } });
+			expect(server.records('/svm/svms').map((svm) => svm.name)).toEqual(['svm_prod', 'svm_test']);
+		});
+	});
+
+	describe('svm peer', () => {
+		it('accepts a pending peer relationship', async () => {
+			server.seed('/svm/peers', [{ uuid: 'peer-1', state: 'pending' }]);
+
+			await executeNode(node, {
+				server,
+				parameters: { resource: 'svmPeer', operation: 'accept', peerUuid: 'peer-1' },
+			});
+
+			expect(server.records('/svm/peers')[0].state).toBe('peered');
+		});
+	});
+
+	describe('list search', () => {
+		it('searches SVMs by name and pages through the results', async () => {
+			for (let index = 0; index < 120; index++) {
+				server.seed('/svm/svms', [{ name: `svm_bulk${index}` }]);
+			}
+			const context = createLoadOptionsContext(node, { server, parameters: {} });
+
+			const firstPage = await node.methods!.listSearch!.searchSvms.call(context, 'bulk');
+			const secondPage = await node.methods!.listSearch!.searchSvms.call(context, 'bulk', firstPage.paginationToken as string);
+
+			expect(server.requests[0].query).toMatchObject({ name: '*bulk*', order_by: 'name', max_records: 100 });
+			expect(firstPage.results).toHaveLength(100);
+			expect(secondPage.results).toHaveLength(20);
+			expect(secondPage.paginationToken).toBeUndefined();
+		});
+
+		it('returns names as values for name locators', async () => {
+			const context = createLoadOptionsContext(node, { server, parameters: {} });
+
+			const result = await node.methods!.listSearch!.searchSvmNames.call(context, 'svm_');
+
+			expect(result.results).toEqual([
+				{ name: 'svm_prod', value: 'svm_prod' },
+				{ name: 'svm_test', value: 'svm_test' },
+			]);
+		});
+	});
+});